@@ -7,6 +7,8 @@ export interface AWSConfig {
   bedrock: {
     modelId: string;
     dimensions: number;
+    // 미리보기 실행의 비용 추정용 입력 1,000토큰당 요금 (USD, 기본값은 Titan Text Embeddings V2 온디맨드)
+    costPerThousandTokens: number;
   };
 }
 
@@ -18,6 +20,7 @@ export const awsConfig: AWSConfig = {
   },
   bedrock: {
     modelId: process.env.BEDROCK_MODEL_ID || 'amazon.titan-embed-text-v2:0',
-    dimensions: 1024
+    dimensions: 1024,
+    costPerThousandTokens: parseFloat(process.env.BEDROCK_EMBEDDING_COST_PER_1K_TOKENS || '0.00002')
   }
 };
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { ChunkingOptions } from '../crawling/chunker';
+import { DuplicateMode, SIMHASH_BANDS } from '../crawling/simhash';
+
+export interface CrawlerConfig {
+  userAgent: string;
+  robots: {
+    enabled: boolean;
+    userAgentToken: string;
+    cacheTtlMs: number;
+    fetchTimeoutMs: number;
+  };
+  // Crawl-delay가 없는 호스트의 요청 속도 (토큰 버킷)
+  rateLimit: {
+    requestsPerSecond: number;
+    burst: number;
+  };
+  maxCrawlDelayMs: number;
+  fetch: {
+    // auto: 정적 HTTP 요청 후 클라이언트 렌더링 페이지만 브라우저 사용
+    defaultMode: 'auto' | 'static' | 'headless';
+    staticTimeoutMs: number;
+  };
+  concurrency: {
+    // 동시에 여는 브라우저 탭 수
+    pages: number;
+    // 동시에 임베딩/저장하는 페이지 수
+    ingestion: number;
+  };
+  // 소스 유형별 청크 분할 방식과 크기 (사이트맵은 website 설정 사용)
+  chunking: {
+    website: ChunkingOptions;
+    markdown: ChunkingOptions;
+    pdf: ChunkingOptions;
+    github: ChunkingOptions;
+    // 업로드된 일반 텍스트 파일
+    text: ChunkingOptions;
+  };
+  upload: {
+    maxBytes: number;
+  };
+  // 다른 문서의 유사 중복 청크 처리 (SimHash 해밍 거리, SIMHASH_BANDS 미만이어야 밴드 검색으로 모두 찾음)
+  dedup: {
+    mode: DuplicateMode;
+    maxDistance: number;
+  };
+  // Notion/Confluence 내보내기 아카이브 가져오기
+  imports: {
+    maxBytes: number;
+    // 압축을 푼 페이지 파일 전체 크기 제한 (중첩 zip 포함)
+    maxUnpackedBytes: number;
+    maxPages: number;
+  };
+  pdf: {
+    // URL에서 내려받을 최대 크기
+    maxBytes: number;
+    downloadTimeoutMs: number;
+    // 텍스트 추출 전체 제한 시간
+    parseTimeoutMs: number;
+    // 이 페이지 수까지만 수집 (0이면 전체)
+    maxPages: number;
+  };
+  github: {
+    // 비공개 저장소 접근 및 API 요청 한도 확대용 (없으면 비인증 요청, 시간당 60회)
+    token: string | null;
+    maxFiles: number;
+    maxFileBytes: number;
+    // 한 번에 수집할 최대 이슈/PR/토론 수 (항목 종류별)
+    maxThreads: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    pollIntervalMs: number;
+  };
+  jobs: {
+    workerEnabled: boolean;
+    concurrency: number;
+    pollIntervalMs: number;
+    heartbeatIntervalMs: number;
+    staleAfterMs: number;
+    maxAttempts: number;
+  };
+  events: {
+    pollIntervalMs: number;
+    batchSize: number;
+    // 페이지별 임베딩 진행률 이벤트 저장 간격 (마지막 청크는 항상 저장)
+    progressIntervalMs: number;
+    // 끝난 작업의 이벤트 보관 기간
+    retentionMs: number;
+    pruneIntervalMs: number;
+  };
+}
+
+export const crawlerConfig: CrawlerConfig = {
+  userAgent: process.env.CRAWLER_USER_AGENT || 'ChatbotAdminBot/1.0 (+https://admin-for-slackbot.vercel.app)',
+  robots: {
+    enabled: process.env.CRAWLER_RESPECT_ROBOTS !== 'false',
+    userAgentToken: process.env.CRAWLER_ROBOTS_TOKEN || 'ChatbotAdminBot',
+    cacheTtlMs: 60 * 60 * 1000,
+    fetchTimeoutMs: 10000
+  },
+  rateLimit: {
+    requestsPerSecond: parseFloat(process.env.CRAWLER_HOST_RPS || '2'),
+    burst: parseInt(process.env.CRAWLER_HOST_BURST || '2', 10)
+  },
+  maxCrawlDelayMs: 30000,
+  fetch: {
+    defaultMode: (process.env.CRAWLER_FETCH_MODE as 'auto' | 'static' | 'headless') || 'auto',
+    staticTimeoutMs: 15000
+  },
+  concurrency: {
+    pages: parseInt(process.env.CRAWLER_PAGE_CONCURRENCY || '4', 10),
+    ingestion: parseInt(process.env.CRAWLER_INGEST_CONCURRENCY || '2', 10)
+  },
+  chunking: {
+    website: { strategy: 'markdown', maxTokens: 400, overlapTokens: 50, includeHeadingPath: true, tableFormat: 'markdown' },
+    markdown: { strategy: 'markdown', maxTokens: 400, overlapTokens: 50, includeHeadingPath: true, tableFormat: 'markdown' },
+    // PDF의 제목 경로는 목차(북마크) 항목
+    pdf: { strategy: 'text', maxTokens: 400, overlapTokens: 60, includeHeadingPath: true, tableFormat: 'markdown' },
+    github: { strategy: 'markdown', maxTokens: 600, overlapTokens: 60, includeHeadingPath: true, tableFormat: 'markdown' },
+    text: { strategy: 'text', maxTokens: 400, overlapTokens: 50, includeHeadingPath: false, tableFormat: 'markdown' }
+  },
+  upload: {
+    maxBytes: parseInt(process.env.CRAWLER_UPLOAD_MAX_BYTES || String(20 * 1024 * 1024), 10)
+  },
+  dedup: {
+    mode: (process.env.CRAWLER_DUPLICATE_MODE as DuplicateMode) || 'link',
+    maxDistance: Math.min(parseInt(process.env.CRAWLER_DUPLICATE_MAX_DISTANCE || '6', 10), SIMHASH_BANDS - 1)
+  },
+  imports: {
+    maxBytes: parseInt(process.env.CRAWLER_IMPORT_MAX_BYTES || String(200 * 1024 * 1024), 10),
+    maxUnpackedBytes: parseInt(process.env.CRAWLER_IMPORT_MAX_UNPACKED_BYTES || String(1024 * 1024 * 1024), 10),
+    maxPages: parseInt(process.env.CRAWLER_IMPORT_MAX_PAGES || '2000', 10)
+  },
+  pdf: {
+    maxBytes: parseInt(process.env.CRAWLER_PDF_MAX_BYTES || String(50 * 1024 * 1024), 10),
+    downloadTimeoutMs: parseInt(process.env.CRAWLER_PDF_DOWNLOAD_TIMEOUT_MS || '60000', 10),
+    parseTimeoutMs: parseInt(process.env.CRAWLER_PDF_PARSE_TIMEOUT_MS || '120000', 10),
+    maxPages: parseInt(process.env.CRAWLER_PDF_MAX_PAGES || '0', 10)
+  },
+  github: {
+    token: process.env.GITHUB_TOKEN || null,
+    maxFiles: parseInt(process.env.CRAWLER_GITHUB_MAX_FILES || '200', 10),
+    maxFileBytes: parseInt(process.env.CRAWLER_GITHUB_MAX_FILE_BYTES || String(200 * 1024), 10),
+    maxThreads: parseInt(process.env.CRAWLER_GITHUB_MAX_THREADS || '500', 10)
+  },
+  scheduler: {
+    enabled: process.env.CRAWL_SCHEDULER_ENABLED !== 'false',
+    pollIntervalMs: 60 * 1000
+  },
+  jobs: {
+    workerEnabled: process.env.CRAWL_WORKER_ENABLED !== 'false',
+    concurrency: parseInt(process.env.CRAWL_WORKER_CONCURRENCY || '1', 10),
+    pollIntervalMs: 5000,
+    heartbeatIntervalMs: 15000,
+    staleAfterMs: 2 * 60 * 1000,
+    maxAttempts: 3
+  },
+  events: {
+    pollIntervalMs: 1000,
+    batchSize: 200,
+    progressIntervalMs: 1000,
+    retentionMs: parseInt(process.env.CRAWL_EVENTS_RETENTION_DAYS || '7', 10) * 24 * 60 * 60 * 1000,
+    pruneIntervalMs: 60 * 60 * 1000
+  }
+};
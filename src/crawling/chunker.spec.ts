@@ -0,0 +1,83 @@
+import { ChunkingOptions, chunkDocument, estimateTokens } from './chunker';
+
+const OPTIONS: ChunkingOptions = {
+  strategy: 'markdown',
+  maxTokens: 120,
+  overlapTokens: 20,
+  includeHeadingPath: true,
+  tableFormat: 'markdown'
+};
+
+function paragraph(sentences: number): string {
+  return Array.from({ length: sentences }, (_, index) => `Sentence number ${index} explains an installation detail in plain words.`).join(' ');
+}
+
+function script(lines: number): string {
+  return ['```bash', ...Array.from({ length: lines }, (_, index) => `echo "line ${index} of the script"`), '```'].join('\n');
+}
+
+const TABLE = [
+  '| Variable | Meaning |',
+  '| --- | --- |',
+  ...Array.from({ length: 40 }, (_, index) => `| PROXY_SETTING_${index} | Value used by the proxy configuration step ${index} |`)
+].join('\n');
+
+const LONG_DOCUMENT = [
+  '# Installation guide for the command line interface',
+  '## Configuring proxies on corporate Linux workstations',
+  paragraph(40),
+  paragraph(40),
+  script(60),
+  TABLE
+].join('\n\n');
+
+describe('estimateTokens', () => {
+  it('counts about four Latin characters per token', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+  });
+
+  it('counts each CJK character as one token', () => {
+    expect(estimateTokens('설치 방법')).toBe(4);
+  });
+});
+
+describe('chunkDocument', () => {
+  it.each([true, false])('keeps every chunk within maxTokens (includeHeadingPath: %s)', includeHeadingPath => {
+    const chunks = chunkDocument(LONG_DOCUMENT, { ...OPTIONS, includeHeadingPath });
+
+    expect(chunks.length).toBeGreaterThan(5);
+    chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(OPTIONS.maxTokens));
+  });
+
+  it('prefixes chunks with the heading path of their section', () => {
+    const chunks = chunkDocument(LONG_DOCUMENT, OPTIONS);
+    const prefix = 'Installation guide for the command line interface > Configuring proxies on corporate Linux workstations';
+
+    expect(chunks[0].startsWith('# Installation guide')).toBe(true);
+    chunks.slice(1).forEach(chunk => expect(chunk.startsWith(`${prefix}\n\n`)).toBe(true));
+  });
+
+  it('reopens the code fence in every piece of a split code block', () => {
+    const chunks = chunkDocument(script(60), OPTIONS).filter(chunk => chunk.includes('echo'));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.startsWith('```bash\n')).toBe(true);
+      expect(chunk.endsWith('\n```')).toBe(true);
+    });
+  });
+
+  it('repeats the table header in every piece of a split table', () => {
+    const chunks = chunkDocument(TABLE, OPTIONS);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.startsWith('| Variable | Meaning |\n| --- | --- |\n')).toBe(true));
+  });
+
+  it('keeps a short document in a single chunk', () => {
+    const text = '# Title\n\nShort body text.';
+
+    expect(chunkDocument(text, OPTIONS)).toEqual([text]);
+  });
+});
@@ -0,0 +1,362 @@
+import { TableFormat, isTableRow, isTableSeparator, parseMarkdownTable, renderKeyValueRows } from './tables';
+
+export type ChunkStrategy = 'markdown' | 'text';
+
+export interface ChunkingOptions {
+  // markdown: 제목/코드 블록 구조를 따라 분할, text: 문단 단위로만 분할 (PDF 등 평문)
+  strategy: ChunkStrategy;
+  // 청크 최대 크기 (추정 토큰 수)
+  maxTokens: number;
+  // 인접 청크 간 겹치는 분량 (추정 토큰 수)
+  overlapTokens: number;
+  // 청크 앞에 제목 경로(예: "설치 > Linux") 추가
+  includeHeadingPath: boolean;
+  // 표 표현 방식: markdown(Markdown 표 유지) 또는 key-value(행마다 "머리글: 값" 한 줄)
+  tableFormat: TableFormat;
+}
+
+interface Block {
+  text: string;
+  tokens: number;
+  headingPath: string[];
+  kind: 'heading' | 'code' | 'paragraph' | 'table';
+  // 표를 나눌 때 조각마다 반복할 머리글 줄
+  tableHeader?: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})(.*)$/;
+// 한글/한자/가나는 대략 한 글자가 한 토큰
+const CJK_PATTERN = /[ᄀ-ᇿ぀-ヿ㄰-㆏㐀-䶿一-鿿가-힯豈-﫿]/g;
+// 문장 끝 뒤에 공백이 올 때만 분리 (URL, 버전 번호, 소수점은 유지)
+const SENTENCE_BOUNDARY = /([.!?。！？])\s+/g;
+
+// 토크나이저 없이 쓰는 토큰 수 추정 (영문 약 4자당 1토큰, CJK는 글자당 1토큰)
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  const rest = text.replace(CJK_PATTERN, '').replace(/\s+/g, ' ').trim().length;
+  return cjk + Math.ceil(rest / 4);
+}
+
+// 문서 구조(제목, 문단, 코드 블록)를 따라 토큰 예산 안에서 청크로 분할
+export function chunkDocument(text: string, options: ChunkingOptions): string[] {
+  const blocks = splitOversizedBlocks(parseBlocks(text, options), options);
+  const chunks: string[] = [];
+  // 현재 청크가 이보다 작으면 하위 섹션을 같은 청크에 합침
+  const minTokens = Math.floor(options.maxTokens / 4);
+
+  let current: Block[] = [];
+  let currentTokens = 0;
+
+  for (const block of blocks) {
+    const startsSection = block.kind === 'heading' && (currentTokens >= minTokens || !isWithin(block, current));
+    if (current.length > 0 && (startsSection || chunkTokens(current, currentTokens, options) + 1 + block.tokens > options.maxTokens)) {
+      // 청크 끝에 남은 제목은 다음 청크로 넘김
+      const trailing: Block[] = [];
+      while (current.length > 0 && current[current.length - 1].kind === 'heading') {
+        trailing.unshift(current.pop());
+      }
+      if (current.length > 0) {
+        chunks.push(renderChunk(current, options));
+      }
+      // 섹션이 바뀌면 이전 섹션 내용을 겹치지 않음
+      current = startsSection || trailing.length > 0
+        ? trailing
+        : takeOverlap(current, options.overlapTokens, options.maxTokens - block.tokens - headingPathTokens(current[current.length - 1], options));
+      currentTokens = current.reduce((sum, item) => sum + item.tokens, 0);
+      // 겹치는 블록 사이 구분자까지 더해 예산을 넘으면 앞에서부터 덜어냄
+      while (trailing.length === 0 && current.length > 0 && chunkTokens(current, currentTokens, options) + 1 + block.tokens > options.maxTokens) {
+        currentTokens -= current.shift().tokens;
+      }
+    }
+    current.push(block);
+    currentTokens += block.tokens;
+  }
+  if (current.some(block => block.kind !== 'heading')) {
+    chunks.push(renderChunk(current, options));
+  }
+
+  return chunks;
+}
+
+function parseBlocks(text: string, options: ChunkingOptions): Block[] {
+  const strategy = options.strategy;
+  const blocks: Block[] = [];
+  const headingPath: string[] = [];
+  const headingLevels: number[] = [];
+  let paragraph: string[] = [];
+  let fence: { marker: string; lines: string[] } | null = null;
+
+  const push = (value: string, kind: Block['kind'], tableHeader?: string) => {
+    const trimmed = kind === 'code' ? value.replace(/\n+$/, '') : value.trim();
+    if (trimmed) {
+      blocks.push({ text: trimmed, tokens: estimateTokens(trimmed), headingPath: [...headingPath], kind, tableHeader });
+    }
+  };
+  const pushTable = (lines: string[]) => {
+    if (options.tableFormat === 'key-value') {
+      push(renderKeyValueRows(parseMarkdownTable(lines)).join('\n'), 'table', '');
+    } else {
+      push(lines.map(line => line.trim()).join('\n'), 'table', lines.slice(0, 2).map(line => line.trim()).join('\n'));
+    }
+  };
+  // 문단 안의 Markdown 표(머리글 + 구분선 + 행)는 별도 블록으로 분리
+  const endParagraph = () => {
+    let lines = paragraph;
+    paragraph = [];
+    while (strategy === 'markdown' && lines.length > 0) {
+      const start = lines.findIndex((line, index) => isTableRow(line) && index + 1 < lines.length && isTableSeparator(lines[index + 1]));
+      if (start < 0) {
+        break;
+      }
+      let end = start + 2;
+      while (end < lines.length && isTableRow(lines[end])) {
+        end++;
+      }
+      push(lines.slice(0, start).join('\n'), 'paragraph');
+      pushTable(lines.slice(start, end));
+      lines = lines.slice(end);
+    }
+    push(lines.join('\n'), 'paragraph');
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (strategy === 'markdown') {
+      if (fence) {
+        fence.lines.push(line);
+        if (line.trim().startsWith(fence.marker) && line.trim().replace(/[`~]/g, '') === '') {
+          push(fence.lines.join('\n'), 'code');
+          fence = null;
+        }
+        continue;
+      }
+
+      const fenceMatch = line.match(FENCE_PATTERN);
+      if (fenceMatch) {
+        endParagraph();
+        fence = { marker: fenceMatch[1], lines: [line] };
+        continue;
+      }
+
+      const headingMatch = line.match(HEADING_PATTERN);
+      if (headingMatch) {
+        endParagraph();
+        const level = headingMatch[1].length;
+        while (headingLevels.length > 0 && headingLevels[headingLevels.length - 1] >= level) {
+          headingLevels.pop();
+          headingPath.pop();
+        }
+        headingLevels.push(level);
+        headingPath.push(headingMatch[2]);
+        push(line, 'heading');
+        continue;
+      }
+    }
+
+    if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  // 닫히지 않은 코드 블록은 그대로 닫아서 보존
+  if (fence) {
+    push(`${fence.lines.join('\n')}\n${fence.marker}`, 'code');
+  }
+  endParagraph();
+
+  return blocks;
+}
+
+// 예산보다 큰 블록 분할 (코드는 줄 단위로 나누고 펜스를 다시 씌움, 표는 행 단위로 나누고 머리글을 반복, 문단은 문장 → 단어 단위)
+// 블록이 청크의 첫 블록이 되면 제목 경로가 앞에 붙으므로 그만큼 뺀 예산으로 분할
+// 제목은 다음 블록과 같은 청크에 들어가므로 제목 바로 뒤 첫 조각은 제목 분량도 뺀 예산으로 분할
+function splitOversizedBlocks(blocks: Block[], options: ChunkingOptions): Block[] {
+  let leadingTokens = 0;
+
+  return blocks.reduce((result, block) => {
+    const maxTokens = Math.max(1, options.maxTokens - headingPathTokens(block, options));
+    if (block.kind === 'heading' && block.tokens <= maxTokens) {
+      result.push(block);
+      // 제목 뒤 구분자(빈 줄)도 한 토큰으로 계산
+      leadingTokens += block.tokens + 1;
+      return result;
+    }
+
+    const firstMaxTokens = Math.max(1, maxTokens - leadingTokens);
+    leadingTokens = 0;
+    if (block.tokens <= firstMaxTokens) {
+      result.push(block);
+      return result;
+    }
+
+    let pieces = block.tokens <= maxTokens ? [block.text] : splitBlock(block, maxTokens);
+    if (estimateTokens(pieces[0]) > firstMaxTokens) {
+      pieces = splitBlock({ ...block, text: pieces[0] }, firstMaxTokens).concat(pieces.slice(1));
+    }
+    pieces.forEach(text => result.push({ ...block, text, tokens: estimateTokens(text) }));
+    return result;
+  }, [] as Block[]);
+}
+
+function splitBlock(block: Block, maxTokens: number): string[] {
+  return block.kind === 'code'
+    ? splitCode(block.text, maxTokens)
+    : block.kind === 'table'
+      ? splitTable(block.text, block.tableHeader, maxTokens)
+      : packUnits(splitSentences(block.text, maxTokens), maxTokens, ' ');
+}
+
+function splitCode(code: string, maxTokens: number): string[] {
+  const lines = code.split('\n');
+  const opening = lines[0];
+  const marker = opening.trim().match(/^(`{3,}|~{3,})/)[1];
+  const closed = lines.length > 1 && lines[lines.length - 1].trim().startsWith(marker);
+  const body = lines.slice(1, closed ? -1 : undefined);
+  // 여는/닫는 펜스와 줄바꿈 두 개
+  const budget = maxTokens - estimateTokens(opening) - estimateTokens(marker) - 2;
+
+  const lineUnits = body.reduce(
+    (result, line) => result.concat(estimateTokens(line) > budget ? hardSplit(line, budget) : [line]),
+    [] as string[]
+  );
+
+  return packUnits(lineUnits, budget, '\n')
+    .map(piece => `${opening}\n${piece}\n${marker}`);
+}
+
+function splitTable(table: string, header: string, maxTokens: number): string[] {
+  const rows = (header ? table.slice(header.length) : table).split('\n').filter(row => row.trim());
+  const budget = maxTokens - estimateTokens(header) - (header ? 1 : 0);
+  const rowUnits = rows.reduce(
+    (result, row) => result.concat(estimateTokens(row) > budget ? hardSplit(row, budget) : [row]),
+    [] as string[]
+  );
+
+  return packUnits(rowUnits, budget, '\n').map(piece => (header ? `${header}\n${piece}` : piece));
+}
+
+function splitSentences(text: string, maxTokens: number): string[] {
+  return sentencesOf(text).reduce(
+    (result, sentence) => result.concat(estimateTokens(sentence) > maxTokens ? hardSplit(sentence, maxTokens) : [sentence]),
+    [] as string[]
+  );
+}
+
+function sentencesOf(text: string): string[] {
+  return text.replace(SENTENCE_BOUNDARY, '$1\u0000').split('\u0000');
+}
+
+// 문장 경계가 없는 긴 텍스트는 단어(없으면 글자) 단위로 자름
+function hardSplit(text: string, maxTokens: number): string[] {
+  const words = /\s/.test(text.trim()) ? text.match(/\s*\S+\s*/g) : Array.from(text);
+  return packUnits(words, maxTokens, '');
+}
+
+// 구분자는 한 토큰으로 계산 (추정치가 실제 이어 붙인 텍스트보다 작아지지 않도록)
+function packUnits(units: string[], maxTokens: number, separator: string): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const unit of units) {
+    const unitTokens = estimateTokens(unit);
+    const separatorTokens = separator && current.length > 0 ? 1 : 0;
+    if (current.length > 0 && tokens + separatorTokens + unitTokens > maxTokens) {
+      pieces.push(current.join(separator));
+      current = [];
+      tokens = 0;
+    }
+    tokens += unitTokens + (separator && current.length > 0 ? 1 : 0);
+    current.push(unit);
+  }
+  if (current.length > 0) {
+    pieces.push(current.join(separator));
+  }
+
+  return pieces.filter(piece => piece.trim().length > 0);
+}
+
+// 이전 청크 끝부분을 다음 청크 앞에 이어 붙일 블록 (코드 블록은 중간에서 자르지 않음)
+function takeOverlap(blocks: Block[], overlapTokens: number, available: number): Block[] {
+  const budget = Math.min(overlapTokens, available);
+  if (budget <= 0) {
+    return [];
+  }
+
+  const overlap: Block[] = [];
+  let tokens = 0;
+  for (let index = blocks.length - 1; index >= 0; index--) {
+    const block = blocks[index];
+    // 표 조각은 다음 청크에서 머리글과 함께 다시 시작하므로 겹치지 않음
+    if (block.kind === 'heading' || block.kind === 'table') {
+      break;
+    }
+    if (tokens + block.tokens <= budget) {
+      overlap.unshift(block);
+      tokens += block.tokens;
+      continue;
+    }
+    if (block.kind === 'paragraph') {
+      const tail = tailSentences(block.text, budget - tokens);
+      if (tail) {
+        overlap.unshift({ ...block, text: tail, tokens: estimateTokens(tail) });
+      }
+    }
+    break;
+  }
+
+  return overlap;
+}
+
+function tailSentences(text: string, budget: number): string {
+  const sentences = sentencesOf(text);
+  const tail: string[] = [];
+  let tokens = 0;
+  for (let index = sentences.length - 1; index >= 0; index--) {
+    const sentenceTokens = estimateTokens(sentences[index]);
+    if (tokens + sentenceTokens > budget) {
+      break;
+    }
+    tail.unshift(sentences[index]);
+    tokens += sentenceTokens;
+  }
+  return tail.join(' ');
+}
+
+// 제목 블록이 청크 시작 섹션의 하위 섹션인지 확인
+function isWithin(heading: Block, blocks: Block[]): boolean {
+  if (blocks.length === 0) {
+    return true;
+  }
+  const sectionPath = blocks[0].headingPath;
+  const parentPath = heading.headingPath.slice(0, -1);
+  return sectionPath.length <= parentPath.length && sectionPath.every((title, index) => parentPath[index] === title);
+}
+
+// 첫 블록이 제목이면 본문에 이미 있으므로 그 상위 경로만 붙임
+function headingPathOf(block: Block, options: ChunkingOptions): string {
+  if (!options.includeHeadingPath) {
+    return '';
+  }
+  const path = block.kind === 'heading' ? block.headingPath.slice(0, -1) : block.headingPath;
+  return path.join(' > ');
+}
+
+// 제목 경로와 본문 사이 구분자 포함
+function headingPathTokens(block: Block, options: ChunkingOptions): number {
+  const path = headingPathOf(block, options);
+  return path ? estimateTokens(path) + 1 : 0;
+}
+
+// 렌더링된 청크의 추정 토큰 수 상한 (제목 경로 + 블록 + 블록 사이 구분자)
+function chunkTokens(blocks: Block[], blockTokens: number, options: ChunkingOptions): number {
+  return headingPathTokens(blocks[0], options) + blockTokens + blocks.length - 1;
+}
+
+function renderChunk(blocks: Block[], options: ChunkingOptions): string {
+  const body = blocks.map(block => block.text).join('\n\n');
+  const path = headingPathOf(blocks[0], options);
+  return path ? `${path}\n\n${body}` : body;
+}
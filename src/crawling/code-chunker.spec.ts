@@ -0,0 +1,82 @@
+import { chunkSourceFile, detectLanguage } from './code-chunker';
+
+function pythonFunction(name: string, lines: number): string {
+  return [`def ${name}(value):`, ...Array.from({ length: lines }, (_, index) => `    value = value + ${index}  # step ${index}`), '    return value'].join('\n');
+}
+
+function tsMethod(name: string, lines: number): string {
+  return [`  ${name}(value: number): number {`, ...Array.from({ length: lines }, (_, index) => `    value = value + ${index}; // step ${index}`), '    return value;', '  }'].join('\n');
+}
+
+describe('detectLanguage', () => {
+  it('maps file extensions to languages', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectLanguage('tools/build.PY')).toBe('python');
+    expect(detectLanguage('include/vector.hpp')).toBe('cpp');
+  });
+
+  it('returns null for unsupported files', () => {
+    expect(detectLanguage('README.md')).toBeNull();
+    expect(detectLanguage('Makefile')).toBeNull();
+  });
+});
+
+describe('chunkSourceFile', () => {
+  it('returns no chunks for unsupported or blank files', () => {
+    expect(chunkSourceFile('notes.txt', 'plain text', 200)).toEqual([]);
+    expect(chunkSourceFile('empty.py', '\n   \n', 200)).toEqual([]);
+  });
+
+  it('merges small declarations into one chunk with a fenced header', () => {
+    const content = 'import os\n\ndef first():\n    return 1\n\ndef second():\n    return 2\n';
+    const chunks = chunkSourceFile('pkg/util.py', content, 200);
+
+    expect(chunks).toEqual([{
+      text: 'pkg/util.py > first, second\n\n```python\nimport os\n\ndef first():\n    return 1\n\ndef second():\n    return 2\n```',
+      startLine: 1,
+      endLine: 7,
+      symbol: 'first, second'
+    }]);
+  });
+
+  it('splits at top-level declarations when they do not fit together', () => {
+    const content = [pythonFunction('load', 3), '', pythonFunction('save', 3)].join('\n');
+    const chunks = chunkSourceFile('pkg/io.py', content, 60);
+
+    expect(chunks.map(chunk => chunk.symbol)).toEqual(['load', 'save']);
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 6], [7, 11]]);
+  });
+
+  it('keeps comments and decorators with the declaration below them', () => {
+    const content = [pythonFunction('load', 3), '', '# Writes the value', '@cached', pythonFunction('save', 3)].join('\n');
+    const chunks = chunkSourceFile('pkg/io.py', content, 60);
+
+    expect(chunks[1].symbol).toBe('save');
+    expect(chunks[1].text).toContain('```python\n# Writes the value\n@cached\ndef save(value):');
+  });
+
+  it('splits an oversized class at its methods and qualifies the symbol', () => {
+    const content = ['export class Calculator {', tsMethod('add', 4), '', tsMethod('subtract', 4), '}'].join('\n');
+    const chunks = chunkSourceFile('src/calculator.ts', content, 70);
+
+    expect(chunks.map(chunk => chunk.symbol)).toEqual(['Calculator', 'Calculator.add', 'Calculator.subtract']);
+    expect(chunks[0].text).toContain('export class Calculator {');
+  });
+
+  it('splits code without declarations by lines and covers every line once', () => {
+    const content = Array.from({ length: 40 }, (_, index) => `print("line number ${index} of the script")`).join('\n');
+    const chunks = chunkSourceFile('scripts/run.py', content, 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[chunks.length - 1].endLine).toBe(40);
+    chunks.slice(1).forEach((chunk, index) => expect(chunk.startLine).toBe(chunks[index].endLine + 1));
+  });
+
+  it('uses a longer fence when the code contains a code fence', () => {
+    const chunks = chunkSourceFile('docs.ts', 'const example = `\n```ts\nrun();\n```\n`;', 200);
+
+    expect(chunks[0].text).toContain('````typescript\n');
+    expect(chunks[0].text.endsWith('\n````')).toBe(true);
+  });
+});
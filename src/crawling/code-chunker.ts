@@ -0,0 +1,229 @@
+import { estimateTokens } from './chunker';
+
+export interface CodeChunk {
+  text: string;
+  // 1부터 시작하는 줄 번호 (끝 줄 포함)
+  startLine: number;
+  endLine: number;
+  symbol: string | null;
+}
+
+interface LanguageSpec {
+  name: string;
+  // 첫 번째 캡처 그룹이 심볼 이름인 선언 패턴 (들여쓰기를 제거한 줄에 적용)
+  declarations: RegExp[];
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  symbol: string | null;
+}
+
+const JS_DECLARATIONS = [
+  /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|enum|type|namespace)\s+([\w$]+)/,
+  /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function|\([^)]*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>)/,
+  /^(?:(?:public|private|protected|static|readonly|async|override|abstract|get|set)\s+)*([\w$]+)\s*(?:<[^>]*>)?\s*\([^;]*$/
+];
+
+const JVM_DECLARATIONS = [
+  /^(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|data|override|suspend|async|virtual|partial)\s+)*(?:class|interface|enum|record|object|struct|fun|trait)\s+(\w+)/,
+  /^(?:@\w+\s+)*(?:(?:public|private|protected|internal|static|final|abstract|synchronized|override|async|virtual)\s+)+[\w<>[\],.?\s]*?(\w+)\s*\([^;]*$/
+];
+
+const C_DECLARATIONS = [
+  /^(?:template\s*<[^>]*>\s*)?(?:class|struct|namespace|enum(?:\s+class)?|union)\s+(\w+)/,
+  /^(?:[\w:*&<>,]+\s+)+[*&]*([\w:~]+)\s*\([^;]*$/
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  py: { name: 'python', declarations: [/^(?:async\s+)?def\s+(\w+)/, /^class\s+(\w+)/] },
+  js: { name: 'javascript', declarations: JS_DECLARATIONS },
+  jsx: { name: 'javascript', declarations: JS_DECLARATIONS },
+  mjs: { name: 'javascript', declarations: JS_DECLARATIONS },
+  ts: { name: 'typescript', declarations: JS_DECLARATIONS },
+  tsx: { name: 'typescript', declarations: JS_DECLARATIONS },
+  java: { name: 'java', declarations: JVM_DECLARATIONS },
+  kt: { name: 'kotlin', declarations: JVM_DECLARATIONS },
+  scala: { name: 'scala', declarations: JVM_DECLARATIONS },
+  cs: { name: 'csharp', declarations: JVM_DECLARATIONS },
+  go: { name: 'go', declarations: [/^func\s+(?:\([^)]*\)\s*)?(\w+)/, /^type\s+(\w+)/] },
+  rs: {
+    name: 'rust',
+    declarations: [/^(?:pub(?:\([\w:]+\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|mod|impl(?:<[^>]*>)?)\s+([\w:]+)/]
+  },
+  c: { name: 'c', declarations: C_DECLARATIONS },
+  h: { name: 'c', declarations: C_DECLARATIONS },
+  cpp: { name: 'cpp', declarations: C_DECLARATIONS },
+  cc: { name: 'cpp', declarations: C_DECLARATIONS },
+  hpp: { name: 'cpp', declarations: C_DECLARATIONS },
+  rb: { name: 'ruby', declarations: [/^(?:def|class|module)\s+([\w.:?!]+)/] },
+  php: {
+    name: 'php',
+    declarations: [/^(?:(?:public|private|protected|static|abstract|final)\s+)*(?:function|class|interface|trait)\s+(\w+)/]
+  }
+};
+
+// 선언 패턴에 걸리지만 심볼이 아닌 제어문 키워드
+const KEYWORDS = new Set([
+  'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'catch', 'try', 'return', 'throw', 'new', 'await',
+  'typeof', 'sizeof', 'delete', 'function', 'super', 'this', 'elif', 'with', 'using', 'lock', 'synchronized'
+]);
+
+// 선언 바로 위에 붙은 주석/데코레이터/어노테이션
+const LEADING_LINE_PATTERN = /^(\/\/|\/\*|\*|#|@|--|\[\w)/;
+// 멤버 들여쓰기 계산에서 제외할 닫는 줄
+const CLOSING_LINE_PATTERN = /^([})\];,]+|end)$/;
+
+// 파일 확장자로 언어 판별 (지원하지 않는 언어는 null)
+export function detectLanguage(path: string): string | null {
+  const extension = (path.match(/\.(\w+)$/) || [])[1];
+  return extension && LANGUAGES[extension.toLowerCase()] ? LANGUAGES[extension.toLowerCase()].name : null;
+}
+
+// 함수/클래스 경계에서 소스 파일을 나누고 작은 선언은 토큰 예산 안에서 합침
+export function chunkSourceFile(path: string, content: string, maxTokens: number): CodeChunk[] {
+  const extension = ((path.match(/\.(\w+)$/) || [])[1] || '').toLowerCase();
+  const spec = LANGUAGES[extension];
+  const lines = content.replace(/\r\n?/g, '\n').replace(/\n+$/, '').split('\n');
+  if (!spec || lines.join('').trim() === '') {
+    return [];
+  }
+
+  const lineTokens = lines.map(line => estimateTokens(line) + 1);
+  const tokensOf = (segment: Segment) => lineTokens.slice(segment.start, segment.end).reduce((sum, tokens) => sum + tokens, 0);
+  // 파일 경로/언어 헤더와 코드 펜스 분량을 빼고 계산
+  const budget = Math.max(maxTokens - estimateTokens(path) - 10, 50);
+
+  const segments = splitAtDeclarations(lines, spec, 0, lines.length, 0, null)
+    .reduce((result, segment) => result.concat(
+      tokensOf(segment) <= budget ? [segment] : splitOversized(lines, lineTokens, spec, segment, budget)
+    ), [] as Segment[]);
+
+  return mergeSmallSegments(segments, tokensOf, budget).map(segment => ({
+    text: renderCode(path, spec.name, segment.symbol, lines.slice(segment.start, segment.end).join('\n')),
+    startLine: segment.start + 1,
+    endLine: segment.end,
+    symbol: segment.symbol
+  }));
+}
+
+// 지정한 들여쓰기 수준의 선언 줄에서 범위를 나눔 (선언 앞 주석/데코레이터는 선언에 포함)
+function splitAtDeclarations(
+  lines: string[],
+  spec: LanguageSpec,
+  start: number,
+  end: number,
+  indent: number,
+  parent: string | null
+): Segment[] {
+  const boundaries: { line: number; symbol: string }[] = [];
+
+  for (let index = start; index < end; index++) {
+    const line = lines[index];
+    if (line.length - line.trimStart().length !== indent) {
+      continue;
+    }
+    const symbol = matchDeclaration(line.trim(), spec);
+    if (!symbol) {
+      continue;
+    }
+
+    let boundary = index;
+    while (boundary - 1 > start && LEADING_LINE_PATTERN.test(lines[boundary - 1].trim())
+      && lines[boundary - 1].length - lines[boundary - 1].trimStart().length === indent) {
+      boundary--;
+    }
+    if (boundaries.length === 0 || boundary > boundaries[boundaries.length - 1].line) {
+      boundaries.push({ line: boundary, symbol: parent ? `${parent}.${symbol}` : symbol });
+    }
+  }
+
+  const segments: Segment[] = [];
+  if (boundaries.length === 0 || boundaries[0].line > start) {
+    segments.push({ start, end: boundaries.length > 0 ? boundaries[0].line : end, symbol: parent });
+  }
+  boundaries.forEach((boundary, index) => {
+    segments.push({
+      start: boundary.line,
+      end: index + 1 < boundaries.length ? boundaries[index + 1].line : end,
+      symbol: boundary.symbol
+    });
+  });
+
+  return segments.filter(segment => lines.slice(segment.start, segment.end).join('').trim() !== '');
+}
+
+function matchDeclaration(line: string, spec: LanguageSpec): string | null {
+  for (const pattern of spec.declarations) {
+    const match = line.match(pattern);
+    if (match && !KEYWORDS.has(match[1])) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+// 예산을 넘는 선언은 한 단계 안쪽 멤버(메서드 등) 경계로 나누고, 그래도 크면 줄 단위로 자름
+function splitOversized(lines: string[], lineTokens: number[], spec: LanguageSpec, segment: Segment, budget: number): Segment[] {
+  const memberIndent = lines
+    .slice(segment.start + 1, segment.end)
+    .filter(line => line.trim() !== '' && !CLOSING_LINE_PATTERN.test(line.trim()))
+    .reduce((min, line) => Math.min(min, line.length - line.trimStart().length), Infinity);
+
+  const baseIndent = lines[segment.start].length - lines[segment.start].trimStart().length;
+  const members = memberIndent > baseIndent && memberIndent !== Infinity
+    ? splitAtDeclarations(lines, spec, segment.start, segment.end, memberIndent, segment.symbol)
+    : [segment];
+
+  return members.reduce((result, member) => {
+    const tokens = lineTokens.slice(member.start, member.end).reduce((sum, value) => sum + value, 0);
+    if (tokens <= budget) {
+      return result.concat([member]);
+    }
+    if (members.length > 1) {
+      return result.concat(splitOversized(lines, lineTokens, spec, member, budget));
+    }
+    return result.concat(splitByLines(lineTokens, member, budget));
+  }, [] as Segment[]);
+}
+
+function splitByLines(lineTokens: number[], segment: Segment, budget: number): Segment[] {
+  const pieces: Segment[] = [];
+  let start = segment.start;
+  let tokens = 0;
+
+  for (let index = segment.start; index < segment.end; index++) {
+    if (index > start && tokens + lineTokens[index] > budget) {
+      pieces.push({ start, end: index, symbol: segment.symbol });
+      start = index;
+      tokens = 0;
+    }
+    tokens += lineTokens[index];
+  }
+  pieces.push({ start, end: segment.end, symbol: segment.symbol });
+
+  return pieces;
+}
+
+// 인접한 작은 선언들을 예산 안에서 한 청크로 합침
+function mergeSmallSegments(segments: Segment[], tokensOf: (segment: Segment) => number, budget: number): Segment[] {
+  return segments.reduce((result, segment) => {
+    const previous = result[result.length - 1];
+    if (previous && previous.end === segment.start && tokensOf({ ...previous, end: segment.end }) <= budget) {
+      const symbols = [previous.symbol, segment.symbol].filter(symbol => symbol);
+      result[result.length - 1] = {
+        start: previous.start,
+        end: segment.end,
+        symbol: symbols.length > 0 ? Array.from(new Set(symbols.join(', ').split(', '))).join(', ') : null
+      };
+      return result;
+    }
+    return result.concat([segment]);
+  }, [] as Segment[]);
+}
+
+function renderCode(path: string, language: string, symbol: string | null, code: string): string {
+  const fence = code.includes('```') ? '````' : '```';
+  return `${path}${symbol ? ` > ${symbol}` : ''}\n\n${fence}${language}\n${code}\n${fence}`;
+}
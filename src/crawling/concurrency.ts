@@ -0,0 +1,65 @@
+// 동시 실행 수 제한 (대기 순서대로 슬롯 할당)
+export class Semaphore {
+  private available: number;
+  private readonly waiters: (() => void)[] = [];
+
+  constructor(size: number) {
+    this.available = Math.max(1, size);
+  }
+
+  async acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.available++;
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+export interface RateLimit {
+  requestsPerSecond: number;
+  burst: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// 호스트별 토큰 버킷 (토큰이 음수가 되도록 예약하여 동시 요청도 순서대로 대기)
+export class HostRateLimiter {
+  private readonly buckets: Map<string, TokenBucket> = new Map();
+
+  async acquire(host: string, limit: RateLimit): Promise<void> {
+    const now = Date.now();
+    const bucket = this.buckets.get(host) || { tokens: limit.burst, updatedAt: now };
+
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.requestsPerSecond);
+    bucket.updatedAt = now;
+    bucket.tokens -= 1;
+    this.buckets.set(host, bucket);
+
+    if (bucket.tokens < 0) {
+      const waitMs = Math.ceil((-bucket.tokens / limit.requestsPerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
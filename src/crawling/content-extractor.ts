@@ -0,0 +1,333 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { normalizeUrl } from './url-frontier';
+import { renderMarkdownTable } from './tables';
+import { DocumentMetadata, extractHtmlMetadata } from './document-metadata';
+
+export interface ExtractedContent {
+  title: string;
+  // 제목, 목록, 코드 블록 구조를 유지한 Markdown
+  text: string;
+  canonicalUrl: string | null;
+  links: string[];
+  // <html lang>, meta 태그, JSON-LD의 언어/작성자/게시일/수정일
+  metadata: DocumentMetadata;
+}
+
+export interface ExtractOptions {
+  // 지정 시 점수 계산 없이 이 선택자의 요소만 본문으로 사용
+  contentSelector?: string;
+}
+
+// 본문과 무관한 요소
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'form', 'button', 'select', 'input',
+  'nav', 'footer', 'aside', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[role="alertdialog"]', '[aria-hidden="true"]', '[hidden]'
+];
+
+// class/id 토큰으로 판별하는 보일러플레이트 (쿠키 배너, 사이드바, 편집 링크 등)
+const BOILERPLATE_WORD = '(' + [
+  'cookies?', 'consent', 'gdpr', 'banner', 'sidebar', 'side-?nav', 'navbar', 'menu', 'breadcrumbs?', 'toc',
+  'table-of-contents', 'edit-?(this-?)?page', 'edit-?link', 'page-?edit', 'pagination', 'pager', 'share', 'social',
+  'newsletter', 'subscribe', 'advert(isement)?s?', 'ads?', 'promo', 'related', 'feedback', 'skip-?link', 'site-?header',
+  'site-?footer', 'footer', 'copyright', 'announcement', 'popup', 'modal'
+].join('|') + ')';
+
+// 토큰 전체가 보일러플레이트 단어로만 이루어져야 일치 (cookie-banner는 제거, page-with-sidebar는 유지)
+const BOILERPLATE_TOKEN = new RegExp(`^${BOILERPLATE_WORD}([_-]${BOILERPLATE_WORD})*$`, 'i');
+
+const EDIT_LINK_PATTERN = /^(edit this page|edit on github|improve this (page|doc)|suggest (an )?edits?|이 페이지 (편집|수정)|페이지 수정)$/i;
+
+const SEMANTIC_ROOTS = ['main', '[role="main"]', 'article'];
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+export function extractContent(html: string, pageUrl: string, options: ExtractOptions = {}): ExtractedContent {
+  const $ = cheerio.load(html);
+
+  // 요소 제거 전에 링크 수집
+  const links = new Set<string>();
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href || href.startsWith('#')) {
+      return;
+    }
+    const link = normalizeUrl(href, pageUrl);
+    if (link) {
+      links.add(link);
+    }
+  });
+
+  const title = $('title').first().text().trim() || $('meta[property="og:title"]').attr('content') || '';
+  const canonicalHref = $('link[rel="canonical"]').attr('href');
+  const metadata = extractHtmlMetadata($);
+
+  let root = options.contentSelector ? $(options.contentSelector) : null;
+  removeBoilerplate($);
+
+  if (!root || root.length === 0 || root.text().trim().length === 0) {
+    root = selectMainContent($);
+  }
+
+  const text = tidyMarkdown(root.toArray().map(element => renderBlock($, element)).join('\n\n'));
+
+  return {
+    title,
+    text,
+    canonicalUrl: canonicalHref ? normalizeUrl(canonicalHref, pageUrl) : null,
+    links: Array.from(links),
+    metadata
+  };
+}
+
+function removeBoilerplate($: cheerio.CheerioAPI): void {
+  $(REMOVED_ELEMENTS.join(', ')).remove();
+
+  // 본문을 감싼 요소는 클래스명이 일치해도 제거하지 않음
+  $('[class], [id]').each((_, element) => {
+    const $element = $(element);
+    const tokens = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`.split(/\s+/);
+    if (!tokens.some(token => BOILERPLATE_TOKEN.test(token)) || element.tagName === 'body' || element.tagName === 'main') {
+      return;
+    }
+    if ($element.find(SEMANTIC_ROOTS.join(', ')).length > 0) {
+      return;
+    }
+    $element.remove();
+  });
+
+  // "Edit this page" 류 링크와 이를 감싼 작은 블록 제거
+  $('a').each((_, element) => {
+    const $link = $(element);
+    if (!EDIT_LINK_PATTERN.test($link.text().replace(/\s+/g, ' ').trim())) {
+      return;
+    }
+    const $parent = $link.parent();
+    if ($parent.length > 0 && $parent.text().trim().length < 80 && !$parent.is('body, main, article')) {
+      $parent.remove();
+    } else {
+      $link.remove();
+    }
+  });
+
+  $('header').each((_, element) => {
+    // 본문 제목을 담은 article 내부 header는 유지
+    if ($(element).closest('article, main').length === 0) {
+      $(element).remove();
+    }
+  });
+}
+
+// 텍스트 밀도로 블록 점수를 매겨 본문 영역 선택 (Readability 방식)
+function selectMainContent($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> {
+  const scores = new Map<Element, number>();
+
+  $('p, pre, li, td, blockquote, dd').each((_, element) => {
+    const text = $(element).text().replace(/\s+/g, ' ').trim();
+    if (text.length < 25) {
+      return;
+    }
+
+    const score = 1 + text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = element.parent;
+    const grandparent = parent ? parent.parent : null;
+    if (parent && parent.type === 'tag') {
+      scores.set(parent as Element, (scores.get(parent as Element) || 0) + score);
+    }
+    if (grandparent && grandparent.type === 'tag') {
+      scores.set(grandparent as Element, (scores.get(grandparent as Element) || 0) + score / 2);
+    }
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity($, element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  if (!best) {
+    const semantic = SEMANTIC_ROOTS.map(selector => $(selector).first()).find(element => element.length > 0);
+    return semantic || $('body');
+  }
+
+  // 본문 블록을 감싼 main/article이 있으면 제목까지 포함하도록 확장
+  const $best = $(best);
+  const container = $best.closest(SEMANTIC_ROOTS.join(', '));
+  const root = container.length > 0 ? container.first() : $best;
+
+  // 본문 안에 남은 링크 목록(목차, 관련 문서 등) 제거
+  root.find('div, section, ul, ol').each((_, element) => {
+    const $element = $(element);
+    if ($element.find('pre, code, table').length === 0 && $element.text().trim().length < 500 && linkDensity($, element) > 0.6) {
+      $element.remove();
+    }
+  });
+
+  return root;
+}
+
+function linkDensity($: cheerio.CheerioAPI, element: Element): number {
+  const textLength = $(element).text().replace(/\s+/g, ' ').trim().length;
+  if (textLength === 0) {
+    return 0;
+  }
+  const linkLength = $(element).find('a').text().replace(/\s+/g, ' ').trim().length;
+  return Math.min(1, linkLength / textLength);
+}
+
+// DOM을 Markdown으로 변환 (블록 구조 유지)
+function renderBlock($: cheerio.CheerioAPI, node: AnyNode, listDepth: number = 0): string {
+  if (node.type === 'text') {
+    return node.data.replace(/\s+/g, ' ');
+  }
+  if (node.type !== 'tag') {
+    return '';
+  }
+
+  const tag = node.tagName.toLowerCase();
+  const children = () => (node.children || []).map(child => renderBlock($, child, listDepth)).join('');
+  const inline = () => collapseInline(children());
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const heading = inline();
+      return heading ? `\n\n${'#'.repeat(Number(tag[1]))} ${heading}\n\n` : '';
+    }
+    case 'p':
+    case 'figcaption':
+    case 'summary':
+    case 'dt':
+      return `\n\n${inline()}\n\n`;
+    case 'dd':
+      return `\n${inline()}\n`;
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n';
+    case 'pre': {
+      const codeElement = $(node).find('code').first();
+      const className = `${$(node).attr('class') || ''} ${codeElement.attr('class') || ''}`;
+      const language = (className.match(/(?:language|lang)-([\w+#-]+)/) || [])[1] || '';
+      const code = $(node).text().replace(/\n+$/, '');
+      return `\n\n\`\`\`${language}\n${code}\n\`\`\`\n\n`;
+    }
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const code = $(node).text();
+      return code.includes('\n') ? `\n\n\`\`\`\n${code}\n\`\`\`\n\n` : `\`${code}\``;
+    }
+    case 'ul':
+    case 'ol':
+      return `\n\n${renderList($, node, tag === 'ol', listDepth)}\n\n`;
+    case 'blockquote':
+      return `\n\n${tidyMarkdown(children()).split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    case 'table':
+      return `\n\n${renderTable($, node)}\n\n`;
+    case 'img':
+      return '';
+    default:
+      return BLOCK_TAGS.has(tag) ? `\n\n${children()}\n\n` : children();
+  }
+}
+
+function renderList($: cheerio.CheerioAPI, node: Element, ordered: boolean, listDepth: number): string {
+  const indent = '  '.repeat(listDepth);
+  return $(node).children('li').toArray()
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const body = tidyMarkdown((item.children || []).map(child => renderBlock($, child, listDepth + 1)).join(''));
+      const [first, ...rest] = body.split('\n');
+      return [`${indent}${marker} ${first}`, ...rest.map(line => (line.startsWith(indent + '  ') ? line : `${indent}  ${line}`))]
+        .filter(line => line.trim().length > 0)
+        .join('\n');
+    })
+    .join('\n');
+}
+
+// 병합 셀(colspan/rowspan)은 값을 반복해 채우고 중첩 표의 행은 제외, 여러 줄 머리글은 한 줄로 합침, 캡션은 표 앞 문단으로
+function renderTable($: cheerio.CheerioAPI, node: Element): string {
+  const grid: string[][] = [];
+  const headerRows: boolean[] = [];
+  $(node).find('tr').filter((_, row) => $(row).closest('table')[0] === node).each((rowIndex, row) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    const $cells = $(row).children('th, td');
+    headerRows[rowIndex] = $(row).parent().is('thead') || ($cells.length > 0 && $cells.filter('td').length === 0);
+
+    let column = 0;
+    $cells.each((_, cell) => {
+      while (grid[rowIndex][column] !== undefined) {
+        column++;
+      }
+      // 셀 안의 중첩 표는 셀 값으로 텍스트만 유지
+      $(cell).find('table').each((_, nested) => {
+        $(nested).replaceWith(` ${$(nested).find('th, td').toArray().map(item => collapseInline($(item).text())).join(' ')} `);
+      });
+      const value = collapseInline((cell.children || []).map(child => renderBlock($, child)).join(' '));
+      const colspan = Math.min(parseInt($(cell).attr('colspan') || '1', 10) || 1, 50);
+      const rowspan = Math.min(parseInt($(cell).attr('rowspan') || '1', 10) || 1, 100);
+      for (let rowOffset = 0; rowOffset < rowspan; rowOffset++) {
+        grid[rowIndex + rowOffset] = grid[rowIndex + rowOffset] || [];
+        for (let columnOffset = 0; columnOffset < colspan; columnOffset++) {
+          grid[rowIndex + rowOffset][column + columnOffset] = value;
+        }
+      }
+      column += colspan;
+    });
+  });
+
+  const rows = grid.map(cells => Array.from(cells, cell => cell || ''));
+  const firstBodyRow = headerRows.indexOf(false);
+  const headerCount = firstBodyRow > 0 ? firstBodyRow : 1;
+  const width = Math.max(0, ...rows.map(cells => cells.length));
+  // 예: "Quota" / "API" 두 줄 머리글 → "Quota API"
+  const header = Array.from({ length: width }, (_, index) => rows.slice(0, headerCount)
+    .map(cells => cells[index] || '')
+    .filter((value, position, values) => value && values.indexOf(value) === position)
+    .join(' '));
+  const body = rows.slice(headerCount).filter(cells => cells.some(cell => cell));
+
+  const table = renderMarkdownTable([header, ...body]);
+  const caption = collapseInline($(node).children('caption').first().text());
+  return caption && table ? `${caption}\n\n${table}` : table;
+}
+
+function collapseInline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// 줄 앞뒤 공백 정리 (코드 블록 내용과 목록 들여쓰기는 유지)
+function tidyMarkdown(text: string): string {
+  let inCode = false;
+
+  return text
+    .split('\n')
+    .map(line => {
+      if (line.trim().startsWith('```')) {
+        inCode = !inCode;
+        return line.trimEnd();
+      }
+      if (inCode) {
+        return line.trimEnd();
+      }
+      const indent = /^ +([-]|\d+\.) /.test(line) ? line.match(/^ */)[0] : '';
+      return indent + line.trim().replace(/[ \t]+/g, ' ');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
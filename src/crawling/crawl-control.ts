@@ -0,0 +1,15 @@
+export type CrawlControlAction = 'cancel' | 'pause';
+
+// 작업 취소/일시정지 요청 시 페이지·임베딩 경계에서 발생
+export class CrawlInterruptedError extends Error {
+  checkpoint: any = null;
+
+  constructor(public readonly action: CrawlControlAction) {
+    super(`크롤링이 중단되었습니다 (${action})`);
+    this.name = 'CrawlInterruptedError';
+  }
+}
+
+export interface CrawlSignal {
+  throwIfInterrupted(): Promise<void>;
+}
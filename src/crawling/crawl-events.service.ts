@@ -0,0 +1,220 @@
+import { Injectable, Logger, MessageEvent, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { DatabaseService } from '../services/database.service';
+import { crawlerConfig } from '../config/crawler.config';
+
+export type CrawlEventType =
+  | 'status'
+  | 'page_fetched'
+  | 'page_skipped'
+  | 'chunks_created'
+  | 'embedding_progress'
+  | 'error'
+  | 'summary';
+
+export interface CrawlEvent {
+  type: CrawlEventType;
+  data: Record<string, any>;
+}
+
+export type CrawlEventListener = (event: CrawlEvent) => void;
+
+interface StoredCrawlEvent {
+  id: number;
+  type: CrawlEventType;
+  data: Record<string, unknown>;
+}
+
+export interface CrawlJobEmitter {
+  emit: CrawlEventListener;
+  // 대기 중인 이벤트 저장 완료까지 대기 (작업 상태 변경 전에 호출)
+  flush(): Promise<void>;
+}
+
+// 작업이 끝난 상태 (보관 기간이 지나면 이벤트 삭제)
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// 스트림을 종료하는 작업 상태 (일시정지된 작업은 재개 후 다시 연결)
+const STREAM_END_STATUSES = [...FINISHED_STATUSES, 'paused'];
+
+@Injectable()
+export class CrawlEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CrawlEventsService.name);
+  private tablesReady: Promise<void> | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  onModuleInit(): void {
+    this.pruneTimer = setInterval(() => {
+      this.pruneEvents().catch(error => this.logger.warn(`크롤링 이벤트 정리 실패: ${error.message}`));
+    }, crawlerConfig.events.pruneIntervalMs);
+  }
+
+  onModuleDestroy(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private ensureTables(): Promise<void> {
+    if (!this.tablesReady) {
+      this.tablesReady = this.createTables().catch(error => {
+        this.tablesReady = null;
+        throw error;
+      });
+    }
+    return this.tablesReady;
+  }
+
+  private async createTables(): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_job_events (
+          id BIGSERIAL PRIMARY KEY,
+          job_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          data JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS crawl_job_events_job_id_idx
+        ON crawl_job_events (job_id, id)
+      `);
+    } catch (error) {
+      this.logger.error('크롤링 이벤트 테이블 초기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async publish(jobId: string, event: CrawlEvent): Promise<void> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        INSERT INTO crawl_job_events (job_id, type, data)
+        VALUES ($1, $2, $3)
+      `, [jobId, event.type, JSON.stringify({ ...event.data, timestamp: new Date() })]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 끝난 지 보관 기간이 지난 작업과 삭제된 작업의 이벤트 삭제
+  async pruneEvents(): Promise<number> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        DELETE FROM crawl_job_events e
+        WHERE NOT EXISTS (
+          SELECT 1 FROM crawl_jobs j
+          WHERE j.id = e.job_id
+            AND NOT (j.status = ANY($1) AND COALESCE(j.finished_at, j.updated_at) < $2)
+        )
+      `, [FINISHED_STATUSES, new Date(Date.now() - crawlerConfig.events.retentionMs)]);
+      if (result.rowCount > 0) {
+        this.logger.log(`크롤링 이벤트 ${result.rowCount}개 정리`);
+      }
+      return result.rowCount;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 작업별 이벤트 발행 함수 (발행 순서를 유지하고 저장 실패는 크롤링을 중단시키지 않음)
+  // 청크마다 발생하는 임베딩 진행률은 간격을 두고 저장 (이벤트마다 DB 연결을 열지 않도록)
+  createEmitter(jobId: string): CrawlJobEmitter {
+    let pending = Promise.resolve();
+    let lastProgressAt = 0;
+
+    return {
+      emit: event => {
+        if (event.type === 'embedding_progress') {
+          const last = event.data.embedded >= event.data.total;
+          if (!last && Date.now() - lastProgressAt < crawlerConfig.events.progressIntervalMs) {
+            return;
+          }
+          lastProgressAt = Date.now();
+        }
+        pending = pending
+          .then(() => this.publish(jobId, event))
+          .catch(error => this.logger.warn(`크롤링 이벤트 저장 실패: ${jobId} (${error.message})`));
+      },
+      flush: () => pending
+    };
+  }
+
+  // 저장된 이벤트를 재생한 뒤 새 이벤트를 폴링하여 전달, 작업이 끝나거나 일시정지되면(없는 작업이면 바로) 스트림 종료
+  stream(jobId: string, lastEventId?: string): Observable<MessageEvent> {
+    return new Observable<MessageEvent>(subscriber => {
+      let cursor = parseInt(lastEventId || '0', 10) || 0;
+      let timer: NodeJS.Timeout | null = null;
+      let closed = false;
+
+      const poll = async () => {
+        try {
+          const { events, status } = await this.fetchEvents(jobId, cursor);
+          events.forEach(event => {
+            cursor = event.id;
+            subscriber.next({ id: String(event.id), type: event.type, data: event.data });
+          });
+
+          if (status === null || (events.length === 0 && STREAM_END_STATUSES.includes(status))) {
+            subscriber.complete();
+            return;
+          }
+        } catch (error) {
+          this.logger.warn(`크롤링 이벤트 조회 실패: ${jobId} (${error.message})`);
+        }
+
+        if (!closed) {
+          timer = setTimeout(poll, crawlerConfig.events.pollIntervalMs);
+        }
+      };
+
+      poll();
+
+      return () => {
+        closed = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+      };
+    });
+  }
+
+  private async fetchEvents(
+    jobId: string,
+    afterId: number
+  ): Promise<{ events: StoredCrawlEvent[]; status: string | null }> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      // 상태를 먼저 읽어야 종료 직전에 저장된 이벤트를 놓치지 않음
+      const job = await client.query('SELECT status FROM crawl_jobs WHERE id = $1', [jobId]);
+      const result = await client.query(`
+        SELECT id, type, data FROM crawl_job_events
+        WHERE job_id = $1 AND id > $2
+        ORDER BY id
+        LIMIT $3
+      `, [jobId, afterId, crawlerConfig.events.batchSize]);
+
+      return {
+        events: result.rows.map(row => ({ id: Number(row.id), type: row.type, data: row.data })),
+        status: job.rows[0] ? job.rows[0].status : null
+      };
+    } finally {
+      await client.end();
+    }
+  }
+}
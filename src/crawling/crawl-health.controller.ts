@@ -0,0 +1,40 @@
+import { Controller, Get, Query, ParseIntPipe, NotFoundException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { CrawlHealthService, CrawlHealthReport } from './crawl-health.service';
+import { CrawlSourceService } from './crawl-source.service';
+
+@ApiTags('crawling')
+@Controller('crawling/health')
+export class CrawlHealthController {
+  constructor(
+    private readonly crawlHealthService: CrawlHealthService,
+    private readonly crawlSourceService: CrawlSourceService
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get the crawl health report',
+    description: 'Summarizes the outcome recorded for every URL visited by website crawls: broken links with the page linking to them, pages that were indexed before but no longer are (HTTP errors, timeouts, too little text), and pages reached through redirects.'
+  })
+  @ApiQuery({ name: 'sourceId', required: false, description: 'Limit the report to URLs crawled from this crawl source' })
+  @ApiQuery({ name: 'site', required: false, description: 'Limit the report to URLs starting with this prefix', example: 'https://docs.example.com/' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Maximum entries per list (default: 100, max: 1000)' })
+  @ApiResponse({ status: 200, description: 'Crawl health report', type: CrawlHealthReport })
+  @ApiResponse({ status: 404, description: 'Crawl source not found' })
+  async getReport(
+    @Query('sourceId', new ParseIntPipe({ optional: true })) sourceId?: number,
+    @Query('site') site?: string,
+    @Query('limit') limit?: string
+  ): Promise<CrawlHealthReport> {
+    const limitNum = Math.min(1000, Math.max(1, parseInt(limit || '100', 10) || 100));
+    const source = sourceId !== undefined ? await this.crawlSourceService.find(sourceId) : null;
+    if (sourceId !== undefined && !source) {
+      throw new NotFoundException(`Crawl source with ID ${sourceId} not found`);
+    }
+    return this.crawlHealthService.getReport({
+      siteUrl: source ? source.url : undefined,
+      urlPrefix: site || undefined,
+      limit: limitNum
+    });
+  }
+}
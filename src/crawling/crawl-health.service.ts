@@ -0,0 +1,314 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { DatabaseService } from '../services/database.service';
+import { FetchFailureKind, RedirectHop } from './page-fetcher';
+
+// 크롤링 중 URL 하나의 결과: indexed/not_modified만 색인 가능
+export type UrlOutcomeKind =
+  | 'indexed'
+  | 'not_modified'
+  | 'http_error'
+  | 'content_too_short'
+  | 'robots_disallowed'
+  | FetchFailureKind;
+
+// 끊긴 링크로 보는 결과
+const BROKEN_OUTCOMES: UrlOutcomeKind[] = ['http_error', 'timeout', 'too_many_redirects', 'network'];
+
+export interface UrlOutcome {
+  url: string;
+  // 이 URL을 발견한 페이지 (시작 URL은 null)
+  parentUrl: string | null;
+  outcome: UrlOutcomeKind;
+  statusCode: number | null;
+  finalUrl: string | null;
+  redirectChain: RedirectHop[];
+  textLength: number | null;
+  detail: string | null;
+  // 이번 실행 전에 색인되어 있던 페이지 (페이지 상태 기록이 있음)
+  previouslyIndexed: boolean;
+}
+
+export class RedirectHopInfo {
+  @ApiProperty({ description: 'URL that answered with a redirect', example: 'http://docs.example.com/guide' })
+  url: string;
+
+  @ApiProperty({ description: 'Redirect status code', example: 301 })
+  statusCode: number;
+}
+
+export class UrlHealthEntry {
+  @ApiProperty({ description: 'Requested URL', example: 'https://docs.example.com/guide/old-page' })
+  url: string;
+
+  @ApiProperty({ description: 'Page the URL was linked from (null for start URLs)', example: 'https://docs.example.com/guide', nullable: true })
+  linkedFrom: string | null;
+
+  @ApiProperty({
+    description: 'Outcome of the last crawl',
+    enum: ['indexed', 'not_modified', 'http_error', 'content_too_short', 'robots_disallowed', 'timeout', 'too_many_redirects', 'network', 'not_html'],
+    example: 'http_error'
+  })
+  outcome: UrlOutcomeKind;
+
+  @ApiProperty({ description: 'HTTP status code of the final response', example: 404, nullable: true })
+  statusCode: number | null;
+
+  @ApiProperty({ description: 'URL after following redirects', example: 'https://docs.example.com/guide/new-page', nullable: true })
+  finalUrl: string | null;
+
+  @ApiProperty({ description: 'Redirect responses on the way to the final URL', type: [RedirectHopInfo] })
+  redirectChain: RedirectHopInfo[];
+
+  @ApiProperty({ description: 'Length of the extracted text in characters', example: 42, nullable: true })
+  textLength: number | null;
+
+  @ApiProperty({ description: 'Error message or matched rule', example: 'timeout of 15000ms exceeded', nullable: true })
+  detail: string | null;
+
+  @ApiProperty({ description: 'Last time the URL was fetched and indexable', example: '2024-05-01T03:00:00.000Z', nullable: true })
+  lastIndexableAt: Date | null;
+
+  @ApiProperty({ description: 'Last time the URL was checked', example: '2024-06-01T03:00:00.000Z' })
+  checkedAt: Date;
+}
+
+export class CrawlHealthSummary {
+  @ApiProperty({ description: 'URLs with a recorded outcome', example: 240 })
+  checkedUrls: number;
+
+  @ApiProperty({ description: 'URLs that were indexed or unchanged', example: 221 })
+  indexable: number;
+
+  @ApiProperty({ description: 'URLs that failed with an HTTP error, timeout, redirect loop or network error', example: 9 })
+  broken: number;
+
+  @ApiProperty({ description: 'Pages skipped because the extracted text was too short', example: 6 })
+  contentTooShort: number;
+
+  @ApiProperty({ description: 'URLs blocked by robots.txt', example: 2 })
+  blockedByRobots: number;
+
+  @ApiProperty({ description: 'URLs reached only through redirects', example: 14 })
+  redirected: number;
+
+  @ApiProperty({ description: 'URLs that were indexable before but are not anymore', example: 4 })
+  noLongerIndexable: number;
+}
+
+export class CrawlHealthReport {
+  @ApiProperty({ description: 'Crawl start URL or URL prefix the report covers (all sites when null)', example: 'https://docs.example.com', nullable: true })
+  site: string | null;
+
+  @ApiProperty({ type: CrawlHealthSummary })
+  summary: CrawlHealthSummary;
+
+  @ApiProperty({ description: 'Linked URLs that could not be fetched, with the page that links to them', type: [UrlHealthEntry] })
+  brokenLinks: UrlHealthEntry[];
+
+  @ApiProperty({ description: 'Pages that used to be indexed but were not indexable in the latest crawl', type: [UrlHealthEntry] })
+  noLongerIndexable: UrlHealthEntry[];
+
+  @ApiProperty({ description: 'Indexable pages reached through redirects (links worth updating)', type: [UrlHealthEntry] })
+  redirected: UrlHealthEntry[];
+
+  @ApiProperty({ description: 'Report generation time', example: '2024-06-01T03:10:00.000Z' })
+  generatedAt: Date;
+}
+
+export interface CrawlHealthFilter {
+  // 크롤링 시작 URL (크롤링 소스 URL)
+  siteUrl?: string;
+  // URL 접두사
+  urlPrefix?: string;
+  // 목록별 최대 항목 수
+  limit: number;
+}
+
+@Injectable()
+export class CrawlHealthService {
+  private readonly logger = new Logger(CrawlHealthService.name);
+  private tableReady: Promise<void> | null = null;
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  private ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.createTable().catch(error => {
+        this.tableReady = null;
+        throw error;
+      });
+    }
+    return this.tableReady;
+  }
+
+  private async createTable(): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_url_health (
+          url TEXT PRIMARY KEY,
+          site_url TEXT NOT NULL,
+          parent_url TEXT,
+          outcome TEXT NOT NULL,
+          status_code INTEGER,
+          final_url TEXT,
+          redirect_chain JSONB NOT NULL DEFAULT '[]',
+          text_length INTEGER,
+          detail TEXT,
+          indexable BOOLEAN NOT NULL,
+          last_indexable_at TIMESTAMP,
+          checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS crawl_url_health_site_idx ON crawl_url_health (site_url)');
+    } catch (error) {
+      this.logger.error('크롤링 상태 테이블 초기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // URL별 최신 결과로 덮어씀, 색인 가능했던 마지막 시각은 유지
+  async recordOutcomes(siteUrl: string, outcomes: UrlOutcome[]): Promise<void> {
+    if (outcomes.length === 0) {
+      return;
+    }
+    await this.ensureTable();
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query('BEGIN');
+      for (const outcome of outcomes) {
+        const indexable = this.isIndexable(outcome.outcome);
+        await client.query(`
+          INSERT INTO crawl_url_health (
+            url, site_url, parent_url, outcome, status_code, final_url, redirect_chain, text_length, detail, indexable, last_indexable_at
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+            CASE WHEN $10 OR $11 THEN CURRENT_TIMESTAMP ELSE NULL END)
+          ON CONFLICT (url) DO UPDATE SET
+            site_url = EXCLUDED.site_url,
+            parent_url = COALESCE(EXCLUDED.parent_url, crawl_url_health.parent_url),
+            outcome = EXCLUDED.outcome,
+            status_code = EXCLUDED.status_code,
+            final_url = EXCLUDED.final_url,
+            redirect_chain = EXCLUDED.redirect_chain,
+            text_length = EXCLUDED.text_length,
+            detail = EXCLUDED.detail,
+            indexable = EXCLUDED.indexable,
+            last_indexable_at = CASE
+              WHEN EXCLUDED.indexable THEN CURRENT_TIMESTAMP
+              ELSE COALESCE(crawl_url_health.last_indexable_at, EXCLUDED.last_indexable_at)
+            END,
+            checked_at = CURRENT_TIMESTAMP
+        `, [
+          outcome.url,
+          siteUrl,
+          outcome.parentUrl,
+          outcome.outcome,
+          outcome.statusCode,
+          outcome.finalUrl,
+          JSON.stringify(outcome.redirectChain),
+          outcome.textLength,
+          outcome.detail,
+          indexable,
+          outcome.previouslyIndexed
+        ]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error('크롤링 URL 결과 저장 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getReport(filter: CrawlHealthFilter): Promise<CrawlHealthReport> {
+    await this.ensureTable();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const params: any[] = [];
+      const conditions: string[] = [];
+      if (filter.siteUrl) {
+        params.push(filter.siteUrl);
+        conditions.push(`site_url = $${params.length}`);
+      }
+      if (filter.urlPrefix) {
+        params.push(`${filter.urlPrefix.replace(/[\\%_]/g, '\\$&')}%`);
+        conditions.push(`url LIKE $${params.length}`);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const summary = await client.query(`
+        SELECT
+          COUNT(*) AS checked,
+          COUNT(*) FILTER (WHERE indexable) AS indexable,
+          COUNT(*) FILTER (WHERE outcome = ANY($${params.length + 1})) AS broken,
+          COUNT(*) FILTER (WHERE outcome = 'content_too_short') AS too_short,
+          COUNT(*) FILTER (WHERE outcome = 'robots_disallowed') AS robots,
+          COUNT(*) FILTER (WHERE jsonb_array_length(redirect_chain) > 0) AS redirected,
+          COUNT(*) FILTER (WHERE NOT indexable AND last_indexable_at IS NOT NULL) AS no_longer_indexable
+        FROM crawl_url_health
+        ${where}
+      `, [...params, BROKEN_OUTCOMES]);
+
+      const list = async (condition: string, extra: any[] = []) => {
+        const result = await client.query(`
+          SELECT * FROM crawl_url_health
+          ${where ? `${where} AND` : 'WHERE'} ${condition}
+          ORDER BY checked_at DESC, url
+          LIMIT $${params.length + extra.length + 1}
+        `, [...params, ...extra, filter.limit]);
+        return result.rows.map(row => this.toEntry(row));
+      };
+
+      const row = summary.rows[0];
+      return {
+        site: filter.siteUrl || filter.urlPrefix || null,
+        summary: {
+          checkedUrls: parseInt(row.checked, 10),
+          indexable: parseInt(row.indexable, 10),
+          broken: parseInt(row.broken, 10),
+          contentTooShort: parseInt(row.too_short, 10),
+          blockedByRobots: parseInt(row.robots, 10),
+          redirected: parseInt(row.redirected, 10),
+          noLongerIndexable: parseInt(row.no_longer_indexable, 10)
+        },
+        brokenLinks: await list(`outcome = ANY($${params.length + 1}) AND parent_url IS NOT NULL`, [BROKEN_OUTCOMES]),
+        noLongerIndexable: await list('NOT indexable AND last_indexable_at IS NOT NULL'),
+        redirected: await list('indexable AND jsonb_array_length(redirect_chain) > 0'),
+        generatedAt: new Date()
+      };
+    } catch (error) {
+      this.logger.error('크롤링 상태 보고서 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  isIndexable(outcome: UrlOutcomeKind): boolean {
+    return outcome === 'indexed' || outcome === 'not_modified';
+  }
+
+  private toEntry(row: any): UrlHealthEntry {
+    return {
+      url: row.url,
+      linkedFrom: row.parent_url,
+      outcome: row.outcome,
+      statusCode: row.status_code,
+      finalUrl: row.final_url,
+      redirectChain: row.redirect_chain || [],
+      textLength: row.text_length,
+      detail: row.detail,
+      lastIndexableAt: row.last_indexable_at,
+      checkedAt: row.checked_at
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { CrawlJobService } from './crawl-job.service';
+import { crawlerConfig } from '../config/crawler.config';
+
+function jobRow(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: 'job_1',
+    type: 'process',
+    status: 'running',
+    payload: { url: 'https://example.com' },
+    progress: { total: 1, completed: 0 },
+    results: [],
+    skipped_urls: [],
+    error: null,
+    attempts: 1,
+    source_run_id: null,
+    control_action: null,
+    rollback: false,
+    checkpoint: null,
+    written: { threadIds: [], urls: [] },
+    created_at: new Date('2024-01-01T00:00:00Z'),
+    started_at: null,
+    finished_at: null,
+    ...overrides
+  };
+}
+
+describe('CrawlJobService', () => {
+  // SQL 패턴별 응답 행 (테이블 생성 등 나머지 쿼리는 빈 결과)
+  let responses: { pattern: RegExp; rows: any[] }[];
+  let queries: { sql: string; params: any[] }[];
+  let databaseService: any;
+  let crawlSourceService: any;
+  let service: CrawlJobService;
+
+  const respond = (pattern: RegExp, rows: any[]) => responses.push({ pattern, rows });
+  const queried = (pattern: RegExp) => queries.filter(query => pattern.test(query.sql));
+
+  beforeEach(() => {
+    responses = [];
+    queries = [];
+    const client = {
+      query: jest.fn(async (sql: string, params: any[] = []) => {
+        queries.push({ sql, params });
+        const response = responses.find(entry => entry.pattern.test(sql));
+        return { rows: response ? response.rows : [], rowCount: response ? response.rows.length : 0 };
+      }),
+      end: jest.fn(async () => undefined)
+    };
+    databaseService = {
+      getClient: jest.fn(async () => client),
+      deleteByIds: jest.fn(async () => 0),
+      deleteByUrls: jest.fn(async () => 0),
+      deletePageState: jest.fn(async () => undefined)
+    };
+    crawlSourceService = { finishRun: jest.fn(async () => undefined) };
+    service = new CrawlJobService(databaseService, crawlSourceService);
+  });
+
+  describe('claimNext', () => {
+    it('claims the oldest queued job without waiting for locked rows', async () => {
+      respond(/SET status = 'running'/, [jobRow({ attempts: 2, written: { threadIds: [7], urls: ['https://example.com'] } })]);
+
+      const job = await service.claimNext('worker-1');
+
+      const [claim] = queried(/SET status = 'running'/);
+      expect(claim.sql).toMatch(/WHERE status = 'queued'\s+ORDER BY created_at\s+FOR UPDATE SKIP LOCKED/);
+      expect(claim.params).toEqual(['worker-1']);
+      expect(job).toEqual(expect.objectContaining({ id: 'job_1', status: 'running', attempts: 2 }));
+      expect(job.written).toEqual({ threadIds: [7], urls: ['https://example.com'], replacedUrls: [], createdUrls: [] });
+    });
+
+    it('returns null when no job is queued', async () => {
+      expect(await service.claimNext('worker-1')).toBeNull();
+    });
+  });
+
+  describe('recoverStaleJobs', () => {
+    it('fails jobs over the attempt limit, closes their source runs and requeues the rest', async () => {
+      respond(/SET status = 'failed'/, [
+        jobRow({ id: 'job_failed', status: 'failed', error: '재시도 한도 초과로 중단됨', source_run_id: 12 }),
+        jobRow({ id: 'job_manual', status: 'failed', error: '재시도 한도 초과로 중단됨' })
+      ]);
+      respond(/SET status = 'queued'/, [jobRow({ id: 'job_requeued', status: 'queued' })]);
+
+      const before = Date.now();
+      const recovered = await service.recoverStaleJobs();
+      const after = Date.now();
+
+      const [fail] = queried(/SET status = 'failed'/);
+      const staleBefore: Date = fail.params[0];
+      expect(staleBefore.getTime()).toBeGreaterThanOrEqual(before - crawlerConfig.jobs.staleAfterMs);
+      expect(staleBefore.getTime()).toBeLessThanOrEqual(after - crawlerConfig.jobs.staleAfterMs);
+      expect(fail.params[1]).toBe(crawlerConfig.jobs.maxAttempts);
+      expect(queried(/SET status = 'queued'/)[0].params).toEqual([staleBefore]);
+
+      expect(crawlSourceService.finishRun).toHaveBeenCalledTimes(1);
+      expect(crawlSourceService.finishRun).toHaveBeenCalledWith(12, 'failed', null, '재시도 한도 초과로 중단됨');
+      expect(recovered.map(job => job.id)).toEqual(['job_requeued']);
+    });
+  });
+
+  describe('requestCancel', () => {
+    it('cancels a queued job at once, rolls back its writes and closes its source run', async () => {
+      const written = { threadIds: [1, 2], urls: ['https://example.com/a'], replacedUrls: [], createdUrls: ['https://example.com/a'] };
+      respond(/SELECT \* FROM crawl_jobs[\s\S]*FOR UPDATE/, [jobRow({ status: 'queued', written, source_run_id: 3 })]);
+      respond(/SET status = 'cancelled'/, [jobRow({ status: 'cancelled', written, source_run_id: 3, error: '취소됨 (저장된 청크 롤백)' })]);
+
+      const job = await service.requestCancel('job_1', true);
+
+      expect(job.status).toBe('cancelled');
+      expect(queried(/SET status = 'cancelled'/)[0].params).toEqual(['job_1', '취소됨 (저장된 청크 롤백)']);
+      expect(databaseService.deleteByIds).toHaveBeenCalledWith([1, 2]);
+      expect(databaseService.deleteByUrls).toHaveBeenCalledWith(['https://example.com/a']);
+      expect(databaseService.deletePageState).toHaveBeenCalledWith('https://example.com/a');
+      expect(crawlSourceService.finishRun).toHaveBeenCalledWith(3, 'cancelled', null, '취소됨 (저장된 청크 롤백)');
+    });
+
+    it('does not roll back a paused job that replaced stored chunks', async () => {
+      const written = { threadIds: [1], urls: ['https://example.com/a'], replacedUrls: ['https://example.com/a'], createdUrls: [] };
+      respond(/SELECT \* FROM crawl_jobs[\s\S]*FOR UPDATE/, [jobRow({ status: 'paused', written })]);
+      respond(/SET status = 'cancelled'/, [jobRow({ status: 'cancelled', written, error: '취소됨' })]);
+
+      await service.requestCancel('job_1', true);
+
+      expect(queried(/SET status = 'cancelled'/)[0].params).toEqual(['job_1', '취소됨']);
+      expect(databaseService.deleteByIds).not.toHaveBeenCalled();
+      expect(crawlSourceService.finishRun).not.toHaveBeenCalled();
+    });
+
+    it('asks the worker to stop a running job', async () => {
+      respond(/SET control_action = \$2/, [jobRow({ control_action: 'cancel', rollback: true })]);
+
+      const job = await service.requestCancel('job_1', true);
+
+      expect(queried(/SET status = 'cancelled'/)).toEqual([]);
+      expect(queried(/SET control_action = \$2/)[0].params).toEqual(['job_1', 'cancel', true]);
+      expect(job.controlAction).toBe('cancel');
+      expect(databaseService.deleteByIds).not.toHaveBeenCalled();
+    });
+
+    it('returns null when the job already finished', async () => {
+      expect(await service.requestCancel('job_1')).toBeNull();
+    });
+  });
+});
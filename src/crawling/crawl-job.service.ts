@@ -0,0 +1,558 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../services/database.service';
+import { crawlerConfig } from '../config/crawler.config';
+import { CrawlControlAction } from './crawl-control';
+import { CrawlSourceService } from './crawl-source.service';
+import { IngestLog } from './ingestion.service';
+
+export type CrawlJobType = 'batch' | 'process';
+export type CrawlJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface CrawlJobProgress {
+  total: number;
+  completed: number;
+}
+
+export interface CrawlJobControl {
+  action: CrawlControlAction | null;
+  rollback: boolean;
+}
+
+export interface CrawlJob {
+  id: string;
+  type: CrawlJobType;
+  status: CrawlJobStatus;
+  payload: any;
+  progress: CrawlJobProgress;
+  results: any[];
+  skippedUrls: any[];
+  error: string | null;
+  attempts: number;
+  sourceRunId: number | null;
+  controlAction: CrawlControlAction | null;
+  rollback: boolean;
+  checkpoint: any;
+  written: IngestLog;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+@Injectable()
+export class CrawlJobService {
+  private readonly logger = new Logger(CrawlJobService.name);
+  private tablesReady: Promise<void> | null = null;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly crawlSourceService: CrawlSourceService
+  ) {}
+
+  private ensureTables(): Promise<void> {
+    if (!this.tablesReady) {
+      this.tablesReady = this.createTables().catch(error => {
+        this.tablesReady = null;
+        throw error;
+      });
+    }
+    return this.tablesReady;
+  }
+
+  private async createTables(): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_jobs (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          status TEXT NOT NULL,
+          payload JSONB NOT NULL,
+          progress JSONB NOT NULL DEFAULT '{"total": 0, "completed": 0}',
+          results JSONB NOT NULL DEFAULT '[]',
+          skipped_urls JSONB NOT NULL DEFAULT '[]',
+          error TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          source_run_id INTEGER,
+          locked_by TEXT,
+          heartbeat_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP,
+          finished_at TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query(`
+        ALTER TABLE crawl_jobs
+        ADD COLUMN IF NOT EXISTS control_action TEXT,
+        ADD COLUMN IF NOT EXISTS rollback BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS checkpoint JSONB,
+        ADD COLUMN IF NOT EXISTS written JSONB NOT NULL DEFAULT '{"threadIds": [], "urls": []}'
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS crawl_jobs_status_idx
+        ON crawl_jobs (status, created_at)
+      `);
+    } catch (error) {
+      this.logger.error('크롤링 작업 테이블 초기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async enqueue(type: CrawlJobType, payload: any, total: number, sourceRunId: number | null = null): Promise<CrawlJob> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        INSERT INTO crawl_jobs (id, type, status, payload, progress, source_run_id)
+        VALUES ($1, $2, 'queued', $3, $4, $5)
+        RETURNING *
+      `, [
+        this.generateJobId(),
+        type,
+        JSON.stringify(payload),
+        JSON.stringify({ total, completed: 0 }),
+        sourceRunId
+      ]);
+
+      const job = this.mapJob(result.rows[0]);
+      this.logger.log(`크롤링 작업 등록: ${job.id} (${type})`);
+      return job;
+    } catch (error) {
+      this.logger.error('크롤링 작업 등록 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async find(jobId: string): Promise<CrawlJob | null> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM crawl_jobs WHERE id = $1', [jobId]);
+      return result.rows[0] ? this.mapJob(result.rows[0]) : null;
+    } finally {
+      await client.end();
+    }
+  }
+
+  getStatus(job: CrawlJob): any {
+    const { total, completed } = job.progress;
+
+    return {
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      progress: {
+        total,
+        completed,
+        percentage: job.status === 'completed' ? 100 : (total > 0 ? Math.round((completed / total) * 100) : 0)
+      },
+      skippedUrls: job.skippedUrls,
+      controlAction: job.controlAction,
+      error: job.error,
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    };
+  }
+
+  // 대기 중인 작업 하나를 잠금 경합 없이 가져옴
+  async claimNext(workerId: string): Promise<CrawlJob | null> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'running',
+            locked_by = $1,
+            heartbeat_at = CURRENT_TIMESTAMP,
+            started_at = COALESCE(started_at, CURRENT_TIMESTAMP),
+            attempts = attempts + 1,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = (
+          SELECT id FROM crawl_jobs
+          WHERE status = 'queued'
+          ORDER BY created_at
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING *
+      `, [workerId]);
+
+      return result.rows[0] ? this.mapJob(result.rows[0]) : null;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async heartbeat(jobId: string, workerId: string): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET heartbeat_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND locked_by = $2
+      `, [jobId, workerId]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async updateProgress(jobId: string, progress: CrawlJobProgress, result?: any, skippedUrls: any[] = []): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET progress = $2,
+            results = CASE WHEN $3::jsonb IS NULL THEN results ELSE results || $3::jsonb END,
+            skipped_urls = skipped_urls || $4::jsonb,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [
+        jobId,
+        JSON.stringify(progress),
+        result !== undefined ? JSON.stringify([result]) : null,
+        JSON.stringify(skippedUrls)
+      ]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async complete(jobId: string, results?: any[]): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'completed',
+            results = COALESCE($2::jsonb, results),
+            locked_by = NULL,
+            finished_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [jobId, results ? JSON.stringify(results) : null]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async fail(jobId: string, error: string): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'failed',
+            error = $2,
+            locked_by = NULL,
+            finished_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [jobId, error]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 대기/일시정지 상태는 즉시 취소, 실행 중이면 워커가 다음 확인 시점에 중단하도록 표시
+  // 상태 확인과 변경을 한 트랜잭션으로 처리해 워커가 작업을 가져가는 것과 경합하지 않음 (취소할 수 없는 상태면 null)
+  async requestCancel(jobId: string, rollback: boolean = false): Promise<CrawlJob | null> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+    let cancelled: CrawlJob | null = null;
+    let rolledBack = false;
+
+    try {
+      await client.query('BEGIN');
+      const current = await client.query(`
+        SELECT * FROM crawl_jobs
+        WHERE id = $1 AND status IN ('queued', 'paused')
+        FOR UPDATE
+      `, [jobId]);
+
+      if (current.rows[0]) {
+        // 일시정지 전에 이전 청크를 교체한 문서가 있으면 롤백하지 않음 (워커의 취소 처리와 동일)
+        rolledBack = rollback && this.canRollback(this.mapJob(current.rows[0]).written);
+        const result = await client.query(`
+          UPDATE crawl_jobs
+          SET status = 'cancelled',
+              error = $2,
+              control_action = NULL,
+              locked_by = NULL,
+              finished_at = CURRENT_TIMESTAMP,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING *
+        `, [jobId, this.cancelMessage(rolledBack)]);
+        cancelled = this.mapJob(result.rows[0]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+
+    if (!cancelled) {
+      return this.setControlAction(jobId, 'cancel', rollback);
+    }
+    this.logger.log(`크롤링 작업 취소: ${jobId}${rolledBack ? ' (롤백)' : ''}`);
+    if (rollback && !rolledBack) {
+      this.logger.warn(`이전 청크를 교체한 문서가 있어 롤백하지 않음: ${jobId} (${cancelled.written.replacedUrls.length}개 문서)`);
+    }
+    if (rolledBack) {
+      await this.rollbackWrites(cancelled);
+    }
+    if (cancelled.sourceRunId) {
+      await this.crawlSourceService.finishRun(cancelled.sourceRunId, 'cancelled', null, cancelled.error || undefined);
+    }
+    return cancelled;
+  }
+
+  // 대기 중이면 즉시 일시정지, 실행 중이면 워커가 현재 페이지 후 멈추도록 표시 (일시정지할 수 없는 상태면 null)
+  async requestPause(jobId: string): Promise<CrawlJob | null> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'paused',
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'queued'
+        RETURNING *
+      `, [jobId]);
+      if (result.rows[0]) {
+        this.logger.log(`크롤링 작업 일시정지: ${jobId}`);
+        return this.mapJob(result.rows[0]);
+      }
+    } finally {
+      await client.end();
+    }
+
+    return this.setControlAction(jobId, 'pause', false);
+  }
+
+  // 일시정지된 작업만 대기열로 되돌림 (그 외 상태면 null)
+  async resume(jobId: string): Promise<CrawlJob | null> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'queued',
+            control_action = NULL,
+            attempts = 0,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'paused'
+        RETURNING *
+      `, [jobId]);
+      if (!result.rows[0]) {
+        return null;
+      }
+      this.logger.log(`크롤링 작업 재개 요청: ${jobId}`);
+      return this.mapJob(result.rows[0]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getControl(jobId: string): Promise<CrawlJobControl> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query('SELECT control_action, rollback FROM crawl_jobs WHERE id = $1', [jobId]);
+      const row = result.rows[0];
+      return {
+        action: row ? row.control_action : null,
+        rollback: row ? row.rollback : false
+      };
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 페이지 단위 체크포인트 저장 (일시정지/재시작 후 남은 frontier부터 이어서 실행)
+  async saveCheckpoint(jobId: string, checkpoint: any, written: IngestLog, progress: CrawlJobProgress): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET checkpoint = $2,
+            written = $3,
+            progress = $4,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [jobId, JSON.stringify(checkpoint), JSON.stringify(written), JSON.stringify(progress)]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async markPaused(jobId: string, checkpoint: any): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'paused',
+            checkpoint = COALESCE($2::jsonb, checkpoint),
+            control_action = NULL,
+            locked_by = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [jobId, checkpoint ? JSON.stringify(checkpoint) : null]);
+      this.logger.log(`크롤링 작업 일시정지: ${jobId}`);
+    } finally {
+      await client.end();
+    }
+  }
+
+  async markCancelled(jobId: string, rolledBack: boolean): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'cancelled',
+            error = $2,
+            control_action = NULL,
+            locked_by = NULL,
+            finished_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [jobId, this.cancelMessage(rolledBack)]);
+      this.logger.log(`크롤링 작업 취소: ${jobId}${rolledBack ? ' (롤백)' : ''}`);
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 롤백은 이번 작업에서 새로 저장한 청크만 되돌림: 재수집으로 이전 청크를 지운 문서가 있으면 복구할 수 없음
+  canRollback(written: IngestLog): boolean {
+    return written.replacedUrls.length === 0;
+  }
+
+  // 이번 작업에서 새로 저장한 청크와 페이지 상태, 처음 저장한 문서의 메타데이터를 삭제
+  async rollbackWrites(job: CrawlJob, written: IngestLog = job.written): Promise<void> {
+    const urls = Array.from(new Set(written.urls));
+    await this.databaseService.deleteByIds(written.threadIds);
+    await this.databaseService.deleteByUrls(Array.from(new Set(written.createdUrls)));
+    for (const url of urls) {
+      await this.databaseService.deletePageState(url);
+    }
+    this.logger.log(`작업 롤백: ${job.id} (청크 ${written.threadIds.length}개, 문서 ${urls.length}개)`);
+  }
+
+  // 하트비트가 끊긴 작업(프로세스 재시작 등)을 다시 대기열로, 재시도 한도를 넘으면 실패 처리
+  async recoverStaleJobs(): Promise<CrawlJob[]> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+    const staleBefore = new Date(Date.now() - crawlerConfig.jobs.staleAfterMs);
+
+    let failed: CrawlJob[] = [];
+    let requeued: CrawlJob[] = [];
+
+    try {
+      const failedResult = await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'failed',
+            error = '재시도 한도 초과로 중단됨',
+            locked_by = NULL,
+            finished_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+          AND heartbeat_at < $1
+          AND attempts >= $2
+        RETURNING *
+      `, [staleBefore, crawlerConfig.jobs.maxAttempts]);
+      failed = failedResult.rows.map(row => this.mapJob(row));
+
+      const result = await client.query(`
+        UPDATE crawl_jobs
+        SET status = 'queued',
+            locked_by = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+          AND heartbeat_at < $1
+        RETURNING *
+      `, [staleBefore]);
+      requeued = result.rows.map(row => this.mapJob(row));
+    } finally {
+      await client.end();
+    }
+
+    // 실패 처리한 작업의 소스 실행 기록도 종료해야 스케줄러가 다음 실행을 막지 않음
+    for (const job of failed) {
+      this.logger.warn(`재시도 한도 초과로 작업 실패 처리: ${job.id}`);
+      if (job.sourceRunId) {
+        await this.crawlSourceService.finishRun(job.sourceRunId, 'failed', null, job.error || undefined);
+      }
+    }
+    return requeued;
+  }
+
+  private async setControlAction(jobId: string, action: CrawlControlAction, rollback: boolean): Promise<CrawlJob | null> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        UPDATE crawl_jobs
+        SET control_action = $2,
+            rollback = $3,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'running'
+        RETURNING *
+      `, [jobId, action, rollback]);
+      if (!result.rows[0]) {
+        return null;
+      }
+      this.logger.log(`크롤링 작업 ${action} 요청: ${jobId}`);
+      return this.mapJob(result.rows[0]);
+    } finally {
+      await client.end();
+    }
+  }
+
+  private cancelMessage(rolledBack: boolean): string {
+    return rolledBack ? '취소됨 (저장된 청크 롤백)' : '취소됨';
+  }
+
+  private generateJobId(): string {
+    return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private mapJob(row: any): CrawlJob {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      payload: row.payload,
+      progress: row.progress,
+      results: row.results || [],
+      skippedUrls: row.skipped_urls || [],
+      error: row.error,
+      attempts: row.attempts,
+      sourceRunId: row.source_run_id,
+      controlAction: row.control_action || null,
+      rollback: row.rollback || false,
+      checkpoint: row.checkpoint || null,
+      written: { threadIds: [], urls: [], replacedUrls: [], createdUrls: [], ...row.written },
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { CrawlSourceService, CrawlSource } from './crawl-source.service';
+import { CrawlJobService } from './crawl-job.service';
+import { crawlerConfig } from '../config/crawler.config';
+
+@Injectable()
+export class CrawlSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CrawlSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private readonly crawlSourceService: CrawlSourceService,
+    private readonly crawlJobService: CrawlJobService
+  ) {}
+
+  onModuleInit(): void {
+    if (!crawlerConfig.scheduler.enabled) {
+      this.logger.log('크롤링 스케줄러 비활성화됨');
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), crawlerConfig.scheduler.pollIntervalMs);
+    this.logger.log(`크롤링 스케줄러 시작 (${crawlerConfig.scheduler.pollIntervalMs / 1000}초 간격)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // 실행 시각이 된 소스를 작업 대기열에 등록 (이전 실행이 끝나지 않았으면 대기)
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const dueSources = await this.crawlSourceService.findDue();
+      for (const source of dueSources) {
+        if (await this.crawlSourceService.hasActiveRun(source.id)) {
+          continue;
+        }
+        await this.enqueueRun(source, 'schedule');
+      }
+    } catch (error) {
+      this.logger.error('스케줄 실행 오류:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async triggerSource(source: CrawlSource): Promise<{ runId: number; jobId: string }> {
+    if (await this.crawlSourceService.hasActiveRun(source.id)) {
+      throw new Error(`Crawl source ${source.id} is already running`);
+    }
+
+    return this.enqueueRun(source, 'manual');
+  }
+
+  private async enqueueRun(source: CrawlSource, trigger: 'schedule' | 'manual'): Promise<{ runId: number; jobId: string }> {
+    const runId = await this.crawlSourceService.startRun(source, trigger);
+    const job = await this.crawlJobService.enqueue('process', {
+      url: source.url,
+      maxPages: source.maxPages,
+      sourceId: source.id,
+      options: {
+        includePatterns: source.includePatterns,
+        excludePatterns: source.excludePatterns,
+        pathPrefix: source.pathPrefix,
+        includeSubdomains: source.includeSubdomains,
+        queryHandling: source.queryHandling,
+        allowedQueryParams: source.allowedQueryParams,
+        useDefaultExcludes: source.useDefaultExcludes,
+        fetchMode: source.fetchMode,
+        contentSelector: source.contentSelector
+      }
+    }, source.maxPages, runId);
+
+    this.logger.log(`크롤링 소스 실행 등록: #${source.id} ${source.url} (${job.id})`);
+    return { runId, jobId: job.id };
+  }
+}
@@ -0,0 +1,287 @@
+import { Controller, Post, Put, Delete, Get, Body, Param, Query, ParseIntPipe, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty, ApiQuery } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsBoolean, IsArray, IsIn, Min, Max } from 'class-validator';
+import { CrawlingService } from './crawling.service';
+import { CrawlSourceService, CrawlSource, CrawlSourceRun, CrawlSourceInput } from './crawl-source.service';
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+import { QueryHandling } from './url-rules';
+import { FetchMode } from './page-fetcher';
+import { getNextCronRun } from './cron';
+
+export class CreateCrawlSourceRequest {
+  @ApiProperty({ description: 'Source URL (website, sitemap, PDF, Markdown, or GitHub repository)', example: 'https://docs.example.com' })
+  @IsString()
+  url: string;
+
+  @ApiProperty({ description: 'Display name', example: 'Example Docs', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Maximum number of pages per run', example: 50, required: false, minimum: 1, maximum: 150 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(150)
+  maxPages?: number;
+
+  @ApiProperty({ description: 'URL patterns to include (glob on path and query, or /regex/flags)', example: ['/docs/*'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  includePatterns?: string[];
+
+  @ApiProperty({ description: 'URL patterns to exclude (glob on path and query, or /regex/flags)', example: ['/docs/archive/*'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludePatterns?: string[];
+
+  @ApiProperty({ description: 'Only crawl URLs whose path starts with this prefix', example: '/docs/v2/', required: false })
+  @IsOptional()
+  @IsString()
+  pathPrefix?: string;
+
+  @ApiProperty({ description: 'Also follow links to subdomains of the source host', example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  includeSubdomains?: boolean;
+
+  @ApiProperty({ description: 'Query string handling', enum: ['keep', 'strip', 'allowlist', 'skip'], example: 'strip', required: false })
+  @IsOptional()
+  @IsIn(['keep', 'strip', 'allowlist', 'skip'])
+  queryHandling?: QueryHandling;
+
+  @ApiProperty({ description: 'Query parameters kept when queryHandling is allowlist', example: ['page'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedQueryParams?: string[];
+
+  @ApiProperty({ description: 'Apply the default exclusions (/api/, /admin/ and static files)', example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  useDefaultExcludes?: boolean;
+
+  @ApiProperty({ description: 'How pages are fetched (auto, static or headless)', enum: ['auto', 'static', 'headless'], example: 'auto', required: false })
+  @IsOptional()
+  @IsIn(['auto', 'static', 'headless'])
+  fetchMode?: FetchMode;
+
+  @ApiProperty({ description: 'CSS selector of the main content area (detected automatically when omitted)', example: 'article.docs-content', required: false })
+  @IsOptional()
+  @IsString()
+  contentSelector?: string;
+
+  @ApiProperty({ description: 'Cron schedule (minute hour day month weekday), omit for manual runs only', example: '0 3 * * *', required: false })
+  @IsOptional()
+  @IsString()
+  schedule?: string;
+
+  @ApiProperty({ description: 'Whether scheduled runs are enabled', example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateCrawlSourceRequest {
+  @ApiProperty({ description: 'Source URL', example: 'https://docs.example.com', required: false })
+  @IsOptional()
+  @IsString()
+  url?: string;
+
+  @ApiProperty({ description: 'Display name', example: 'Example Docs', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'Maximum number of pages per run', example: 50, required: false, minimum: 1, maximum: 150 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(150)
+  maxPages?: number;
+
+  @ApiProperty({ description: 'URL patterns to include (glob on path and query, or /regex/flags)', example: ['/docs/*'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  includePatterns?: string[];
+
+  @ApiProperty({ description: 'URL patterns to exclude (glob on path and query, or /regex/flags)', example: ['/docs/archive/*'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludePatterns?: string[];
+
+  @ApiProperty({ description: 'Only crawl URLs whose path starts with this prefix', example: '/docs/v2/', required: false })
+  @IsOptional()
+  @IsString()
+  pathPrefix?: string;
+
+  @ApiProperty({ description: 'Also follow links to subdomains of the source host', example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  includeSubdomains?: boolean;
+
+  @ApiProperty({ description: 'Query string handling', enum: ['keep', 'strip', 'allowlist', 'skip'], example: 'strip', required: false })
+  @IsOptional()
+  @IsIn(['keep', 'strip', 'allowlist', 'skip'])
+  queryHandling?: QueryHandling;
+
+  @ApiProperty({ description: 'Query parameters kept when queryHandling is allowlist', example: ['page'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedQueryParams?: string[];
+
+  @ApiProperty({ description: 'Apply the default exclusions (/api/, /admin/ and static files)', example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  useDefaultExcludes?: boolean;
+
+  @ApiProperty({ description: 'How pages are fetched (auto, static or headless)', enum: ['auto', 'static', 'headless'], example: 'auto', required: false })
+  @IsOptional()
+  @IsIn(['auto', 'static', 'headless'])
+  fetchMode?: FetchMode;
+
+  @ApiProperty({ description: 'CSS selector of the main content area (detected automatically when omitted)', example: 'article.docs-content', required: false })
+  @IsOptional()
+  @IsString()
+  contentSelector?: string;
+
+  @ApiProperty({ description: 'Cron schedule, null to disable scheduled runs', example: '0 3 * * *', required: false, nullable: true })
+  @IsOptional()
+  @IsString()
+  schedule?: string | null;
+
+  @ApiProperty({ description: 'Whether scheduled runs are enabled', example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+@ApiTags('crawling')
+@Controller('crawling/sources')
+export class CrawlSourceController {
+  constructor(
+    private readonly crawlingService: CrawlingService,
+    private readonly crawlSourceService: CrawlSourceService,
+    private readonly crawlSchedulerService: CrawlSchedulerService
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Register a crawl source' })
+  @ApiResponse({ status: 201, description: 'Crawl source created' })
+  @ApiResponse({ status: 400, description: 'Invalid cron schedule' })
+  @ApiBody({ type: CreateCrawlSourceRequest })
+  async createSource(@Body() request: CreateCrawlSourceRequest): Promise<CrawlSource> {
+    this.validateSchedule(request.schedule);
+    return this.crawlSourceService.create({
+      ...request,
+      type: this.crawlingService.detectUrlType(request.url)
+    });
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List crawl sources' })
+  async getSources(): Promise<{ sources: CrawlSource[]; total: number }> {
+    const sources = await this.crawlSourceService.findAll();
+    return {
+      sources,
+      total: sources.length
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a crawl source' })
+  @ApiResponse({ status: 404, description: 'Source not found' })
+  async getSource(@Param('id', ParseIntPipe) id: number): Promise<CrawlSource> {
+    return this.findSource(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a crawl source' })
+  @ApiResponse({ status: 400, description: 'Invalid cron schedule' })
+  @ApiResponse({ status: 404, description: 'Source not found' })
+  @ApiBody({ type: UpdateCrawlSourceRequest })
+  async updateSource(@Param('id', ParseIntPipe) id: number, @Body() request: UpdateCrawlSourceRequest): Promise<CrawlSource> {
+    this.validateSchedule(request.schedule);
+    const input: CrawlSourceInput = { ...request };
+    if (request.url) {
+      input.type = this.crawlingService.detectUrlType(request.url);
+    }
+    const source = await this.crawlSourceService.update(id, input);
+    if (!source) {
+      throw new NotFoundException(`Crawl source with ID ${id} not found`);
+    }
+    return source;
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a crawl source and its run history' })
+  @ApiResponse({ status: 404, description: 'Source not found' })
+  async deleteSource(@Param('id', ParseIntPipe) id: number): Promise<{ success: boolean; timestamp: Date }> {
+    if (!(await this.crawlSourceService.remove(id))) {
+      throw new NotFoundException(`Crawl source with ID ${id} not found`);
+    }
+    return {
+      success: true,
+      timestamp: new Date()
+    };
+  }
+
+  @Post(':id/run')
+  @ApiOperation({ summary: 'Run a crawl source now' })
+  @ApiResponse({ status: 404, description: 'Source not found' })
+  @ApiResponse({ status: 409, description: 'The source is already running' })
+  async runSource(@Param('id', ParseIntPipe) id: number): Promise<{ runId: number; jobId: string; timestamp: Date }> {
+    const source = await this.findSource(id);
+    if (await this.crawlSourceService.hasActiveRun(source.id)) {
+      throw new ConflictException(`Crawl source ${source.id} is already running`);
+    }
+    const { runId, jobId } = await this.crawlSchedulerService.triggerSource(source);
+    return {
+      runId,
+      jobId,
+      timestamp: new Date()
+    };
+  }
+
+  @Get(':id/runs')
+  @ApiOperation({ summary: 'Get run history of a crawl source' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of runs to return (default: 20, max: 100)' })
+  @ApiResponse({ status: 404, description: 'Source not found' })
+  async getRuns(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('limit') limit?: string
+  ): Promise<{ runs: CrawlSourceRun[]; total: number }> {
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit || '20', 10) || 20));
+    const source = await this.findSource(id);
+    const runs = await this.crawlSourceService.getRuns(source.id, limitNum);
+    return {
+      runs,
+      total: runs.length
+    };
+  }
+
+  private async findSource(id: number): Promise<CrawlSource> {
+    const source = await this.crawlSourceService.find(id);
+    if (!source) {
+      throw new NotFoundException(`Crawl source with ID ${id} not found`);
+    }
+    return source;
+  }
+
+  // 다음 실행 시각까지 계산해 봐야 2월 30일처럼 파싱은 되지만 실행되지 않는 표현식도 걸러짐
+  private validateSchedule(schedule: string | null | undefined): void {
+    if (!schedule) {
+      return;
+    }
+    try {
+      getNextCronRun(schedule);
+    } catch (error) {
+      throw new BadRequestException(`Invalid cron schedule "${schedule}": ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,450 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../services/database.service';
+import { UrlType, AdvancedCrawlResult } from './crawling.service';
+import { getNextCronRun } from './cron';
+import { QueryHandling } from './url-rules';
+import { FetchMode } from './page-fetcher';
+
+export interface CrawlSource {
+  id: number;
+  name: string | null;
+  url: string;
+  type: UrlType;
+  maxPages: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  pathPrefix: string | null;
+  includeSubdomains: boolean;
+  queryHandling: QueryHandling;
+  allowedQueryParams: string[];
+  useDefaultExcludes: boolean;
+  fetchMode: FetchMode;
+  contentSelector: string | null;
+  schedule: string | null;
+  enabled: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CrawlSourceInput {
+  name?: string | null;
+  url?: string;
+  type?: UrlType;
+  maxPages?: number;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  pathPrefix?: string | null;
+  includeSubdomains?: boolean;
+  queryHandling?: QueryHandling;
+  allowedQueryParams?: string[];
+  useDefaultExcludes?: boolean;
+  fetchMode?: FetchMode;
+  contentSelector?: string | null;
+  schedule?: string | null;
+  enabled?: boolean;
+}
+
+export type CrawlRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface CrawlSourceRun {
+  id: number;
+  sourceId: number;
+  status: CrawlRunStatus;
+  trigger: 'schedule' | 'manual';
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  pagesCrawled: number | null;
+  totalChunks: number | null;
+  chunksEmbedded: number | null;
+  chunksRemoved: number | null;
+  error: string | null;
+}
+
+export interface CrawlRunSummary {
+  pagesCrawled: number;
+  totalChunks: number;
+  chunksEmbedded: number;
+  chunksRemoved: number;
+}
+
+@Injectable()
+export class CrawlSourceService {
+  private readonly logger = new Logger(CrawlSourceService.name);
+  private tablesReady: Promise<void> | null = null;
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  private ensureTables(): Promise<void> {
+    if (!this.tablesReady) {
+      this.tablesReady = this.createTables().catch(error => {
+        this.tablesReady = null;
+        throw error;
+      });
+    }
+    return this.tablesReady;
+  }
+
+  private async createTables(): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_sources (
+          id SERIAL PRIMARY KEY,
+          name TEXT,
+          url TEXT NOT NULL,
+          type TEXT NOT NULL,
+          max_pages INTEGER NOT NULL DEFAULT 10,
+          include_patterns JSONB NOT NULL DEFAULT '[]',
+          exclude_patterns JSONB NOT NULL DEFAULT '[]',
+          schedule TEXT,
+          enabled BOOLEAN NOT NULL DEFAULT TRUE,
+          last_run_at TIMESTAMP,
+          next_run_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query(`
+        ALTER TABLE crawl_sources
+        ADD COLUMN IF NOT EXISTS path_prefix TEXT,
+        ADD COLUMN IF NOT EXISTS include_subdomains BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS query_handling TEXT NOT NULL DEFAULT 'keep',
+        ADD COLUMN IF NOT EXISTS allowed_query_params JSONB NOT NULL DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS use_default_excludes BOOLEAN NOT NULL DEFAULT TRUE,
+        ADD COLUMN IF NOT EXISTS fetch_mode TEXT NOT NULL DEFAULT 'auto',
+        ADD COLUMN IF NOT EXISTS content_selector TEXT
+      `);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_source_runs (
+          id SERIAL PRIMARY KEY,
+          source_id INTEGER NOT NULL REFERENCES crawl_sources(id) ON DELETE CASCADE,
+          status TEXT NOT NULL,
+          trigger TEXT NOT NULL,
+          started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          finished_at TIMESTAMP,
+          duration_ms INTEGER,
+          pages_crawled INTEGER,
+          total_chunks INTEGER,
+          chunks_embedded INTEGER,
+          chunks_removed INTEGER,
+          error TEXT
+        )
+      `);
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS crawl_source_runs_source_id_idx
+        ON crawl_source_runs (source_id, started_at DESC)
+      `);
+    } catch (error) {
+      this.logger.error('크롤링 소스 테이블 초기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async create(input: CrawlSourceInput): Promise<CrawlSource> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        INSERT INTO crawl_sources (
+          name, url, type, max_pages, include_patterns, exclude_patterns,
+          path_prefix, include_subdomains, query_handling, allowed_query_params, use_default_excludes,
+          fetch_mode, content_selector, schedule, enabled, next_run_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        RETURNING *
+      `, [
+        input.name || null,
+        input.url,
+        input.type,
+        input.maxPages || 10,
+        JSON.stringify(input.includePatterns || []),
+        JSON.stringify(input.excludePatterns || []),
+        input.pathPrefix || null,
+        input.includeSubdomains === true,
+        input.queryHandling || 'keep',
+        JSON.stringify(input.allowedQueryParams || []),
+        input.useDefaultExcludes !== false,
+        input.fetchMode || 'auto',
+        input.contentSelector || null,
+        input.schedule || null,
+        input.enabled !== false,
+        this.computeNextRun(input.schedule, input.enabled !== false)
+      ]);
+
+      return this.mapSource(result.rows[0]);
+    } catch (error) {
+      this.logger.error('크롤링 소스 생성 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async findAll(): Promise<CrawlSource[]> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM crawl_sources ORDER BY id');
+      return result.rows.map(row => this.mapSource(row));
+    } catch (error) {
+      this.logger.error('크롤링 소스 목록 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async find(id: number): Promise<CrawlSource | null> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM crawl_sources WHERE id = $1', [id]);
+      return result.rows[0] ? this.mapSource(result.rows[0]) : null;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 소스가 없으면 null
+  async update(id: number, input: CrawlSourceInput): Promise<CrawlSource | null> {
+    const current = await this.find(id);
+    if (!current) {
+      return null;
+    }
+    const next = { ...current, ...this.definedFields(input) };
+    const scheduleChanged = input.schedule !== undefined || input.enabled !== undefined;
+
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        UPDATE crawl_sources
+        SET name = $2, url = $3, type = $4, max_pages = $5,
+            include_patterns = $6, exclude_patterns = $7,
+            path_prefix = $8, include_subdomains = $9, query_handling = $10,
+            allowed_query_params = $11, use_default_excludes = $12, fetch_mode = $13,
+            content_selector = $14, schedule = $15, enabled = $16, next_run_at = $17,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `, [
+        id,
+        next.name,
+        next.url,
+        next.type,
+        next.maxPages,
+        JSON.stringify(next.includePatterns),
+        JSON.stringify(next.excludePatterns),
+        next.pathPrefix,
+        next.includeSubdomains,
+        next.queryHandling,
+        JSON.stringify(next.allowedQueryParams),
+        next.useDefaultExcludes,
+        next.fetchMode,
+        next.contentSelector,
+        next.schedule,
+        next.enabled,
+        scheduleChanged ? this.computeNextRun(next.schedule, next.enabled) : current.nextRunAt
+      ]);
+
+      return result.rows[0] ? this.mapSource(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('크롤링 소스 수정 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async remove(id: number): Promise<boolean> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query('DELETE FROM crawl_sources WHERE id = $1', [id]);
+      return result.rowCount > 0;
+    } catch (error) {
+      this.logger.error('크롤링 소스 삭제 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async findDue(now: Date = new Date()): Promise<CrawlSource[]> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT * FROM crawl_sources
+        WHERE enabled = TRUE
+          AND schedule IS NOT NULL
+          AND next_run_at <= $1
+        ORDER BY next_run_at
+      `, [now]);
+      return result.rows.map(row => this.mapSource(row));
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 실행 시작 기록 및 다음 실행 시각 갱신
+  async startRun(source: CrawlSource, trigger: 'schedule' | 'manual'): Promise<number> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_sources
+        SET last_run_at = CURRENT_TIMESTAMP, next_run_at = $2
+        WHERE id = $1
+      `, [source.id, this.computeNextRun(source.schedule, source.enabled)]);
+
+      const result = await client.query(`
+        INSERT INTO crawl_source_runs (source_id, status, trigger)
+        VALUES ($1, 'running', $2)
+        RETURNING id
+      `, [source.id, trigger]);
+
+      return result.rows[0].id;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async finishRun(runId: number, status: CrawlRunStatus, summary: CrawlRunSummary | null, error?: string): Promise<void> {
+    const client = await this.databaseService.getClient();
+
+    try {
+      await client.query(`
+        UPDATE crawl_source_runs
+        SET status = $2,
+            finished_at = CURRENT_TIMESTAMP,
+            duration_ms = (EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - started_at)) * 1000)::INTEGER,
+            pages_crawled = $3,
+            total_chunks = $4,
+            chunks_embedded = $5,
+            chunks_removed = $6,
+            error = $7
+        WHERE id = $1
+      `, [
+        runId,
+        status,
+        summary?.pagesCrawled ?? null,
+        summary?.totalChunks ?? null,
+        summary?.chunksEmbedded ?? null,
+        summary?.chunksRemoved ?? null,
+        error || null
+      ]);
+    } catch (error) {
+      this.logger.error('크롤링 실행 기록 저장 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async finishRunFromResult(runId: number, result: AdvancedCrawlResult): Promise<void> {
+    await this.finishRun(runId, 'succeeded', {
+      pagesCrawled: result.pages ? result.pages.length : 1,
+      totalChunks: result.totalChunks || 0,
+      chunksEmbedded: result.changes ? result.changes.chunksAdded + result.changes.chunksUpdated : 0,
+      chunksRemoved: result.changes ? result.changes.chunksRemoved : 0
+    });
+  }
+
+  async hasActiveRun(sourceId: number): Promise<boolean> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT 1 FROM crawl_source_runs
+        WHERE source_id = $1 AND status = 'running'
+        LIMIT 1
+      `, [sourceId]);
+      return result.rows.length > 0;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getRuns(sourceId: number, limit: number = 20): Promise<CrawlSourceRun[]> {
+    await this.ensureTables();
+    const client = await this.databaseService.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT * FROM crawl_source_runs
+        WHERE source_id = $1
+        ORDER BY started_at DESC
+        LIMIT $2
+      `, [sourceId, limit]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        sourceId: row.source_id,
+        status: row.status,
+        trigger: row.trigger,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at,
+        durationMs: row.duration_ms,
+        pagesCrawled: row.pages_crawled,
+        totalChunks: row.total_chunks,
+        chunksEmbedded: row.chunks_embedded,
+        chunksRemoved: row.chunks_removed,
+        error: row.error
+      }));
+    } finally {
+      await client.end();
+    }
+  }
+
+  private computeNextRun(schedule: string | null | undefined, enabled: boolean): Date | null {
+    if (!schedule || !enabled) {
+      return null;
+    }
+    return getNextCronRun(schedule);
+  }
+
+  private definedFields(input: CrawlSourceInput): CrawlSourceInput {
+    return Object.keys(input)
+      .filter(key => input[key] !== undefined)
+      .reduce((fields, key) => ({ ...fields, [key]: input[key] }), {} as CrawlSourceInput);
+  }
+
+  private mapSource(row: any): CrawlSource {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      type: row.type,
+      maxPages: row.max_pages,
+      includePatterns: row.include_patterns || [],
+      excludePatterns: row.exclude_patterns || [],
+      pathPrefix: row.path_prefix,
+      includeSubdomains: row.include_subdomains,
+      queryHandling: row.query_handling,
+      allowedQueryParams: row.allowed_query_params || [],
+      useDefaultExcludes: row.use_default_excludes,
+      fetchMode: row.fetch_mode,
+      contentSelector: row.content_selector,
+      schedule: row.schedule,
+      enabled: row.enabled,
+      lastRunAt: row.last_run_at,
+      nextRunAt: row.next_run_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,246 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { hostname } from 'os';
+import { CrawlingService, SkippedUrl } from './crawling.service';
+import { CrawlJobService, CrawlJob } from './crawl-job.service';
+import { CrawlSourceService } from './crawl-source.service';
+import { CrawlInterruptedError, CrawlSignal } from './crawl-control';
+import { CrawlEventsService, CrawlJobEmitter } from './crawl-events.service';
+import { IngestLog } from './ingestion.service';
+import { crawlerConfig } from '../config/crawler.config';
+
+// 취소/일시정지 요청 확인 간격 (임베딩 호출마다 DB를 조회하지 않도록 제한)
+const CONTROL_CHECK_INTERVAL_MS = 2000;
+
+@Injectable()
+export class CrawlWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CrawlWorkerService.name);
+  private readonly workerId = `${hostname()}_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+  private readonly activeJobs = new Set<string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastRecoveryAt = 0;
+
+  constructor(
+    private readonly crawlingService: CrawlingService,
+    private readonly crawlJobService: CrawlJobService,
+    private readonly crawlSourceService: CrawlSourceService,
+    private readonly crawlEventsService: CrawlEventsService
+  ) {}
+
+  onModuleInit(): void {
+    if (!crawlerConfig.jobs.workerEnabled) {
+      this.logger.log('크롤링 작업 워커 비활성화됨');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => this.poll(), crawlerConfig.jobs.pollIntervalMs);
+    this.logger.log(`크롤링 작업 워커 시작: ${this.workerId} (동시 실행 ${crawlerConfig.jobs.concurrency}개)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      // 중단된 작업을 주기적으로 대기열에 복구 (재시작 후 이어서 실행)
+      if (Date.now() - this.lastRecoveryAt > crawlerConfig.jobs.heartbeatIntervalMs) {
+        this.lastRecoveryAt = Date.now();
+        const recovered = await this.crawlJobService.recoverStaleJobs();
+        if (recovered.length > 0) {
+          this.logger.log(`중단된 작업 ${recovered.length}개를 다시 대기열에 등록`);
+        }
+      }
+
+      while (this.activeJobs.size < crawlerConfig.jobs.concurrency) {
+        const job = await this.crawlJobService.claimNext(this.workerId);
+        if (!job) {
+          break;
+        }
+        this.runJob(job);
+      }
+    } catch (error) {
+      this.logger.error('작업 대기열 조회 오류:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(job: CrawlJob): Promise<void> {
+    this.activeJobs.add(job.id);
+    this.logger.log(`작업 실행: ${job.id} (${job.type}, 시도 ${job.attempts}회)`);
+
+    const heartbeat = setInterval(() => {
+      this.crawlJobService.heartbeat(job.id, this.workerId)
+        .catch(error => this.logger.warn(`하트비트 갱신 실패: ${job.id} (${error.message})`));
+    }, crawlerConfig.jobs.heartbeatIntervalMs);
+
+    const signal = this.createSignal(job.id);
+    const events = this.crawlEventsService.createEmitter(job.id);
+    const written: IngestLog = {
+      threadIds: [...job.written.threadIds],
+      urls: [...job.written.urls],
+      replacedUrls: [...job.written.replacedUrls],
+      createdUrls: [...job.written.createdUrls]
+    };
+    events.emit({ type: 'status', data: { status: 'running', attempt: job.attempts, resumed: !!job.checkpoint } });
+
+    try {
+      if (job.type === 'batch') {
+        await this.runBatchJob(job, signal, events);
+      } else {
+        await this.runProcessJob(job, signal, written, events);
+      }
+      this.logger.log(`작업 완료: ${job.id}`);
+
+    } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        await this.handleInterrupted(job, error, written, events)
+          .catch(recordError => this.logger.error('작업 상태 저장 실패:', recordError));
+        return;
+      }
+
+      this.logger.error(`작업 실패: ${job.id} ${error.message}`);
+      events.emit({ type: 'error', data: { message: error.message, fatal: true } });
+      events.emit({ type: 'status', data: { status: 'failed' } });
+      await events.flush();
+      await this.crawlJobService.fail(job.id, error.message)
+        .catch(recordError => this.logger.error('작업 상태 저장 실패:', recordError));
+      if (job.sourceRunId) {
+        await this.crawlSourceService.finishRun(job.sourceRunId, 'failed', null, error.message)
+          .catch(recordError => this.logger.error('실행 기록 저장 실패:', recordError));
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(job.id);
+    }
+  }
+
+  private async runBatchJob(job: CrawlJob, signal: CrawlSignal, events: CrawlJobEmitter): Promise<void> {
+    const { urls, depth = 1, maxPages = 10, selector } = job.payload;
+
+    // 재시작된 작업은 이미 처리한 URL 다음부터 진행
+    for (let index = job.progress.completed; index < urls.length; index++) {
+      await signal.throwIfInterrupted();
+      const url = urls[index];
+      let result;
+      let skippedUrls: SkippedUrl[] = [];
+
+      try {
+        result = await this.crawlingService.crawlUrl(url, depth, selector, maxPages);
+        skippedUrls = result.skippedUrls || [];
+        events.emit({
+          type: 'page_fetched',
+          data: { url, title: result.title, pages: result.pages ? result.pages.length : 1, completed: index + 1, total: urls.length }
+        });
+      } catch (error) {
+        this.logger.error(`Error in batch crawl for URL ${url}: ${error.message}`);
+        skippedUrls = [{ url, reason: 'error', detail: error.message }];
+        events.emit({ type: 'error', data: { url, message: error.message } });
+      }
+      skippedUrls
+        .filter(skipped => skipped.reason !== 'error')
+        .forEach(skipped => events.emit({ type: 'page_skipped', data: { ...skipped } }));
+
+      await this.crawlJobService.updateProgress(job.id, { total: urls.length, completed: index + 1 }, result, skippedUrls);
+    }
+
+    events.emit({ type: 'summary', data: { status: 'completed', total: urls.length } });
+    await events.flush();
+    await this.crawlJobService.complete(job.id);
+  }
+
+  private async runProcessJob(job: CrawlJob, signal: CrawlSignal, written: IngestLog, events: CrawlJobEmitter): Promise<void> {
+    const { url, maxPages, options = {} } = job.payload;
+
+    const result = await this.crawlingService.crawlContent(url, maxPages, {
+      ...options,
+      modifiedSince: options.modifiedSince ? new Date(options.modifiedSince) : undefined,
+      signal,
+      ingestLog: written,
+      resumeFrom: job.checkpoint || undefined,
+      onEvent: events.emit,
+      onCheckpoint: checkpoint => this.crawlJobService.saveCheckpoint(
+        job.id,
+        checkpoint,
+        written,
+        { completed: checkpoint.completed, total: checkpoint.total }
+      ).catch(error => this.logger.warn(`진행 상황 저장 실패: ${job.id} (${error.message})`))
+    });
+
+    events.emit({
+      type: 'summary',
+      data: {
+        status: 'completed',
+        url: result.url,
+        pagesCrawled: result.pages ? result.pages.length : 1,
+        totalChunks: result.totalChunks || 0,
+        skipped: result.skippedUrls ? result.skippedUrls.length : 0,
+        changes: result.changes,
+        dryRun: result.dryRun ? result.dryRun.estimate : undefined,
+        executionTime: result.executionTime
+      }
+    });
+    await events.flush();
+    await this.crawlJobService.complete(job.id, [result]);
+    if (job.sourceRunId) {
+      await this.crawlSourceService.finishRunFromResult(job.sourceRunId, result);
+    }
+  }
+
+  // 일시정지는 체크포인트를 남기고 대기, 취소는 필요 시 저장된 청크를 롤백한 뒤 종료
+  private async handleInterrupted(
+    job: CrawlJob,
+    error: CrawlInterruptedError,
+    written: IngestLog,
+    events: CrawlJobEmitter
+  ): Promise<void> {
+    if (error.action === 'pause') {
+      events.emit({ type: 'status', data: { status: 'paused' } });
+      await events.flush();
+      await this.crawlJobService.markPaused(job.id, error.checkpoint);
+      return;
+    }
+
+    const control = await this.crawlJobService.getControl(job.id);
+    const rollback = control.rollback && this.crawlJobService.canRollback(written);
+    if (control.rollback && !rollback) {
+      this.logger.warn(`이전 청크를 교체한 문서가 있어 롤백하지 않음: ${job.id} (${written.replacedUrls.length}개 문서)`);
+    }
+    if (rollback) {
+      await this.crawlJobService.rollbackWrites(job, written);
+    }
+    events.emit({ type: 'status', data: { status: 'cancelled', rolledBack: rollback } });
+    await events.flush();
+    await this.crawlJobService.markCancelled(job.id, rollback);
+    if (job.sourceRunId) {
+      await this.crawlSourceService.finishRun(job.sourceRunId, 'cancelled', null, error.message);
+    }
+  }
+
+  private createSignal(jobId: string): CrawlSignal {
+    let lastCheckedAt = 0;
+
+    return {
+      throwIfInterrupted: async () => {
+        if (Date.now() - lastCheckedAt < CONTROL_CHECK_INTERVAL_MS) {
+          return;
+        }
+        lastCheckedAt = Date.now();
+
+        const { action } = await this.crawlJobService.getControl(jobId);
+        if (action) {
+          throw new CrawlInterruptedError(action);
+        }
+      }
+    };
+  }
+}
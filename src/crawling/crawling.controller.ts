@@ -1,8 +1,22 @@
-import { Controller, Post, Body, Get, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
-import { CrawlingService, AdvancedCrawlResult } from './crawling.service';
+import { Controller, Post, Body, Get, Param, Sse, Headers, MessageEvent, UseInterceptors, UploadedFile, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty, ApiConsumes } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNumber, IsBoolean, IsDateString, IsArray, IsIn, Matches, Min, Max } from 'class-validator';
+import { CrawlingService, AdvancedCrawlResult, CrawledPageInfo, SkippedUrl, WebsiteCrawlOptions } from './crawling.service';
 import { DatabaseService, ThreadGroup } from '../services/database.service';
+import { CrawlJobService, CrawlJob } from './crawl-job.service';
+import { CrawlEventsService } from './crawl-events.service';
+import { QueryHandling } from './url-rules';
+import { FetchMode } from './page-fetcher';
+import { ChunkStrategy } from './chunker';
+import { TableFormat } from './tables';
+import { DuplicateMode } from './simhash';
+import { GitHubThreadState } from './github-threads';
+import { sniffDocumentType } from './document-parsers';
+import { ExportSource } from './knowledge-import';
+import { DocumentSourceType, DOCUMENT_SOURCE_TYPES } from './document-metadata';
+import { crawlerConfig } from '../config/crawler.config';
 
 export class CrawlRequest {
   @ApiProperty({ 
@@ -13,7 +27,7 @@ export class CrawlRequest {
   url: string;
 
   @ApiProperty({ 
-    description: 'Crawling depth', 
+    description: 'Crawling depth (number of link levels, 1 = start page only)', 
     example: 1, 
     required: false,
     minimum: 1 
@@ -23,6 +37,19 @@ export class CrawlRequest {
   @Min(1)
   depth?: number;
 
+  @ApiProperty({ 
+    description: 'Maximum number of pages to crawl when depth is greater than 1', 
+    example: 10, 
+    required: false,
+    minimum: 1,
+    maximum: 150
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(150)
+  maxPages?: number;
+
   @ApiProperty({ 
     description: 'CSS selector to extract specific content', 
     example: '.content', 
@@ -33,10 +60,35 @@ export class CrawlRequest {
   selector?: string;
 }
 
+export class BatchCrawlRequest {
+  @ApiProperty({ description: 'URLs to crawl', example: ['https://example.com', 'https://example.org'] })
+  @IsArray()
+  @IsString({ each: true })
+  urls: string[];
+
+  @ApiProperty({ description: 'Crawling depth for each URL (1 = start page only)', example: 1, required: false, minimum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  depth?: number;
+
+  @ApiProperty({ description: 'Maximum number of pages per URL when depth is greater than 1', example: 10, required: false, minimum: 1, maximum: 150 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(150)
+  maxPages?: number;
+
+  @ApiProperty({ description: 'CSS selector to extract specific content', example: '.content', required: false })
+  @IsOptional()
+  @IsString()
+  selector?: string;
+}
+
 export class UniversalCrawlRequest {
   @ApiProperty({ 
-    description: 'URL to process (website, PDF, Markdown, or GitHub repository)', 
-    example: 'https://example.com or https://example.com/document.pdf or https://github.com/user/repo' 
+    description: 'URL to process (website, sitemap, PDF, Markdown, or GitHub repository)', 
+    example: 'https://example.com or https://example.com/sitemap.xml or https://example.com/document.pdf or https://github.com/user/repo' 
   })
   @IsString()
   url: string;
@@ -53,6 +105,314 @@ export class UniversalCrawlRequest {
   @Min(1)
   @Max(150)
   maxPages?: number;
+
+  @ApiProperty({ 
+    description: 'Number of link levels to crawl (for websites only, 1 = start page only)', 
+    example: 2, 
+    required: false,
+    minimum: 1,
+    maximum: 10
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(10)
+  depth?: number;
+
+  @ApiProperty({ 
+    description: 'Also discover pages from robots.txt sitemaps and /sitemap.xml (for websites only)', 
+    example: true, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  useSitemap?: boolean;
+
+  @ApiProperty({ 
+    description: 'Only crawl sitemap entries whose <lastmod> is on or after this date', 
+    example: '2024-01-01', 
+    required: false 
+  })
+  @IsOptional()
+  @IsDateString()
+  modifiedSince?: string;
+
+  @ApiProperty({ 
+    description: 'Only crawl URLs matching one of these patterns (glob on path and query, or /regex/flags)', 
+    example: ['/docs/*', '/^\\/guides\\/[a-z-]+$/'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  includePatterns?: string[];
+
+  @ApiProperty({ 
+    description: 'Skip URLs matching any of these patterns (glob on path and query, or /regex/flags)', 
+    example: ['/docs/archive/*', '*/print/*'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludePatterns?: string[];
+
+  @ApiProperty({ 
+    description: 'Only crawl URLs whose path starts with this prefix', 
+    example: '/docs/v2/', 
+    required: false 
+  })
+  @IsOptional()
+  @IsString()
+  pathPrefix?: string;
+
+  @ApiProperty({ 
+    description: 'Also follow links to subdomains of the start URL host', 
+    example: false, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeSubdomains?: boolean;
+
+  @ApiProperty({ 
+    description: 'Query string handling: keep, strip, allowlist (keep only allowedQueryParams) or skip (do not crawl URLs with a query string)', 
+    enum: ['keep', 'strip', 'allowlist', 'skip'], 
+    example: 'strip', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['keep', 'strip', 'allowlist', 'skip'])
+  queryHandling?: QueryHandling;
+
+  @ApiProperty({ 
+    description: 'Query parameters kept when queryHandling is allowlist', 
+    example: ['page', 'lang'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedQueryParams?: string[];
+
+  @ApiProperty({ 
+    description: 'Apply the default exclusions (/api/, /admin/ and static files)', 
+    example: true, 
+    required: false, 
+    default: true 
+  })
+  @IsOptional()
+  @IsBoolean()
+  useDefaultExcludes?: boolean;
+
+  @ApiProperty({ 
+    description: 'How pages are fetched: auto (plain HTTP first, headless browser only for client-rendered pages), static or headless', 
+    enum: ['auto', 'static', 'headless'], 
+    example: 'auto', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['auto', 'static', 'headless'])
+  fetchMode?: FetchMode;
+
+  @ApiProperty({ 
+    description: 'CSS selector of the main content area; when omitted the content block is detected automatically', 
+    example: 'article.docs-content', 
+    required: false 
+  })
+  @IsOptional()
+  @IsString()
+  contentSelector?: string;
+
+  @ApiProperty({ 
+    description: 'Chunking strategy override: markdown (split on headings, paragraphs and code fences) or text (paragraphs only); defaults depend on the source type', 
+    enum: ['markdown', 'text'], 
+    example: 'markdown', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['markdown', 'text'])
+  chunkStrategy?: ChunkStrategy;
+
+  @ApiProperty({ 
+    description: 'Maximum chunk size in estimated tokens; defaults depend on the source type', 
+    example: 400, 
+    required: false, 
+    minimum: 50, 
+    maximum: 4000 
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(50)
+  @Max(4000)
+  chunkMaxTokens?: number;
+
+  @ApiProperty({ 
+    description: 'Estimated tokens repeated from the end of one chunk at the start of the next', 
+    example: 50, 
+    required: false, 
+    minimum: 0 
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  chunkOverlapTokens?: number;
+
+  @ApiProperty({ 
+    description: 'How tables are written into chunks: markdown (Markdown table; split tables repeat the header row) or key-value (one "Header: value" line per row)', 
+    enum: ['markdown', 'key-value'], 
+    example: 'markdown', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['markdown', 'key-value'])
+  chunkTableFormat?: TableFormat;
+
+  @ApiProperty({ 
+    description: 'What to do with new chunks that nearly match a chunk of another document: link (store without re-embedding, linked to the original), skip (do not store) or off (no check)', 
+    enum: ['link', 'skip', 'off'], 
+    example: 'link', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['link', 'skip', 'off'])
+  duplicateMode?: DuplicateMode;
+
+  @ApiProperty({ 
+    description: 'Preview only: discover, fetch, extract and chunk pages without embedding or storing anything. The job result lists the planned pages with text length and chunk count, plus an embedding cost estimate', 
+    example: false, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({ 
+    description: 'GitHub branch, tag or commit SHA to ingest (defaults to the ref in a /tree/<ref> URL, then the default branch)', 
+    example: 'v2.1.0', 
+    required: false 
+  })
+  @IsOptional()
+  @IsString()
+  githubRef?: string;
+
+  @ApiProperty({ 
+    description: 'Repository path globs to ingest (** crosses directories, patterns without / match file names); defaults to docs and common source files', 
+    example: ['docs/**/*.md', 'src/**/*.ts'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  githubIncludePaths?: string[];
+
+  @ApiProperty({ 
+    description: 'Repository path globs to skip, in addition to node_modules, vendor, dist, build and lock files', 
+    example: ['**/__tests__/**', '*.spec.ts'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  githubExcludePaths?: string[];
+
+  @ApiProperty({ 
+    description: 'Maximum number of repository files to ingest', 
+    example: 200, 
+    required: false, 
+    minimum: 1 
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  githubMaxFiles?: number;
+
+  @ApiProperty({ 
+    description: 'Skip repository files larger than this many bytes', 
+    example: 204800, 
+    required: false, 
+    minimum: 1 
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  githubMaxFileBytes?: number;
+
+  @ApiProperty({ 
+    description: 'Also ingest GitHub issues with their comments (implied for a /issues URL)', 
+    example: true, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  githubIssues?: boolean;
+
+  @ApiProperty({ 
+    description: 'Also ingest pull request descriptions, comments, reviews and review comments (implied for a /pulls URL)', 
+    example: true, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  githubPullRequests?: boolean;
+
+  @ApiProperty({ 
+    description: 'Also ingest GitHub Discussions with comments and replies (implied for a /discussions URL)', 
+    example: false, 
+    required: false 
+  })
+  @IsOptional()
+  @IsBoolean()
+  githubDiscussions?: boolean;
+
+  @ApiProperty({ 
+    description: 'Issue, pull request and discussion state filter', 
+    enum: ['open', 'closed', 'all'], 
+    example: 'all', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['open', 'closed', 'all'])
+  githubThreadState?: GitHubThreadState;
+
+  @ApiProperty({ 
+    description: 'Only ingest issues, pull requests and discussions that have all of these labels', 
+    example: ['bug'], 
+    required: false 
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  githubLabels?: string[];
+
+  @ApiProperty({ 
+    description: 'Only ingest items updated after this time (ISO 8601); defaults to the previous sync time', 
+    example: '2024-01-01T00:00:00Z', 
+    required: false 
+  })
+  @IsOptional()
+  @IsDateString()
+  githubSince?: string;
+
+  @ApiProperty({ 
+    description: 'Only ingest items updated before this time (ISO 8601)', 
+    example: '2024-06-30T23:59:59Z', 
+    required: false 
+  })
+  @IsOptional()
+  @IsDateString()
+  githubUntil?: string;
+
+  @ApiProperty({ 
+    description: 'Maximum number of issues, pull requests or discussions to ingest per kind', 
+    example: 500, 
+    required: false, 
+    minimum: 1 
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  githubMaxThreads?: number;
 }
 
 export class SearchRequest {
@@ -75,6 +435,53 @@ export class SearchRequest {
   @Min(1)
   @Max(150)
   limit?: number;
+
+  @ApiProperty({
+    description: 'Only search documents of these source types',
+    example: ['website', 'pdf'],
+    required: false,
+    enum: DOCUMENT_SOURCE_TYPES,
+    isArray: true
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(DOCUMENT_SOURCE_TYPES, { each: true })
+  sourceTypes?: DocumentSourceType[];
+
+  @ApiProperty({ description: 'Only search documents in this language (ISO 639-1 code)', example: 'ko', required: false })
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  @ApiProperty({ description: 'Only search documents whose author contains this text (case-insensitive)', example: 'Kim', required: false })
+  @IsOptional()
+  @IsString()
+  author?: string;
+
+  @ApiProperty({ description: 'Only search documents published on or after this date', example: '2024-01-01', required: false })
+  @IsOptional()
+  @IsDateString()
+  publishedAfter?: string;
+
+  @ApiProperty({ description: 'Only search documents published before this date', example: '2025-01-01', required: false })
+  @IsOptional()
+  @IsDateString()
+  publishedBefore?: string;
+
+  @ApiProperty({ description: 'Only search documents modified (or published, if never modified) on or after this date', example: '2024-06-01', required: false })
+  @IsOptional()
+  @IsDateString()
+  modifiedAfter?: string;
+
+  @ApiProperty({ description: 'Only search documents modified (or published, if never modified) before this date', example: '2025-01-01', required: false })
+  @IsOptional()
+  @IsDateString()
+  modifiedBefore?: string;
+
+  @ApiProperty({ description: 'Only search documents whose URL starts with this prefix', example: 'https://docs.example.com/guides/', required: false })
+  @IsOptional()
+  @IsString()
+  urlPrefix?: string;
 }
 
 export class CrawlResult {
@@ -92,6 +499,93 @@ export class CrawlResult {
 
   @ApiProperty({ description: 'Crawl timestamp', example: '2024-01-01T00:00:00.000Z' })
   timestamp: Date;
+
+  @ApiProperty({ description: 'Crawled pages with depth and referring page', type: [CrawledPageInfo], required: false })
+  pages?: CrawledPageInfo[];
+
+  @ApiProperty({ description: 'URLs that were not crawled and why', type: [SkippedUrl], required: false })
+  skippedUrls?: SkippedUrl[];
+}
+
+export class CrawlJobSubmission {
+  @ApiProperty({ description: 'Job ID for /crawling/status/:jobId and /crawling/results/:jobId', example: 'job_1704067200000_abc123def' })
+  jobId: string;
+
+  @ApiProperty({ description: 'Job status', example: 'queued' })
+  status: string;
+
+  @ApiProperty({ description: 'Submission timestamp', example: '2024-01-01T00:00:00.000Z' })
+  timestamp: Date;
+}
+
+export class CancelCrawlJobRequest {
+  @ApiProperty({
+    description: 'Delete chunks already written by this job. Only new chunks are deleted, so jobs that replaced or removed previously stored chunks cannot be rolled back.',
+    example: false,
+    required: false,
+    default: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  rollback?: boolean;
+}
+
+export class CrawlJobControlResult {
+  @ApiProperty({ description: 'Job ID', example: 'job_1704067200000_abc123def' })
+  jobId: string;
+
+  @ApiProperty({ description: 'Job status after the request (running jobs stop at the next page or embedding call)', example: 'running' })
+  status: string;
+
+  @ApiProperty({ description: 'Pending control action for a running job', example: 'pause', nullable: true })
+  controlAction: string | null;
+
+  @ApiProperty({ description: 'Request timestamp', example: '2024-01-01T00:00:00.000Z' })
+  timestamp: Date;
+}
+
+export class UploadDocumentRequest {
+  @ApiProperty({ description: 'File to ingest (PDF, DOCX, HTML, Markdown or plain text)', type: 'string', format: 'binary' })
+  file: Express.Multer.File;
+
+  @ApiProperty({ description: 'Document title; defaults to the file metadata title, then the filename', example: 'Onboarding guide', required: false })
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @ApiProperty({ 
+    description: 'Stable document identifier starting with upload://; defaults to upload://<filename>, so uploading a file with the same name updates it', 
+    example: 'upload://onboarding-guide.docx', 
+    required: false 
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^upload:\/\/.+/, { message: 'documentId must start with upload://' })
+  documentId?: string;
+}
+
+export class ImportArchiveRequest {
+  @ApiProperty({ description: 'Notion export zip (Markdown & CSV) or Confluence space export zip (HTML)', type: 'string', format: 'binary' })
+  file: Express.Multer.File;
+
+  @ApiProperty({ 
+    description: 'Export format; detected from the archive contents when omitted', 
+    enum: ['notion', 'confluence'], 
+    example: 'notion', 
+    required: false 
+  })
+  @IsOptional()
+  @IsIn(['notion', 'confluence'])
+  source?: ExportSource;
+
+  @ApiProperty({ 
+    description: 'Confluence site URL used to build page links; without it pages are stored as confluence://<space>/<pageId>', 
+    example: 'https://example.atlassian.net/wiki', 
+    required: false 
+  })
+  @IsOptional()
+  @IsString()
+  baseUrl?: string;
 }
 
 @ApiTags('crawling')
@@ -99,7 +593,9 @@ export class CrawlResult {
 export class CrawlingController {
   constructor(
     private readonly crawlingService: CrawlingService,
-    private readonly databaseService: DatabaseService
+    private readonly databaseService: DatabaseService,
+    private readonly crawlJobService: CrawlJobService,
+    private readonly crawlEventsService: CrawlEventsService
   ) {}
 
   @Post('crawl')
@@ -110,22 +606,93 @@ export class CrawlingController {
     return this.crawlingService.crawlUrl(
       crawlRequest.url,
       crawlRequest.depth || 1,
-      crawlRequest.selector
+      crawlRequest.selector,
+      crawlRequest.maxPages || 10
     );
   }
 
   @Post('process')
   @ApiOperation({ 
     summary: 'Universal content processing', 
-    description: 'Process any type of content: websites, PDFs, Markdown files, or GitHub repositories' 
+    description: 'Queue processing of any type of content: websites, sitemaps, PDFs, Markdown files, or GitHub repositories. The result is available from /crawling/results/:jobId. With dryRun the job only reports what it would index and the estimated embedding cost.' 
   })
-  @ApiResponse({ status: 200, description: 'Successfully processed content and generated embeddings', type: AdvancedCrawlResult })
+  @ApiResponse({ status: 201, description: 'Processing job queued', type: CrawlJobSubmission })
   @ApiBody({ type: UniversalCrawlRequest })
-  async processContent(@Body() request: UniversalCrawlRequest): Promise<AdvancedCrawlResult> {
-    return this.crawlingService.crawlContent(
-      request.url,
-      request.maxPages || 10
-    );
+  async processContent(@Body() request: UniversalCrawlRequest): Promise<CrawlJobSubmission> {
+    const maxPages = request.maxPages || 10;
+    const job = await this.crawlJobService.enqueue('process', {
+      url: request.url,
+      maxPages,
+      options: this.toWebsiteCrawlOptions(request)
+    }, maxPages);
+
+    return {
+      jobId: job.id,
+      status: job.status,
+      timestamp: new Date()
+    };
+  }
+
+  @Post('upload')
+  @ApiOperation({ 
+    summary: 'Upload and ingest a document', 
+    description: `Accepts PDF, DOCX, HTML, Markdown and plain text files up to ${crawlerConfig.upload.maxBytes} bytes. The format is detected from the file contents; the text is chunked, embedded and stored under an upload:// document ID.` 
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: UploadDocumentRequest })
+  @ApiResponse({ status: 201, description: 'Document ingested', type: AdvancedCrawlResult })
+  @ApiResponse({ status: 400, description: 'Missing file, unsupported file type or a documentId without the upload:// prefix' })
+  @ApiResponse({ status: 413, description: 'File exceeds the upload size limit' })
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: crawlerConfig.upload.maxBytes, files: 1 } }))
+  async uploadDocument(@UploadedFile() file: Express.Multer.File, @Body() request: UploadDocumentRequest): Promise<AdvancedCrawlResult> {
+    if (!file || !file.buffer || file.size === 0) {
+      throw new BadRequestException('file is required');
+    }
+
+    // multer는 파일명을 latin1로 디코딩하므로 UTF-8(한글 파일명)로 복원
+    const filename = Buffer.from(file.originalname, 'latin1').toString('utf-8');
+    const kind = sniffDocumentType(file.buffer, filename, file.mimetype);
+    if (!kind) {
+      throw new BadRequestException(`Unsupported file type: ${filename} (${file.mimetype})`);
+    }
+
+    return this.crawlingService.processUpload({
+      filename,
+      mimeType: file.mimetype,
+      buffer: file.buffer,
+      kind,
+      documentId: request.documentId,
+      title: request.title
+    });
+  }
+
+  @Post('import')
+  @ApiOperation({ 
+    summary: 'Import a Notion or Confluence export', 
+    description: `Accepts a Notion export zip (Markdown and CSV, nested part zips included) or a Confluence space HTML export up to ${crawlerConfig.imports.maxBytes} bytes. Each page is chunked and embedded like a crawled page; links between pages are rewritten to the imported page URLs and the breadcrumb titles are stored as chunk metadata.` 
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: ImportArchiveRequest })
+  @ApiResponse({ status: 201, description: 'Pages imported', type: AdvancedCrawlResult })
+  @ApiResponse({ status: 400, description: 'Missing file or not a zip archive' })
+  @ApiResponse({ status: 413, description: 'Archive exceeds the import size limit' })
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: crawlerConfig.imports.maxBytes, files: 1 } }))
+  async importArchive(@UploadedFile() file: Express.Multer.File, @Body() request: ImportArchiveRequest): Promise<AdvancedCrawlResult> {
+    if (!file || !file.buffer || file.size === 0) {
+      throw new BadRequestException('file is required');
+    }
+
+    const filename = Buffer.from(file.originalname, 'latin1').toString('utf-8');
+    if (file.buffer.subarray(0, 4).toString('latin1') !== 'PK\u0003\u0004') {
+      throw new BadRequestException(`Not a zip archive: ${filename}`);
+    }
+
+    return this.crawlingService.processImport({
+      filename,
+      buffer: file.buffer,
+      source: request.source,
+      baseUrl: request.baseUrl
+    });
   }
 
   @Post('advanced-crawl')
@@ -135,28 +702,125 @@ export class CrawlingController {
   async crawlWebsiteWithEmbedding(@Body() request: UniversalCrawlRequest): Promise<AdvancedCrawlResult> {
     return this.crawlingService.crawlWebsiteWithEmbedding(
       request.url,
-      request.maxPages || 10
+      request.maxPages || 10,
+      this.toWebsiteCrawlOptions(request)
     );
   }
 
   @Post('search')
+  @ApiOperation({
+    summary: 'Similarity search over crawled chunks',
+    description: 'Results can be narrowed by document metadata (source type, language, author, published/modified dates, URL prefix). Documents crawled before metadata was recorded only match when no filter is given.'
+  })
   async searchSimilar(@Body() request: SearchRequest): Promise<any> {
-    return this.crawlingService.searchSimilar(request.query, request.limit || 10);
+    const toDate = (value?: string) => (value ? new Date(value) : undefined);
+    return this.crawlingService.searchSimilar(request.query, request.limit || 10, {
+      sourceTypes: request.sourceTypes,
+      language: request.language ? request.language.toLowerCase() : undefined,
+      author: request.author,
+      publishedAfter: toDate(request.publishedAfter),
+      publishedBefore: toDate(request.publishedBefore),
+      modifiedAfter: toDate(request.modifiedAfter),
+      modifiedBefore: toDate(request.modifiedBefore),
+      urlPrefix: request.urlPrefix
+    });
   }
 
   @Post('batch-crawl')
-  async batchCrawl(@Body() request: { urls: string[] }): Promise<CrawlResult[]> {
-    return this.crawlingService.batchCrawl(request.urls);
+  @ApiOperation({ summary: 'Queue basic crawling of multiple URLs' })
+  @ApiResponse({ status: 201, description: 'Batch crawl job queued', type: CrawlJobSubmission })
+  @ApiBody({ type: BatchCrawlRequest })
+  async batchCrawl(@Body() request: BatchCrawlRequest): Promise<CrawlJobSubmission> {
+    const job = await this.crawlJobService.enqueue('batch', {
+      urls: request.urls,
+      depth: request.depth || 1,
+      maxPages: request.maxPages || 10,
+      selector: request.selector
+    }, request.urls.length);
+
+    return {
+      jobId: job.id,
+      status: job.status,
+      timestamp: new Date()
+    };
   }
 
   @Get('status/:jobId')
+  @ApiOperation({ summary: 'Get crawl job status and progress' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
   async getCrawlStatus(@Param('jobId') jobId: string): Promise<any> {
-    return this.crawlingService.getCrawlStatus(jobId);
+    return this.crawlJobService.getStatus(await this.findJob(jobId));
+  }
+
+  @Sse('jobs/:id/events')
+  @ApiOperation({
+    summary: 'Stream live crawl job events (Server-Sent Events)',
+    description: 'Event types: status, page_fetched, page_skipped, chunks_created, embedding_progress, error, summary. Past events are replayed first; reconnecting clients resume after Last-Event-ID. The stream ends when the job completes, fails, is cancelled or is paused (reconnect after resuming), and right away for unknown job IDs.'
+  })
+  streamJobEvents(
+    @Param('id') id: string,
+    @Headers('last-event-id') lastEventId?: string
+  ): Observable<MessageEvent> {
+    return this.crawlEventsService.stream(id, lastEventId);
+  }
+
+  @Post('jobs/:id/cancel')
+  @ApiOperation({ summary: 'Cancel a crawl job, optionally rolling back chunks it already wrote' })
+  @ApiResponse({ status: 201, type: CrawlJobControlResult })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'The job already finished, or rollback was requested for a job that replaced stored chunks' })
+  @ApiBody({ type: CancelCrawlJobRequest, required: false })
+  async cancelJob(@Param('id') id: string, @Body() request: CancelCrawlJobRequest = {}): Promise<CrawlJobControlResult> {
+    const current = await this.findJob(id);
+    if (request.rollback && !this.crawlJobService.canRollback(current.written)) {
+      throw new ConflictException(`Job ${id} replaced or removed previously stored chunks and cannot be rolled back; cancel it without rollback`);
+    }
+    const job = await this.crawlJobService.requestCancel(id, request.rollback === true);
+    if (!job) {
+      throw new ConflictException(`Job ${id} cannot be cancelled while ${(await this.findJob(id)).status}`);
+    }
+    return this.toControlResult(job);
+  }
+
+  @Post('jobs/:id/pause')
+  @ApiOperation({ summary: 'Pause a crawl job after the current page' })
+  @ApiResponse({ status: 201, type: CrawlJobControlResult })
+  @ApiResponse({ status: 400, description: 'The job type cannot resume where it stopped' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'The job is not queued or running' })
+  async pauseJob(@Param('id') id: string): Promise<CrawlJobControlResult> {
+    // 배치 작업은 완료한 URL 수, 웹사이트/사이트맵 크롤링은 체크포인트로 이어서 실행 (PDF/Markdown/GitHub는 처음부터 다시 실행됨)
+    const current = await this.findJob(id);
+    if (current.type === 'process' && !['website', 'sitemap'].includes(this.crawlingService.detectUrlType(current.payload.url))) {
+      throw new BadRequestException('Only batch jobs and website or sitemap crawls can be paused; cancel the job instead');
+    }
+    const job = await this.crawlJobService.requestPause(id);
+    if (!job) {
+      throw new ConflictException(`Job ${id} cannot be paused while ${(await this.findJob(id)).status}`);
+    }
+    return this.toControlResult(job);
+  }
+
+  @Post('jobs/:id/resume')
+  @ApiOperation({ summary: 'Resume a paused crawl job from its remaining frontier' })
+  @ApiResponse({ status: 201, type: CrawlJobControlResult })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'The job is not paused' })
+  async resumeJob(@Param('id') id: string): Promise<CrawlJobControlResult> {
+    const current = await this.findJob(id);
+    const job = await this.crawlJobService.resume(id);
+    if (!job) {
+      throw new ConflictException(`Job ${id} is not paused (${current.status})`);
+    }
+    return this.toControlResult(job);
   }
 
   @Get('results/:jobId')
-  async getCrawlResults(@Param('jobId') jobId: string): Promise<CrawlResult[]> {
-    return this.crawlingService.getCrawlResults(jobId);
+  @ApiOperation({ summary: 'Get crawl job results (CrawlResult[] for batch jobs, AdvancedCrawlResult[] for process jobs)' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async getCrawlResults(@Param('jobId') jobId: string): Promise<CrawlResult[] | AdvancedCrawlResult[]> {
+    const job = await this.findJob(jobId);
+    return job.results;
   }
 
   @Get('history')
@@ -175,7 +839,23 @@ export class CrawlingController {
               content: { type: 'string', description: 'Root message content' },
               link: { type: 'string', description: 'link URL' },
               createdAt: { type: 'string', format: 'date-time', description: 'Creation timestamp' },
-              count: { type: 'number', description: 'Number of messages in thread group' }
+              count: { type: 'number', description: 'Number of messages in thread group' },
+              document: {
+                type: 'object',
+                nullable: true,
+                description: 'Document metadata (null for documents not re-crawled since metadata was introduced)',
+                properties: {
+                  sourceType: { type: 'string', enum: DOCUMENT_SOURCE_TYPES },
+                  language: { type: 'string', nullable: true, description: 'ISO 639-1 code from the page, file properties or detected from the text', example: 'ko' },
+                  author: { type: 'string', nullable: true },
+                  publishedAt: { type: 'string', format: 'date-time', nullable: true },
+                  modifiedAt: { type: 'string', format: 'date-time', nullable: true },
+                  canonicalUrl: { type: 'string', nullable: true },
+                  contentHash: { type: 'string', description: 'SHA-256 of the normalized document text' },
+                  wordCount: { type: 'number' },
+                  updatedAt: { type: 'string', format: 'date-time', description: 'When the metadata was last recorded' }
+                }
+              }
             }
           }
         },
@@ -190,4 +870,61 @@ export class CrawlingController {
         total: history.length
     };
   }
+
+  private toWebsiteCrawlOptions(request: UniversalCrawlRequest): WebsiteCrawlOptions {
+    return {
+      depth: request.depth,
+      useSitemap: request.useSitemap,
+      modifiedSince: request.modifiedSince ? new Date(request.modifiedSince) : undefined,
+      includePatterns: request.includePatterns,
+      excludePatterns: request.excludePatterns,
+      pathPrefix: request.pathPrefix,
+      includeSubdomains: request.includeSubdomains,
+      queryHandling: request.queryHandling,
+      allowedQueryParams: request.allowedQueryParams,
+      useDefaultExcludes: request.useDefaultExcludes,
+      fetchMode: request.fetchMode,
+      contentSelector: request.contentSelector,
+      duplicateMode: request.duplicateMode,
+      dryRun: request.dryRun,
+      chunking: {
+        strategy: request.chunkStrategy,
+        maxTokens: request.chunkMaxTokens,
+        overlapTokens: request.chunkOverlapTokens,
+        tableFormat: request.chunkTableFormat
+      },
+      github: {
+        ref: request.githubRef,
+        includePaths: request.githubIncludePaths,
+        excludePaths: request.githubExcludePaths,
+        maxFiles: request.githubMaxFiles,
+        maxFileBytes: request.githubMaxFileBytes,
+        issues: request.githubIssues,
+        pullRequests: request.githubPullRequests,
+        discussions: request.githubDiscussions,
+        threadState: request.githubThreadState,
+        labels: request.githubLabels,
+        since: request.githubSince,
+        until: request.githubUntil,
+        maxThreads: request.githubMaxThreads
+      }
+    };
+  }
+
+  private async findJob(jobId: string): Promise<CrawlJob> {
+    const job = await this.crawlJobService.find(jobId);
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private toControlResult(job: CrawlJob): CrawlJobControlResult {
+    return {
+      jobId: job.id,
+      status: job.status,
+      controlAction: job.controlAction,
+      timestamp: new Date()
+    };
+  }
 }
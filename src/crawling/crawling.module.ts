@@ -3,10 +3,40 @@ import { CrawlingController } from './crawling.controller';
 import { CrawlingService } from './crawling.service';
 import { BedrockService } from '../services/bedrock.service';
 import { DatabaseService } from '../services/database.service';
+import { RobotsService } from './robots.service';
+import { SitemapService } from './sitemap.service';
+import { IngestionService } from './ingestion.service';
+import { CrawlSourceController } from './crawl-source.controller';
+import { CrawlSourceService } from './crawl-source.service';
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+import { CrawlJobService } from './crawl-job.service';
+import { CrawlWorkerService } from './crawl-worker.service';
+import { CrawlEventsService } from './crawl-events.service';
+import { DuplicateController } from './duplicate.controller';
+import { DuplicateService } from './duplicate.service';
+import { CrawlHealthController } from './crawl-health.controller';
+import { CrawlHealthService } from './crawl-health.service';
+import { DocumentController } from './document.controller';
+import { DocumentService } from './document.service';
 
 @Module({
-  controllers: [CrawlingController],
-  providers: [CrawlingService, BedrockService, DatabaseService],
+  controllers: [CrawlingController, CrawlSourceController, DuplicateController, CrawlHealthController, DocumentController],
+  providers: [
+    CrawlingService,
+    BedrockService,
+    DatabaseService,
+    RobotsService,
+    SitemapService,
+    IngestionService,
+    CrawlSourceService,
+    CrawlSchedulerService,
+    CrawlJobService,
+    CrawlWorkerService,
+    CrawlEventsService,
+    DuplicateService,
+    CrawlHealthService,
+    DocumentService
+  ],
   exports: [CrawlingService, BedrockService, DatabaseService],
 })
-export class CrawlingModule {}
\ No newline at end of file
+export class CrawlingModule {}
@@ -2,14 +2,64 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ApiProperty } from '@nestjs/swagger';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-import * as puppeteer from 'puppeteer-core';
-import * as chromium from 'chromium';
-import * as pdfParse from 'pdf-parse';
-import { Octokit } from '@octokit/rest';
-import { marked } from 'marked';
 import { CrawlResult } from './crawling.controller';
 import { BedrockService } from '../services/bedrock.service';
-import { DatabaseService, CrawlRecord } from '../services/database.service';
+import { DatabaseService, PageState, ChunkMetadata, DocumentFilter } from '../services/database.service';
+import { UrlFrontier, FrontierEntry, FrontierSnapshot, normalizeUrl } from './url-frontier';
+import { UrlRules, UrlRuleOptions } from './url-rules';
+import { Semaphore } from './concurrency';
+import { extractContent } from './content-extractor';
+import { UploadKind, parseDocx } from './document-parsers';
+import { extractPdf } from './pdf-extractor';
+import { ExportSource, parseExportArchive } from './knowledge-import';
+import { DuplicateMode } from './simhash';
+import { DocumentMetadata, extractHtmlMetadata, parseFrontMatter, parseDate } from './document-metadata';
+import { ChunkingOptions, chunkDocument, estimateTokens } from './chunker';
+import { chunkSourceFile, detectLanguage } from './code-chunker';
+import { GitHubRepoOptions, GitHubPathFilter, createOctokit, parseGitHubUrl, listRepoFiles, gitHubBlobUrl } from './github-repo';
+import { GitHubThreadKind, GitHubThreadFilter, fetchIssueThreads, fetchDiscussionThreads, chunkThread } from './github-threads';
+import {
+  FetchMode,
+  FetchFailure,
+  RedirectHop,
+  PageFetcher,
+  StaticPageFetcher,
+  HeadlessPageFetcher,
+  AutoPageFetcher,
+  describeFetchError
+} from './page-fetcher';
+import { RobotsService } from './robots.service';
+import { SitemapService } from './sitemap.service';
+import { IngestionService, CrawlChangeStats, IngestContext, IngestLog, DocumentInfo, DryRunPlan, DryRunReport } from './ingestion.service';
+import { CrawlInterruptedError, CrawlSignal } from './crawl-control';
+import { CrawlHealthService, UrlOutcome, UrlOutcomeKind } from './crawl-health.service';
+import { CrawlEventListener } from './crawl-events.service';
+import { crawlerConfig } from '../config/crawler.config';
+
+export class SkippedUrl {
+  @ApiProperty({ description: 'Skipped URL', example: 'https://example.com/private/page' })
+  url: string;
+
+  @ApiProperty({ description: 'Reason code', example: 'robots_disallowed' })
+  reason: string;
+
+  @ApiProperty({ description: 'Matched rule or additional detail', example: 'Disallow: /private/', required: false })
+  detail?: string;
+}
+
+export class CrawledPageInfo {
+  @ApiProperty({ description: 'Page URL (canonical if available)', example: 'https://example.com/docs' })
+  url: string;
+
+  @ApiProperty({ description: 'Page title', example: 'Docs' })
+  title: string;
+
+  @ApiProperty({ description: 'Link depth from the start URL (0 = start page)', example: 1 })
+  depth: number;
+
+  @ApiProperty({ description: 'URL of the page that linked to this page', example: 'https://example.com', nullable: true })
+  parentUrl: string | null;
+}
 
 export class AdvancedCrawlResult {
   @ApiProperty({ description: 'Crawled URL', example: 'https://example.com' })
@@ -38,26 +88,142 @@ export class AdvancedCrawlResult {
 
   @ApiProperty({ description: 'Total execution time in milliseconds', example: 15000, required: false })
   executionTime?: number;
+
+  @ApiProperty({ description: 'Crawled pages with depth and referring page', type: [CrawledPageInfo], required: false })
+  pages?: CrawledPageInfo[];
+
+  @ApiProperty({ description: 'URLs that were not crawled and why', type: [SkippedUrl], required: false })
+  skippedUrls?: SkippedUrl[];
+
+  @ApiProperty({ description: 'Incremental re-crawl statistics', type: CrawlChangeStats, required: false })
+  changes?: CrawlChangeStats;
+
+  @ApiProperty({ description: 'Planned pages and embedding cost estimate (dry runs only; nothing was embedded or stored)', type: DryRunReport, required: false })
+  dryRun?: DryRunReport;
 }
 
 export interface PageContent {
   title: string;
   text: string;
   url: string;
+  canonicalUrl?: string | null;
+  links?: string[];
+  // HTML에서 찾은 언어/작성자/게시일/수정일
+  metadata?: DocumentMetadata;
+  depth?: number;
+  parentUrl?: string | null;
+  statusCode?: number | null;
+  etag?: string | null;
+  lastModified?: string | null;
+  fetchedWith?: 'static' | 'headless';
+  // 최종 URL까지 거친 리다이렉트 응답 (없으면 빈 배열)
+  redirectChain?: RedirectHop[];
+  // 응답을 받지 못했거나 HTML이 아닌 경우의 원인
+  failure?: FetchFailure;
+}
+
+export type UrlType = 'pdf' | 'github' | 'markdown' | 'sitemap' | 'website';
+
+export interface WebsiteCrawlOptions extends UrlRuleOptions {
+  // 크롤링할 링크 단계 수 (1 = 시작 페이지만)
+  depth?: number;
+  // 사이트맵에서도 크롤링 대상 URL 수집
+  useSitemap?: boolean;
+  // 지정 시 시작 URL 대신 이 사이트맵들의 URL만 크롤링
+  sitemapUrls?: string[];
+  // lastmod가 이 시각 이전인 사이트맵 항목 제외
+  modifiedSince?: Date;
+  // 취소/일시정지 요청 확인 (페이지 사이, 임베딩 호출 사이)
+  signal?: CrawlSignal;
+  // 새로 저장한 레코드 기록 (취소 시 롤백용)
+  ingestLog?: IngestLog;
+  // 페이지 처리 후 호출되는 체크포인트 콜백 (진행 상황 저장 및 재개용)
+  onCheckpoint?: (checkpoint: WebsiteCrawlCheckpoint) => Promise<void> | void;
+  // 일시정지/중단된 크롤링을 남은 frontier부터 이어서 실행
+  resumeFrom?: WebsiteCrawlCheckpoint;
+  // 페이지 단위 진행 이벤트 (SSE 스트림용)
+  onEvent?: CrawlEventListener;
+  // 페이지 가져오기 방식 (기본: 설정값, auto)
+  fetchMode?: FetchMode;
+  // 본문 영역 CSS 선택자 (없으면 텍스트 밀도로 자동 선택)
+  contentSelector?: string;
+  // 소스 유형별 청크 설정(crawlerConfig.chunking)을 요청 단위로 덮어씀
+  chunking?: Partial<ChunkingOptions>;
+  // GitHub 저장소 수집 설정 (ref, 경로 glob, 파일 수/크기 제한)
+  github?: GitHubRepoOptions;
+  // 다른 문서의 유사 중복 청크 처리 (기본: crawlerConfig.dedup.mode)
+  duplicateMode?: DuplicateMode;
+  // 미리보기 실행: 페이지를 가져와 청크로 나누기만 하고 임베딩/저장하지 않음 (이전 수집 상태와 무관하게 모든 페이지를 가져옴)
+  dryRun?: boolean;
+  // 미리보기 실행 계획 (crawlContent에서 생성, 있으면 저장 단계를 모두 건너뜀)
+  dryRunPlan?: DryRunPlan;
+}
+
+export interface WebsiteCrawlCheckpoint {
+  frontier: FrontierSnapshot;
+  pages: CrawledPageInfo[];
+  skippedUrls: SkippedUrl[];
+  changes: CrawlChangeStats;
+  totalChunks: number;
+  completed: number;
+  total: number;
+  dryRunPlan?: DryRunPlan;
+}
+
+export interface UploadedDocument {
+  filename: string;
+  mimeType: string;
+  buffer: Buffer;
+  // 내용으로 판별한 파일 형식
+  kind: UploadKind;
+  // 지정하지 않으면 upload://<파일명>
+  documentId?: string;
+  title?: string;
+}
+
+export interface ImportedArchive {
+  filename: string;
+  buffer: Buffer;
+  // 지정하지 않으면 아카이브 파일 구성으로 판별
+  source?: ExportSource;
+  // Confluence 사이트 주소 (페이지 URL 생성용)
+  baseUrl?: string;
+}
+
+// GitHub 저장소 수집 중 누적되는 결과
+interface GitHubIngestRun {
+  octokit: ReturnType<typeof createOctokit>;
+  owner: string;
+  repo: string;
+  title: string;
+  repoUrl: string;
+  chunking: ChunkingOptions;
+  changes: CrawlChangeStats;
+  context: IngestContext;
+  pages: CrawledPageInfo[];
+  skippedUrls: SkippedUrl[];
+  sampleChunks: string[];
+  totalChunks: number;
 }
 
 @Injectable()
 export class CrawlingService {
   private readonly logger = new Logger(CrawlingService.name);
-  private crawlJobs: Map<string, any> = new Map();
 
   constructor(
     private readonly bedrockService: BedrockService,
-    private readonly databaseService: DatabaseService
+    private readonly databaseService: DatabaseService,
+    private readonly robotsService: RobotsService,
+    private readonly sitemapService: SitemapService,
+    private readonly ingestionService: IngestionService,
+    private readonly crawlHealthService: CrawlHealthService
   ) {}
 
   // URL 타입 감지
-  private detectUrlType(url: string): 'pdf' | 'github' | 'markdown' | 'website' {
+  detectUrlType(url: string): UrlType {
+    if (/sitemap[^/?#]*\.xml(\.gz)?([?#].*)?$/i.test(url)) {
+      return 'sitemap';
+    }
     if (url.toLowerCase().endsWith('.pdf')) {
       return 'pdf';
     }
@@ -71,30 +237,56 @@ export class CrawlingService {
   }
 
   // 통합 크롤링 메서드
-  async crawlContent(url: string, maxPages: number = 10): Promise<AdvancedCrawlResult> {
+  async crawlContent(url: string, maxPages: number = 10, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
     const urlType = this.detectUrlType(url);
     
-    this.logger.log(`URL 타입 감지: ${urlType} - ${url}`);
+    this.logger.log(`URL 타입 감지: ${urlType} - ${url}${options.dryRun ? ' (미리보기)' : ''}`);
     
+    if (options.dryRun && !options.dryRunPlan) {
+      return this.runDryRun(options, dryRunOptions => this.crawlByType(urlType, url, maxPages, dryRunOptions));
+    }
+    return this.crawlByType(urlType, url, maxPages, options);
+  }
+
+  // 미리보기 계획을 만들어 실행한 뒤 결과에 예상 비용을 붙임 (일시정지 후 재개하면 체크포인트의 계획에 이어서 기록)
+  private async runDryRun(
+    options: WebsiteCrawlOptions,
+    run: (options: WebsiteCrawlOptions) => Promise<AdvancedCrawlResult>
+  ): Promise<AdvancedCrawlResult> {
+    const plan = (options.resumeFrom && options.resumeFrom.dryRunPlan) || this.ingestionService.createDryRunPlan();
+    const result = await run({ ...options, dryRunPlan: plan });
+    result.dryRun = this.ingestionService.summarizeDryRun(plan);
+    return result;
+  }
+
+  private crawlByType(urlType: UrlType, url: string, maxPages: number, options: WebsiteCrawlOptions): Promise<AdvancedCrawlResult> {
     switch (urlType) {
       case 'pdf':
-        return this.processPdf(url);
+        return this.processPdf(url, options);
       case 'github':
-        return this.processGitHubRepo(url);
+        return this.processGitHubRepo(url, options);
       case 'markdown':
-        return this.processMarkdown(url);
+        return this.processMarkdown(url, options);
+      case 'sitemap':
+        return this.crawlWebsiteWithEmbedding(url, maxPages, {
+          ...options,
+          depth: options.depth || 1,
+          sitemapUrls: [url]
+        });
       default:
-        return this.crawlWebsiteWithEmbedding(url, maxPages);
+        return this.crawlWebsiteWithEmbedding(url, maxPages, options);
     }
   }
 
   // PDF 처리
-  async processPdf(url: string): Promise<AdvancedCrawlResult> {
+  async processPdf(url: string, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
     const startTime = Date.now();
     
     try {
       this.logger.log(`PDF 처리 시작: ${url}`);
       
+      await this.assertRobotsAllowed(url);
+
       // PDF URL 접근 가능성 먼저 확인
       const isAccessible = await this.isUrlAccessible(url);
       if (!isAccessible) {
@@ -103,13 +295,13 @@ export class CrawlingService {
       
       const response = await axios.get(url, {
         responseType: 'arraybuffer',
-        timeout: 60000, // 60초로 증가
+        timeout: crawlerConfig.pdf.downloadTimeoutMs,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'User-Agent': crawlerConfig.userAgent,
           'Accept': 'application/pdf,*/*'
         },
-        maxContentLength: 50 * 1024 * 1024, // 50MB 제한
-        maxBodyLength: 50 * 1024 * 1024
+        maxContentLength: crawlerConfig.pdf.maxBytes,
+        maxBodyLength: crawlerConfig.pdf.maxBytes
       });
 
       if (response.headers['content-type'] && !response.headers['content-type'].includes('pdf')) {
@@ -124,97 +316,61 @@ export class CrawlingService {
       
       this.logger.log(`PDF 다운로드 완료: ${pdfBuffer.length} bytes`);
       
-      const pdfData = await pdfParse(pdfBuffer);
-      
-      if (!pdfData.text || pdfData.text.trim().length === 0) {
-        throw new Error('PDF에서 텍스트를 추출할 수 없습니다');
-      }
-      
-      const content = pdfData.text.trim();
-      const title = this.extractTitleFromPdf(content) || 'PDF Document';
-      
-      this.logger.log(`PDF 텍스트 추출 완료: ${content.length}자`);
-      
-      // 청크로 분할하고 임베딩 생성
-      const chunks = this.splitTextIntoChunks(content);
-      const records: CrawlRecord[] = [];
-      
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        const chunk = chunks[chunkIndex];
-        const embedding = await this.bedrockService.createEmbedding(chunk);
-        
-        records.push({
-          url,
-          title,
-          content: chunk,
-          embedding,
-          chunk_index: chunkIndex,
-          page_index: 0
-        });
-      }
-      
-      await this.databaseService.saveBatchRecords(records);
+      const pdf = await this.ingestPdf(url, pdfBuffer, options);
       
       const endTime = Date.now();
       
       return {
         url,
-        title,
-        content: `PDF 문서에서 ${chunks.length}개 청크 생성 (${content.length}자 추출)`,
+        title: pdf.title,
+        content: `PDF 문서 ${pdf.pageCount}페이지에서 ${pdf.chunks.length}개 청크 생성 (${pdf.characters}자 추출)`,
         links: [url],
         timestamp: new Date(),
-        chunks: chunks.slice(0, 3), // 처음 3개 청크만 반환
+        chunks: pdf.chunks.slice(0, 3), // 처음 3개 청크만 반환
         embeddingDimensions: 1024,
-        totalChunks: chunks.length,
-        executionTime: endTime - startTime
+        totalChunks: pdf.chunks.length,
+        executionTime: endTime - startTime,
+        changes: pdf.changes
       };
       
     } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        throw error;
+      }
       this.logger.error(`PDF 처리 오류: ${error.message}`);
       throw new Error(`PDF 처리 실패: ${error.message}`);
     }
   }
 
   // Markdown 파일 처리
-  async processMarkdown(url: string): Promise<AdvancedCrawlResult> {
+  async processMarkdown(url: string, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
     const startTime = Date.now();
     
     try {
       this.logger.log(`Markdown 파일 처리 시작: ${url}`);
+
+      await this.assertRobotsAllowed(url);
       
       const response = await axios.get(url, {
         timeout: 10000,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+          'User-Agent': crawlerConfig.userAgent
         }
       });
 
-      const markdownContent = response.data;
-      const htmlContent = await marked(markdownContent);
-      const $ = cheerio.load(htmlContent);
-      const textContent = $.text().trim();
-      
+      const markdownContent = String(response.data);
       const title = this.extractTitleFromMarkdown(markdownContent) || 'Markdown Document';
       
-      // 청크로 분할하고 임베딩 생성
-      const chunks = this.splitTextIntoChunks(textContent);
-      const records: CrawlRecord[] = [];
-      
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        const chunk = chunks[chunkIndex];
-        const embedding = await this.bedrockService.createEmbedding(chunk);
-        
-        records.push({
-          url,
-          title,
-          content: chunk,
-          embedding,
-          chunk_index: chunkIndex,
-          page_index: 0
-        });
-      }
-      
-      await this.databaseService.saveBatchRecords(records);
+      // 원본 Markdown의 제목 구조를 따라 청크로 분할하고 임베딩 생성
+      const chunks = this.chunkText(markdownContent, 'markdown', options);
+      const changes = this.ingestionService.createChangeStats();
+      await this.ingestionService.syncDocumentChunks({
+        url,
+        title,
+        chunks,
+        pageIndex: 0,
+        info: { sourceType: 'markdown', text: markdownContent, ...parseFrontMatter(markdownContent) }
+      }, changes, this.toIngestContext(options));
       
       const endTime = Date.now();
       
@@ -227,151 +383,627 @@ export class CrawlingService {
         chunks,
         embeddingDimensions: 1024,
         totalChunks: chunks.length,
-        executionTime: endTime - startTime
+        executionTime: endTime - startTime,
+        changes
       };
       
     } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        throw error;
+      }
       this.logger.error(`Markdown 처리 오류: ${error.message}`);
       throw new Error(`Markdown 처리 실패: ${url}`);
     }
   }
 
-  // GitHub 저장소 처리
-  async processGitHubRepo(url: string): Promise<AdvancedCrawlResult> {
+  // 업로드된 파일 처리 (PDF, DOCX, HTML, Markdown, 텍스트), upload://<파일명> 문서로 저장
+  async processUpload(upload: UploadedDocument, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
     const startTime = Date.now();
+    const documentId = upload.documentId || `upload://${encodeURIComponent(upload.filename)}`;
     
     try {
-      this.logger.log(`GitHub 저장소 처리 시작: ${url}`);
-      
-      const { owner, repo } = this.parseGitHubUrl(url);
-      const octokit = new Octokit();
+      this.logger.log(`업로드 파일 처리 시작: ${upload.filename} (${upload.kind}, ${upload.buffer.length} bytes)`);
       
-      // 저장소 정보 가져오기
-      const repoInfo = await octokit.rest.repos.get({ owner, repo });
-      const title = repoInfo.data.full_name;
-      const description = repoInfo.data.description || '';
+      const uploadMetadata: ChunkMetadata = { filename: upload.filename, mimeType: upload.mimeType, kind: upload.kind };
       
-      // README 파일 가져오기
-      let readmeContent = '';
-      try {
-        const readme = await octokit.rest.repos.getReadme({ owner, repo });
-        const readmeBuffer = Buffer.from(readme.data.content, 'base64');
-        readmeContent = readmeBuffer.toString('utf-8');
-      } catch (error) {
-        this.logger.warn(`README 파일을 찾을 수 없습니다: ${owner}/${repo}`);
+      // PDF는 URL 수집과 같은 페이지 단위 경로로 처리
+      if (upload.kind === 'pdf') {
+        const pdf = await this.ingestPdf(documentId, upload.buffer, options, {
+          title: upload.title,
+          fallbackTitle: upload.filename,
+          metadata: uploadMetadata
+        });
+        return {
+          url: documentId,
+          title: pdf.title,
+          content: `업로드 PDF ${pdf.pageCount}페이지에서 ${pdf.chunks.length}개 청크 생성 (${pdf.characters}자 추출)`,
+          links: [],
+          timestamp: new Date(),
+          chunks: pdf.chunks.slice(0, 3),
+          embeddingDimensions: 1024,
+          totalChunks: pdf.chunks.length,
+          executionTime: Date.now() - startTime,
+          changes: pdf.changes
+        };
       }
       
-      // 주요 파일들 가져오기 (최대 20개)
-      const tree = await octokit.rest.git.getTree({
-        owner,
-        repo,
-        tree_sha: repoInfo.data.default_branch,
-        recursive: 'true'
-      });
+      let title: string | null = null;
+      let text: string;
+      let sourceType: keyof typeof crawlerConfig.chunking;
+      let documentMetadata: Partial<DocumentMetadata> = {};
+      let canonicalUrl: string | null = null;
       
-      const importantFiles = tree.data.tree
-        .filter(item => 
-          item.type === 'blob' && 
-          (item.path?.endsWith('.md') || 
-           item.path?.endsWith('.py') || 
-           item.path?.endsWith('.js') || 
-           item.path?.endsWith('.ts') || 
-           item.path?.endsWith('.java') || 
-           item.path?.endsWith('.cpp') || 
-           item.path?.endsWith('.c') ||
-           item.path?.endsWith('.go') ||
-           item.path?.endsWith('.rs') ||
-           item.path?.includes('README') ||
-           item.path?.includes('CHANGELOG') ||
-           item.path?.includes('LICENSE'))
-        )
-        .slice(0, 20);
-      
-      const allContent: string[] = [];
-      
-      // README 내용 추가
-      if (readmeContent) {
-        const htmlContent = await marked(readmeContent);
-        const $ = cheerio.load(htmlContent);
-        allContent.push(`README.md:\n${$.text().trim()}`);
-      }
-      
-      // 저장소 설명 추가
-      if (description) {
-        allContent.push(`Repository Description:\n${description}`);
-      }
-      
-      // 각 파일 내용 가져오기
-      for (const file of importantFiles) {
-        try {
-          if (file.sha && file.path) {
-            const fileContent = await octokit.rest.git.getBlob({
-              owner,
-              repo,
-              file_sha: file.sha
-            });
-            
-            const content = Buffer.from(fileContent.data.content, 'base64').toString('utf-8');
-            
-            // 파일이 너무 크면 처음 2000자만 가져오기
-            const truncatedContent = content.length > 2000 ? content.substring(0, 2000) + '...' : content;
-            allContent.push(`${file.path}:\n${truncatedContent}`);
-          }
-        } catch (error) {
-          this.logger.warn(`파일 내용을 가져올 수 없습니다: ${file.path}`);
+      switch (upload.kind) {
+        case 'docx': {
+          const parsed = parseDocx(upload.buffer);
+          text = parsed.text;
+          title = parsed.title;
+          documentMetadata = parsed.metadata;
+          sourceType = 'markdown';
+          break;
+        }
+        case 'html': {
+          const extracted = extractContent(upload.buffer.toString('utf-8'), documentId);
+          text = extracted.text;
+          title = extracted.title || null;
+          documentMetadata = extracted.metadata;
+          canonicalUrl = extracted.canonicalUrl;
+          sourceType = 'website';
+          break;
         }
+        case 'markdown':
+          text = upload.buffer.toString('utf-8');
+          title = this.extractTitleFromMarkdown(text);
+          documentMetadata = parseFrontMatter(text);
+          sourceType = 'markdown';
+          break;
+        default:
+          text = upload.buffer.toString('utf-8');
+          sourceType = 'text';
       }
       
-      // 모든 내용을 하나의 텍스트로 결합
-      const combinedContent = allContent.join('\n\n---\n\n');
+      if (!text.trim()) {
+        throw new Error('파일에서 텍스트를 추출할 수 없습니다');
+      }
+      
+      const documentTitle = upload.title || title || upload.filename;
+      const chunks = this.chunkText(text, sourceType, options);
+      const changes = this.ingestionService.createChangeStats();
+      await this.ingestionService.syncDocumentChunks({
+        url: documentId,
+        title: documentTitle,
+        chunks,
+        pageIndex: 0,
+        metadata: chunks.map(() => uploadMetadata),
+        info: { sourceType: upload.kind, canonicalUrl, text, ...documentMetadata }
+      }, changes, this.toIngestContext(options));
       
-      // 청크로 분할하고 임베딩 생성
-      const chunks = this.splitTextIntoChunks(combinedContent, 1500); // GitHub는 더 큰 청크 사용
-      const records: CrawlRecord[] = [];
+      const endTime = Date.now();
       
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        const chunk = chunks[chunkIndex];
-        const embedding = await this.bedrockService.createEmbedding(chunk);
+      return {
+        url: documentId,
+        title: documentTitle,
+        content: `업로드 파일에서 ${chunks.length}개 청크 생성 (${text.length}자 추출)`,
+        links: [],
+        timestamp: new Date(),
+        chunks: chunks.slice(0, 3),
+        embeddingDimensions: 1024,
+        totalChunks: chunks.length,
+        executionTime: endTime - startTime,
+        changes
+      };
+      
+    } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        throw error;
+      }
+      this.logger.error(`업로드 파일 처리 오류: ${error.message}`);
+      throw new Error(`업로드 파일 처리 실패: ${upload.filename} (${error.message})`);
+    }
+  }
+
+  // Notion/Confluence 내보내기 아카이브의 페이지를 웹 페이지와 같은 방식으로 청크 분할 후 저장
+  async processImport(archive: ImportedArchive, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
+    const startTime = Date.now();
+    
+    try {
+      this.logger.log(`내보내기 아카이브 처리 시작: ${archive.filename} (${archive.buffer.length} bytes)`);
+      
+      const parsed = parseExportArchive(archive.buffer, archive.source || null, { baseUrl: archive.baseUrl });
+      const changes = this.ingestionService.createChangeStats();
+      const pages: CrawledPageInfo[] = [];
+      const skippedUrls: SkippedUrl[] = [];
+      const sampleChunks: string[] = [];
+      let totalChunks = 0;
+      
+      this.logger.log(`${parsed.source} 내보내기에서 ${parsed.pages.length}개 페이지 발견`);
+      
+      for (const page of parsed.pages) {
+        if (pages.length >= crawlerConfig.imports.maxPages) {
+          skippedUrls.push({ url: page.url, reason: 'page_limit_reached', detail: page.path });
+          continue;
+        }
+        if (page.text.replace(/^#.*$/m, '').trim().length === 0) {
+          skippedUrls.push({ url: page.url, reason: 'empty_page', detail: page.path });
+          continue;
+        }
         
-        records.push({
-          url,
-          title,
-          content: chunk,
-          embedding,
-          chunk_index: chunkIndex,
-          page_index: 0
-        });
+        const chunks = this.chunkText(page.text, 'markdown', options);
+        const metadata: ChunkMetadata = {
+          source: parsed.source,
+          archive: archive.filename,
+          path: page.path,
+          breadcrumbs: page.breadcrumbs
+        };
+        await this.ingestionService.syncDocumentChunks(
+          {
+            url: page.url,
+            title: page.title,
+            chunks,
+            pageIndex: 0,
+            metadata: chunks.map(() => metadata),
+            info: { sourceType: parsed.source, text: page.text }
+          },
+          changes,
+          this.toIngestContext(options)
+        );
+        
+        pages.push({ url: page.url, title: page.title, depth: page.breadcrumbs.length, parentUrl: page.parentUrl });
+        sampleChunks.push(...chunks.slice(0, 3 - sampleChunks.length));
+        totalChunks += chunks.length;
       }
       
-      await this.databaseService.saveBatchRecords(records);
+      const endTime = Date.now();
+      
+      return {
+        url: `import://${encodeURIComponent(archive.filename)}`,
+        title: archive.filename,
+        content: `${parsed.source} 내보내기 ${pages.length}개 페이지에서 ${totalChunks}개 청크 생성`,
+        links: pages.map(page => page.url),
+        timestamp: new Date(),
+        chunks: sampleChunks,
+        embeddingDimensions: 1024,
+        totalChunks,
+        executionTime: endTime - startTime,
+        pages,
+        skippedUrls,
+        changes
+      };
+      
+    } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        throw error;
+      }
+      this.logger.error(`내보내기 아카이브 처리 오류: ${error.message}`);
+      throw new Error(`내보내기 아카이브 처리 실패: ${archive.filename} (${error.message})`);
+    }
+  }
+
+  // PDF를 페이지별로 청크 분할 후 저장 (page_index는 1부터 시작하는 페이지 번호, 청크 URL은 #page=N)
+  private async ingestPdf(
+    url: string,
+    buffer: Buffer,
+    options: WebsiteCrawlOptions,
+    overrides: { title?: string; fallbackTitle?: string; metadata?: ChunkMetadata } = {}
+  ): Promise<{ title: string; chunks: string[]; pageCount: number; characters: number; changes: CrawlChangeStats }> {
+    const pdf = await extractPdf(buffer, { maxPages: crawlerConfig.pdf.maxPages, timeoutMs: crawlerConfig.pdf.parseTimeoutMs });
+    const characters = pdf.pages.reduce((sum, page) => sum + page.text.length, 0);
+    if (characters === 0) {
+      throw new Error('PDF에서 텍스트를 추출할 수 없습니다');
+    }
+    if (pdf.pages.length < pdf.pageCount) {
+      this.logger.warn(`PDF 페이지 수 제한으로 ${pdf.pageCount}페이지 중 ${pdf.pages.length}페이지만 처리: ${url}`);
+    }
+    
+    // 제목: 사용자 지정 → 문서 메타데이터 → 첫 번째 목차 항목 → 파일명(업로드) → 첫 페이지 첫 줄
+    const firstPage = pdf.pages.find(page => page.text.length > 0);
+    const title = overrides.title
+      || pdf.title
+      || (pdf.outline.length > 0 ? pdf.outline[0].title : null)
+      || overrides.fallbackTitle
+      || this.extractTitleFromPdf(firstPage.text)
+      || 'PDF Document';
+    this.logger.log(`PDF 텍스트 추출 완료: ${pdf.pages.length}페이지, ${characters}자`);
+    
+    const chunking = this.resolveChunking('pdf', options);
+    const chunks: string[] = [];
+    const pageIndexes: number[] = [];
+    const metadata: ChunkMetadata[] = [];
+    pdf.pages.forEach(page => {
+      // 목차 경로를 청크 앞에 붙여 검색 시 문맥을 보존
+      const section = page.sectionPath.join(' > ');
+      const prefix = chunking.includeHeadingPath && section ? `${section}\n\n` : '';
+      const pageChunking = { ...chunking, includeHeadingPath: false, maxTokens: chunking.maxTokens - estimateTokens(prefix) };
+      chunkDocument(page.text, pageChunking).forEach(chunk => {
+        chunks.push(`${prefix}${chunk}`);
+        pageIndexes.push(page.pageNumber);
+        metadata.push({
+          ...overrides.metadata,
+          url: `${url}#page=${page.pageNumber}`,
+          page: page.pageNumber,
+          ...(section ? { section } : {})
+        });
+      });
+    });
+    
+    const changes = this.ingestionService.createChangeStats();
+    await this.ingestionService.syncDocumentChunks(
+      {
+        url,
+        title,
+        chunks,
+        pageIndex: 1,
+        pageIndexes,
+        metadata,
+        info: { sourceType: 'pdf', text: pdf.pages.map(page => page.text).join('\n\n'), ...pdf.metadata }
+      },
+      changes,
+      this.toIngestContext(options)
+    );
+    
+    return { title, chunks, pageCount: pdf.pageCount, characters, changes };
+  }
+
+  // GitHub 저장소 처리
+  async processGitHubRepo(url: string, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
+    const startTime = Date.now();
+    
+    try {
+      this.logger.log(`GitHub 저장소 처리 시작: ${url}`);
+      
+      const target = parseGitHubUrl(url);
+      const { owner, repo } = target;
+      const repoOptions = options.github || {};
+      const octokit = createOctokit();
+      
+      // 저장소 정보 가져오기
+      const repoInfo = await octokit.rest.repos.get({ owner, repo });
+      const title = repoInfo.data.full_name;
+      const run: GitHubIngestRun = {
+        octokit,
+        owner,
+        repo,
+        title,
+        repoUrl: `https://github.com/${owner}/${repo}`,
+        chunking: this.resolveChunking('github', options),
+        changes: this.ingestionService.createChangeStats(),
+        context: this.toIngestContext(options),
+        pages: [],
+        skippedUrls: [],
+        sampleChunks: [],
+        totalChunks: 0
+      };
+      
+      // /issues, /pulls, /discussions URL은 해당 항목만, /blob/ URL은 해당 파일만, 그 외에는 파일과 요청한 항목 수집
+      const threadKinds: GitHubThreadKind[] = target.section
+        ? [({ issues: 'issue', pulls: 'pull_request', discussions: 'discussion' } as const)[target.section]]
+        : target.file ? [] : [
+          ...(repoOptions.issues ? ['issue' as const] : []),
+          ...(repoOptions.pullRequests ? ['pull_request' as const] : []),
+          ...(repoOptions.discussions ? ['discussion' as const] : [])
+        ];
+      
+      if (!target.section) {
+        const ref = repoOptions.ref || target.ref || repoInfo.data.default_branch;
+        if (!target.file) {
+          await this.ingestGitHubDescription(run, repoInfo.data.description || '');
+        }
+        await this.ingestGitHubFiles(run, ref, target.path, target.file, repoOptions, options);
+      }
+      for (const kind of threadKinds) {
+        await this.ingestGitHubThreads(run, kind, repoOptions, options);
+      }
       
       const endTime = Date.now();
       
       return {
         url,
         title,
-        content: `GitHub 저장소에서 ${chunks.length}개 청크 생성 (${importantFiles.length}개 파일 처리)`,
-        links: [url],
+        content: `GitHub 저장소에서 ${run.totalChunks}개 청크 생성 (${run.pages.length}개 문서 처리, ${run.skippedUrls.length}개 건너뜀)`,
+        links: run.pages.map(page => page.url),
         timestamp: new Date(),
-        chunks,
+        chunks: run.sampleChunks,
         embeddingDimensions: 1024,
-        totalChunks: chunks.length,
-        executionTime: endTime - startTime
+        totalChunks: run.totalChunks,
+        executionTime: endTime - startTime,
+        pages: run.pages,
+        skippedUrls: run.skippedUrls,
+        changes: run.changes
       };
       
     } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        throw error;
+      }
       this.logger.error(`GitHub 저장소 처리 오류: ${error.message}`);
       throw new Error(`GitHub 저장소 처리 실패: ${url}`);
     }
   }
 
+  // 저장소 설명은 저장소 URL 문서로 저장
+  private async ingestGitHubDescription(run: GitHubIngestRun, description: string): Promise<void> {
+    if (!description) {
+      if (!run.context.dryRunPlan) {
+        await this.databaseService.deleteByUrls([run.repoUrl]);
+      }
+      return;
+    }
+    run.totalChunks += await this.ingestionService.syncDocumentChunks({
+      url: run.repoUrl,
+      title: run.title,
+      chunks: chunkDocument(`# ${run.title}\n\n${description}`, run.chunking),
+      pageIndex: 0,
+      metadata: [],
+      info: { sourceType: 'github', text: description }
+    }, run.changes, run.context);
+  }
+
+  // 파일마다 blob URL 문서로 저장 (Git blob SHA가 같으면 가져오지 않음)
+  private async ingestGitHubFiles(
+    run: GitHubIngestRun,
+    ref: string,
+    pathPrefix: string | null,
+    singleFile: boolean,
+    repoOptions: GitHubRepoOptions,
+    options: WebsiteCrawlOptions
+  ): Promise<void> {
+    const { octokit, owner, repo } = run;
+    const files = await listRepoFiles(octokit, owner, repo, ref, new GitHubPathFilter(repoOptions, pathPrefix, singleFile));
+    const maxFiles = repoOptions.maxFiles || crawlerConfig.github.maxFiles;
+    const maxFileBytes = repoOptions.maxFileBytes || crawlerConfig.github.maxFileBytes;
+    
+    this.logger.log(`GitHub 파일 ${files.length}개 발견: ${run.title}@${ref}`);
+    
+    let processed = 0;
+    // 크기 초과/바이너리로 건너뛴 파일 (이전에 저장된 청크는 아래에서 정리)
+    const excludedUrls = new Set<string>();
+    for (const file of files) {
+      const blobUrl = gitHubBlobUrl(owner, repo, ref, file.path);
+      
+      if (file.size > maxFileBytes) {
+        excludedUrls.add(blobUrl);
+        this.skipGitHubItem(run, options, { url: blobUrl, reason: 'file_too_large', detail: `${file.size} bytes (max ${maxFileBytes})` });
+        continue;
+      }
+      if (processed >= maxFiles) {
+        this.skipGitHubItem(run, options, { url: blobUrl, reason: 'file_limit_reached', detail: `maxFiles: ${maxFiles}` });
+        continue;
+      }
+      processed++;
+      
+      await options.signal?.throwIfInterrupted();
+      
+      try {
+        const state = options.dryRunPlan ? null : await this.databaseService.getPageState(blobUrl);
+        if (state && state.etag === file.sha) {
+          this.recordUnchangedGitHubItem(run, options, state, blobUrl, file.path);
+          continue;
+        }
+        
+        const blob = await octokit.rest.git.getBlob({ owner, repo, file_sha: file.sha });
+        const content = Buffer.from(blob.data.content, 'base64').toString('utf-8');
+        if (content.includes('\u0000')) {
+          excludedUrls.add(blobUrl);
+          this.skipGitHubItem(run, options, { url: blobUrl, reason: 'binary_file', detail: file.path });
+          continue;
+        }
+        
+        options.onEvent?.({ type: 'page_fetched', data: { url: blobUrl, title: file.path, depth: 0, size: file.size } });
+        
+        await this.saveGitHubDocument(run, {
+          url: blobUrl,
+          title: `${run.title}/${file.path}`,
+          label: file.path,
+          version: file.sha,
+          contentHash: this.ingestionService.hashContent(content),
+          info: { sourceType: 'github', text: content },
+          ...this.chunkGitHubFile(file.path, content, blobUrl, run.chunking)
+        });
+      } catch (error) {
+        if (error instanceof CrawlInterruptedError) {
+          throw error;
+        }
+        this.logger.warn(`파일 내용을 가져올 수 없습니다: ${file.path} (${error.message})`);
+        options.onEvent?.({ type: 'error', data: { url: blobUrl, message: error.message } });
+      }
+    }
+    
+    // 같은 ref/경로 범위에서 더 이상 수집 대상이 아닌 파일(삭제, 제외, 크기 초과, 바이너리)의 청크 정리 (파일 하나만 지정했으면 그 파일만)
+    const scopePrefix = gitHubBlobUrl(owner, repo, ref, pathPrefix && !singleFile ? `${pathPrefix}/` : pathPrefix || '');
+    const currentUrls = new Set(files
+      .map(file => gitHubBlobUrl(owner, repo, ref, file.path))
+      .filter(blobUrl => !excludedUrls.has(blobUrl)));
+    const removedUrls = (await this.databaseService.getDocumentUrlsByPrefix(scopePrefix))
+      .filter(stored => !currentUrls.has(stored) && (!singleFile || stored === scopePrefix));
+    if (removedUrls.length > 0) {
+      await this.ingestionService.removeDocuments(removedUrls, run.changes, run.context);
+      if (!options.dryRunPlan) {
+        for (const removedUrl of removedUrls) {
+          await this.databaseService.deletePageState(removedUrl);
+        }
+      }
+    }
+  }
+
+  // 이슈/PR/토론을 댓글 순서대로 하나의 문서로 저장, since가 없으면 마지막 수집 이후 갱신된 항목만 가져옴
+  private async ingestGitHubThreads(
+    run: GitHubIngestRun,
+    kind: GitHubThreadKind,
+    repoOptions: GitHubRepoOptions,
+    options: WebsiteCrawlOptions
+  ): Promise<void> {
+    const { octokit, owner, repo } = run;
+    const threadState = repoOptions.threadState || 'all';
+    const labels = repoOptions.labels || [];
+    // 상태/라벨 필터별로 증분 수집 기준 시각을 따로 저장 (필터 없는 수집이 필터로 빠진 스레드를 건너뛰지 않도록)
+    const filterKey = [
+      threadState !== 'all' ? `state=${threadState}` : null,
+      labels.length > 0 ? `labels=${[...labels].sort().map(encodeURIComponent).join(',')}` : null
+    ].filter(part => part !== null).join('&');
+    const syncKey = `${run.repoUrl}/${({ issue: 'issues', pull_request: 'pulls', discussion: 'discussions' })[kind]}${filterKey ? `?${filterKey}` : ''}`;
+    const syncState = await this.databaseService.getPageState(syncKey);
+    const startedAt = new Date();
+    const filter: GitHubThreadFilter = {
+      state: threadState,
+      labels,
+      since: repoOptions.since
+        ? new Date(repoOptions.since)
+        : (syncState && syncState.last_modified ? new Date(syncState.last_modified) : null),
+      until: repoOptions.until ? new Date(repoOptions.until) : null,
+      maxItems: repoOptions.maxThreads || crawlerConfig.github.maxThreads
+    };
+    
+    const threads = kind === 'discussion'
+      ? await fetchDiscussionThreads(octokit, owner, repo, filter)
+      : await fetchIssueThreads(octokit, owner, repo, filter, { issues: kind === 'issue', pullRequests: kind === 'pull_request' });
+    
+    this.logger.log(`GitHub ${kind} ${threads.length}개 갱신됨: ${run.title} (since ${filter.since ? filter.since.toISOString() : '-'})`);
+    
+    for (const thread of threads) {
+      await options.signal?.throwIfInterrupted();
+      
+      const label = `#${thread.number} ${thread.title}`;
+      const state = options.dryRunPlan ? null : await this.databaseService.getPageState(thread.url);
+      if (state && state.etag === thread.updatedAt) {
+        this.recordUnchangedGitHubItem(run, options, state, thread.url, label);
+        continue;
+      }
+      
+      options.onEvent?.({ type: 'page_fetched', data: { url: thread.url, title: label, depth: 0, comments: thread.posts.length - 1 } });
+      
+      const document = chunkThread(thread, run.chunking);
+      await this.saveGitHubDocument(run, {
+        url: thread.url,
+        title: `${run.title}#${thread.number}: ${thread.title}`,
+        label,
+        version: thread.updatedAt,
+        contentHash: this.ingestionService.hashContent(document.chunks.join('\n')),
+        info: {
+          sourceType: 'github',
+          author: thread.posts.length > 0 ? thread.posts[0].author : null,
+          publishedAt: thread.posts.length > 0 ? parseDate(thread.posts[0].createdAt) : null,
+          modifiedAt: parseDate(thread.updatedAt)
+        },
+        ...document
+      });
+    }
+    
+    // 전체 범위를 다 가져온 경우에만 다음 증분 수집 기준 시각 갱신
+    if (threads.length < filter.maxItems && !filter.until && !options.dryRunPlan) {
+      await this.databaseService.savePageState({
+        url: syncKey,
+        document_url: syncKey,
+        etag: null,
+        last_modified: startedAt.toISOString(),
+        content_hash: '',
+        title: `${run.title} ${kind} sync`,
+        links: [],
+        chunk_count: 0
+      });
+    }
+  }
+
+  private async saveGitHubDocument(
+    run: GitHubIngestRun,
+    document: {
+      url: string;
+      title: string;
+      label: string;
+      version: string;
+      contentHash: string;
+      chunks: string[];
+      metadata: ChunkMetadata[];
+      info: DocumentInfo;
+    }
+  ): Promise<void> {
+    const chunkCount = await this.ingestionService.syncDocumentChunks({
+      url: document.url,
+      title: document.title,
+      chunks: document.chunks,
+      pageIndex: 0,
+      metadata: document.metadata,
+      info: document.info
+    }, run.changes, run.context);
+    
+    // etag에 blob SHA 또는 갱신 시각을 저장해 다음 수집 때 변경 여부 판단
+    if (!run.context.dryRunPlan) {
+      await this.databaseService.savePageState({
+        url: document.url,
+        document_url: document.url,
+        etag: document.version,
+        last_modified: null,
+        content_hash: document.contentHash,
+        title: document.title,
+        links: [],
+        chunk_count: chunkCount
+      });
+    }
+    
+    run.totalChunks += chunkCount;
+    run.sampleChunks.push(...document.chunks.slice(0, Math.max(0, 3 - run.sampleChunks.length)));
+    run.pages.push({ url: document.url, title: document.label, depth: 0, parentUrl: run.repoUrl });
+  }
+
+  private recordUnchangedGitHubItem(run: GitHubIngestRun, options: WebsiteCrawlOptions, state: PageState, url: string, label: string): void {
+    run.changes.pagesUnchanged++;
+    run.changes.chunksUnchanged += state.chunk_count;
+    run.totalChunks += state.chunk_count;
+    run.pages.push({ url, title: label, depth: 0, parentUrl: run.repoUrl });
+    options.onEvent?.({ type: 'page_fetched', data: { url, title: label, depth: 0, unchanged: true } });
+  }
+
+  private skipGitHubItem(run: GitHubIngestRun, options: WebsiteCrawlOptions, skipped: SkippedUrl): void {
+    run.skippedUrls.push(skipped);
+    options.onEvent?.({ type: 'page_skipped', data: { ...skipped } });
+  }
+
+
+  // 소스 코드는 함수/클래스 단위, 문서는 제목 구조 단위로 분할
+  private chunkGitHubFile(
+    path: string,
+    content: string,
+    blobUrl: string,
+    chunking: ChunkingOptions
+  ): { chunks: string[]; metadata: ChunkMetadata[] } {
+    const language = detectLanguage(path);
+    if (language) {
+      const codeChunks = chunkSourceFile(path, content, chunking.maxTokens);
+      return {
+        chunks: codeChunks.map(chunk => chunk.text),
+        metadata: codeChunks.map(chunk => ({
+          url: `${blobUrl}#L${chunk.startLine}-L${chunk.endLine}`,
+          path,
+          language,
+          symbol: chunk.symbol,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine
+        }))
+      };
+    }
+
+    const chunks = chunkDocument(`# ${path}\n\n${content}`, chunking);
+    const documentLanguage = /\.(md|mdx|markdown)$/i.test(path) ? 'markdown' : null;
+    return { chunks, metadata: chunks.map(() => ({ url: blobUrl, path, language: documentLanguage })) };
+  }
+
+
   // 유틸리티 메서드들
-  private parseGitHubUrl(url: string): { owner: string; repo: string } {
-    const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-    if (!match) {
-      throw new Error('유효하지 않은 GitHub URL입니다');
+
+  private toIngestContext(options: WebsiteCrawlOptions): IngestContext {
+    return {
+      signal: options.signal,
+      log: options.ingestLog,
+      onEvent: options.onEvent,
+      duplicateMode: options.duplicateMode,
+      dryRunPlan: options.dryRunPlan
+    };
+  }
+
+  private async assertRobotsAllowed(url: string): Promise<void> {
+    const decision = await this.robotsService.checkUrl(url);
+    if (!decision.allowed) {
+      throw new Error(`robots.txt에 의해 차단된 URL입니다: ${url} (${decision.detail || decision.reason})`);
     }
-    return { owner: match[1], repo: match[2] };
   }
 
   private extractTitleFromPdf(content: string): string | null {
@@ -387,41 +1019,75 @@ export class CrawlingService {
     return match ? match[1] : null;
   }
 
-  async crawlUrl(url: string, depth: number = 1, selector?: string): Promise<CrawlResult> {
+  async crawlUrl(url: string, depth: number = 1, selector?: string, maxPages: number = 10): Promise<CrawlResult> {
     try {
-      this.logger.log(`Starting crawl for URL: ${url}`);
-      
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+      this.logger.log(`Starting crawl for URL: ${url} (depth: ${depth})`);
+
+      const frontier = new UrlFrontier(depth - 1);
+      if (!frontier.add(url, 0, null)) {
+        throw new Error(`Invalid URL: ${url}`);
+      }
+
+      const startHost = new URL(url).hostname;
+      const pages: CrawledPageInfo[] = [];
+      const skippedUrls: SkippedUrl[] = [];
+      let result: CrawlResult | null = null;
+      let entry: FrontierEntry | undefined;
+
+      while (pages.length < maxPages && (entry = frontier.next())) {
+        const decision = await this.robotsService.checkUrl(entry.url);
+        if (!decision.allowed) {
+          skippedUrls.push({ url: entry.url, reason: decision.reason, detail: decision.detail });
+          continue;
         }
-      });
 
-      const $ = cheerio.load(response.data);
-      
-      const title = $('title').text().trim() || '';
-      const content = selector 
-        ? $(selector).text().trim()
-        : $('body').text().trim();
-      
-      const links: string[] = [];
-      $('a[href]').each((_, element) => {
-        const href = $(element).attr('href');
-        if (href && href.startsWith('http')) {
-          links.push(href);
+        await this.robotsService.waitForTurn(entry.url);
+
+        let page: PageContent;
+        try {
+          page = await this.fetchStaticPage(entry.url, selector);
+        } catch (error) {
+          if (!result) {
+            throw error;
+          }
+          this.logger.warn(`Skipping ${entry.url}: ${error.message}`);
+          continue;
         }
-      });
 
-      const result: CrawlResult = {
-        url,
-        title,
-        content: content.substring(0, 5000),
-        links: links.slice(0, 50),
-        timestamp: new Date()
-      };
+        const pageUrl = this.resolveCanonicalUrl(frontier, entry, page);
+        if (!pageUrl) {
+          continue;
+        }
+
+        pages.push({ url: pageUrl, title: page.title, depth: entry.depth, parentUrl: entry.parentUrl });
+
+        if (!result) {
+          result = {
+            url,
+            title: page.title,
+            content: page.text.substring(0, 5000),
+            links: page.links.slice(0, 50),
+            timestamp: new Date()
+          };
+        }
+
+        if (frontier.canExpand(entry.depth)) {
+          page.links
+            .map(link => normalizeUrl(link))
+            .filter(link => link && new URL(link).hostname === startHost)
+            .forEach(link => frontier.add(link, entry.depth + 1, pageUrl));
+        }
+      }
+
+      if (!result) {
+        // 시작 페이지가 robots.txt로 차단된 경우
+        result = { url, title: '', content: '', links: [], timestamp: new Date() };
+      }
+
+      result.pages = pages;
+      result.skippedUrls = skippedUrls;
 
-      this.logger.log(`Crawl completed for URL: ${url}`);
+      this.logger.log(`Crawl completed for URL: ${url} (${pages.length} pages, ${skippedUrls.length} skipped)`);
       return result;
 
     } catch (error) {
@@ -430,316 +1096,568 @@ export class CrawlingService {
     }
   }
 
-  async crawlSinglePageWithPuppeteer(page: any, url: string): Promise<PageContent | null> {
+  private async fetchStaticPage(url: string, selector?: string): Promise<PageContent> {
+    const response = await axios.get(url, {
+      timeout: 10000,
+      headers: {
+        'User-Agent': crawlerConfig.userAgent
+      }
+    });
+
+    const $ = cheerio.load(response.data);
+
+    const title = $('title').text().trim() || '';
+    const text = selector
+      ? $(selector).text().trim()
+      : $('body').text().trim();
+    const canonicalHref = $('link[rel="canonical"]').attr('href');
+    // 상대 링크는 리다이렉트 후 최종 URL 기준으로 해석
+    const baseUrl = response.request?.res?.responseUrl || url;
+
+    const links: string[] = [];
+    $('a[href]').each((_, element) => {
+      const href = $(element).attr('href');
+      const link = href ? normalizeUrl(href, baseUrl) : null;
+      if (link) {
+        links.push(link);
+      }
+    });
+
+    return {
+      url,
+      title,
+      text,
+      canonicalUrl: canonicalHref ? normalizeUrl(canonicalHref, baseUrl) : null,
+      links,
+      metadata: extractHtmlMetadata($)
+    };
+  }
+
+  // canonical URL이 이미 방문한 URL이면 null (중복 페이지)
+  private resolveCanonicalUrl(frontier: UrlFrontier, entry: FrontierEntry, page: PageContent): string | null {
+    const canonicalUrl = page.canonicalUrl;
+    if (!canonicalUrl || canonicalUrl === entry.url) {
+      return entry.url;
+    }
+
+    if (frontier.hasSeen(canonicalUrl)) {
+      this.logger.log(`중복 페이지 건너뜀: ${entry.url} (canonical: ${canonicalUrl})`);
+      return null;
+    }
+
+    frontier.markSeen(canonicalUrl);
+    return canonicalUrl;
+  }
+
+  async crawlSinglePageWithPuppeteer(page: any, url: string, contentSelector?: string): Promise<PageContent | null> {
     try {
       this.logger.log(`페이지 크롤링: ${url}`);
 
-      await page.goto(url, {
+      const response = await page.goto(url, {
         waitUntil: 'networkidle2',
         timeout: 30000
       });
 
-      const content = await page.evaluate(() => {
-        const elementsToRemove = ['script', 'style', 'nav', 'footer', 'header', 'aside'];
-        elementsToRemove.forEach(tag => {
-          const elements = document.querySelectorAll(tag);
-          elements.forEach(el => el.remove());
-        });
-
-        const mainContent = document.querySelector('main') ||
-                          document.querySelector('[role="main"]') ||
-                          document.querySelector('.content') ||
-                          document.querySelector('#content') ||
-                          document.body;
-
-        return {
-          title: document.title || '',
-          text: mainContent.innerText || '',
-          url: window.location.href
-        };
-      });
-
-      content.text = content.text
-        .replace(/\s+/g, ' ')
-        .replace(/\n\s*\n/g, '\n')
-        .trim();
+      const statusCode = response ? response.status() : null;
+      const redirectChain: RedirectHop[] = response
+        ? response.request().redirectChain().map(request => ({
+          url: request.url(),
+          statusCode: request.response() ? request.response().status() : null
+        }))
+        : [];
+      if (statusCode === 304) {
+        return { url, title: '', text: '', statusCode, redirectChain };
+      }
+      if (statusCode && statusCode >= 400) {
+        this.logger.warn(`페이지 응답 오류 (${url}): HTTP ${statusCode}`);
+        return { url, title: '', text: '', statusCode, redirectChain };
+      }
+      const responseHeaders = response ? response.headers() : {};
+
+      // 렌더링된 DOM에서 본문 추출
+      const finalUrl = page.url();
+      const extracted = extractContent(await page.content(), finalUrl, { contentSelector });
+
+      const content: PageContent = {
+        url: normalizeUrl(finalUrl) || url,
+        title: extracted.title,
+        text: extracted.text,
+        canonicalUrl: extracted.canonicalUrl,
+        links: extracted.links,
+        metadata: extracted.metadata,
+        statusCode,
+        etag: responseHeaders['etag'] || null,
+        lastModified: responseHeaders['last-modified'] || null,
+        redirectChain
+      };
 
       this.logger.log(`크롤링 완료: ${content.title} (${content.text.length}자)`);
       return content;
 
     } catch (error) {
       this.logger.error(`페이지 크롤링 오류 (${url}):`, error);
-      return null;
+      return { url, title: '', text: '', failure: describeFetchError(error) };
     }
   }
 
-  async collectSiteLinks(page: any, baseUrl: string): Promise<string[]> {
-    try {
-      const links = await page.evaluate((baseUrl) => {
-        const allLinks = Array.from(document.querySelectorAll('a[href]'));
-        const baseUrlObj = new URL(baseUrl);
-        const siteLinks = new Set();
+  async crawlWebsiteWithEmbedding(url: string, maxPages: number = 10, options: WebsiteCrawlOptions = {}): Promise<AdvancedCrawlResult> {
+    if (options.dryRun && !options.dryRunPlan) {
+      return this.runDryRun(options, dryRunOptions => this.crawlWebsiteWithEmbedding(url, maxPages, dryRunOptions));
+    }
+    const startTime = Date.now();
+    let fetcher: PageFetcher | null = null;
+    const resume = options.resumeFrom;
+    const crawledPages: PageContent[] = resume ? resume.pages.map(p => ({ ...p, text: '' })) : [];
+    const skippedUrls: SkippedUrl[] = resume ? resume.skippedUrls : [];
+    const frontier = resume ? UrlFrontier.restore(resume.frontier) : new UrlFrontier((options.depth || 2) - 1);
+    const changes = resume ? resume.changes : this.ingestionService.createChangeStats();
+    let totalChunks = resume ? resume.totalChunks : 0;
+    const rules = new UrlRules(url, options);
+
+    // 가져오는 중이거나 임베딩 대기 중인 항목 (중단 시 재개 대상)
+    const inProgress = new Map<string, FrontierEntry>();
+    const ingestSlots = new Semaphore(crawlerConfig.concurrency.ingestion);
+    const ingestTasks = new Set<Promise<void>>();
+    let accepted = crawledPages.length;
+    let fetching = 0;
+    let failure: any = null;
+    let waiters: (() => void)[] = [];
+    let checkpointChain: Promise<void> = Promise.resolve();
+    // URL별 가져오기 결과 (크롤링 상태 보고서용, 종료 시 한 번에 저장)
+    const outcomes: UrlOutcome[] = [];
+
+    // 가져오기 완료/실패 시 대기 중인 워커를 깨움
+    const notify = () => {
+      const pending = waiters;
+      waiters = [];
+      pending.forEach(resolve => resolve());
+    };
+    const waitForChange = () => new Promise<void>(resolve => waiters.push(resolve));
 
-        allLinks.forEach(link => {
-          try {
-            const href = link.getAttribute('href');
-            if (!href) return;
-
-            let fullUrl;
-            if (href.startsWith('http')) {
-              fullUrl = href;
-            } else if (href.startsWith('/')) {
-              fullUrl = baseUrlObj.origin + href;
-            } else if (href.startsWith('./') || !href.startsWith('#')) {
-              fullUrl = new URL(href, baseUrl).href;
-            } else {
-              return;
-            }
-
-            const linkUrl = new URL(fullUrl);
-
-            if (linkUrl.hostname === baseUrlObj.hostname) {
-              if (!linkUrl.pathname.match(/\.(pdf|jpg|jpeg|png|gif|css|js|ico)$/i) &&
-                  !linkUrl.pathname.includes('/api/') &&
-                  !linkUrl.pathname.includes('/admin/')) {
-                siteLinks.add(fullUrl);
-              }
-            }
-          } catch (e) {
-            // 잘못된 URL 무시
+    const fail = (error: any) => {
+      failure = failure || error;
+      notify();
+    };
+
+    const enqueueLinks = (links: string[], depth: number, parentUrl: string) => {
+      links
+        .map(link => rules.rewrite(link))
+        .filter(link => link)
+        .forEach(link => frontier.add(link, depth, parentUrl));
+    };
+
+    const skip = (skipped: SkippedUrl) => {
+      skippedUrls.push(skipped);
+      options.onEvent?.({ type: 'page_skipped', data: { ...skipped } });
+    };
+
+    const buildCheckpoint = (): WebsiteCrawlCheckpoint => ({
+      frontier: frontier.snapshot(Array.from(inProgress.values())),
+      pages: crawledPages.map(p => ({ url: p.url, title: p.title, depth: p.depth, parentUrl: p.parentUrl })),
+      skippedUrls,
+      changes,
+      totalChunks,
+      completed: crawledPages.length,
+      total: maxPages,
+      dryRunPlan: options.dryRunPlan
+    });
+
+    // 체크포인트는 저장 순서가 뒤바뀌지 않도록 직렬화
+    const saveCheckpoint = () => {
+      if (options.onCheckpoint) {
+        checkpointChain = checkpointChain.then(() => options.onCheckpoint(buildCheckpoint()));
+      }
+    };
+
+    const finishEntry = (entry: FrontierEntry) => {
+      inProgress.delete(entry.url);
+    };
+
+    const recordOutcome = (
+      entry: FrontierEntry,
+      outcome: UrlOutcomeKind,
+      pageContent: PageContent | null,
+      state: PageState | null,
+      detail: string | null = null
+    ) => {
+      const redirectChain = pageContent?.redirectChain || [];
+      outcomes.push({
+        url: entry.url,
+        parentUrl: entry.parentUrl,
+        outcome,
+        statusCode: pageContent?.statusCode ?? null,
+        finalUrl: redirectChain.length > 0 ? pageContent.url : null,
+        redirectChain,
+        textLength: pageContent && !pageContent.failure ? pageContent.text.length : null,
+        detail,
+        previouslyIndexed: !!state
+      });
+    };
+
+    // 임베딩 단계: 가져오기와 병렬로 실행하되 슬롯 수로 대기열 길이 제한
+    const startIngestion = async (entry: FrontierEntry, pageContent: PageContent, state: PageState | null, pageIndex: number) => {
+      await ingestSlots.acquire();
+
+      const task = (async () => {
+        try {
+          if (failure) {
+            return;
           }
+          totalChunks += await this.savePageContent(pageContent, entry.url, pageIndex, state, changes, options);
+          crawledPages.push(pageContent);
+          finishEntry(entry);
+          saveCheckpoint();
+        } catch (error) {
+          fail(error);
+        } finally {
+          ingestSlots.release();
+        }
+      })();
+
+      ingestTasks.add(task);
+      task.then(() => ingestTasks.delete(task));
+    };
+
+    // 가져오기 단계: frontier 항목 하나를 검사하고 페이지를 가져옴
+    const fetchEntry = async (entry: FrontierEntry) => {
+      // 시작 URL은 규칙 검사에서 제외
+      const ruleMatch = entry.parentUrl !== null ? rules.check(entry.url) : null;
+      if (ruleMatch) {
+        skip({ url: entry.url, reason: ruleMatch.reason, detail: ruleMatch.rule });
+        return finishEntry(entry);
+      }
+
+      const decision = await this.robotsService.checkUrl(entry.url);
+      if (!decision.allowed) {
+        this.logger.log(`robots.txt에 의해 건너뜀: ${entry.url} (${decision.detail || decision.reason})`);
+        skip({ url: entry.url, reason: decision.reason, detail: decision.detail });
+        recordOutcome(entry, 'robots_disallowed', null, null, decision.detail || decision.reason);
+        return finishEntry(entry);
+      }
+
+      // 호스트별 요청 속도 제한 (Crawl-delay 준수)
+      await this.robotsService.waitForTurn(entry.url);
+
+      // 이전 크롤링 상태가 있으면 ETag/Last-Modified로 조건부 요청 (미리보기는 항상 새로 가져옴)
+      const state = options.dryRunPlan ? null : await this.databaseService.getPageState(entry.url);
+      const pageContent = await fetcher.fetch(
+        entry.url,
+        state ? { etag: state.etag, lastModified: state.last_modified } : undefined
+      );
+
+      if (state && pageContent?.statusCode === 304) {
+        if (accepted >= maxPages) {
+          return finishEntry(entry);
+        }
+        recordOutcome(entry, 'not_modified', null, state, 'HTTP 304');
+        accepted++;
+        frontier.markSeen(state.document_url);
+        enqueueLinks(state.links, entry.depth + 1, state.document_url);
+        changes.pagesUnchanged++;
+        changes.chunksUnchanged += state.chunk_count;
+        totalChunks += state.chunk_count;
+        crawledPages.push({
+          url: state.document_url,
+          title: state.title,
+          text: '',
+          depth: entry.depth,
+          parentUrl: entry.parentUrl
+        });
+        options.onEvent?.({
+          type: 'page_fetched',
+          data: { url: state.document_url, title: state.title, depth: entry.depth, statusCode: 304, unchanged: true }
         });
+        finishEntry(entry);
+        return saveCheckpoint();
+      }
 
-        return Array.from(siteLinks);
-      }, baseUrl);
+      if (state && [404, 410].includes(pageContent?.statusCode)) {
+        this.logger.log(`삭제된 페이지 정리: ${entry.url}`);
+        recordOutcome(entry, 'http_error', pageContent, state, `HTTP ${pageContent.statusCode}`);
+        await this.ingestionService.removeDocuments([state.document_url], changes, this.toIngestContext(options));
+        await this.databaseService.deletePageState(entry.url);
+        options.onEvent?.({ type: 'page_skipped', data: { url: entry.url, reason: 'removed', detail: '삭제된 페이지의 청크를 정리함' } });
+        return finishEntry(entry);
+      }
 
-      this.logger.log(`${links.length}개의 사이트 내 링크 발견`);
-      return links;
+      if (!pageContent || pageContent.failure || pageContent.statusCode >= 400) {
+        const message = !pageContent
+          ? '페이지를 불러오지 못했습니다'
+          : pageContent.failure ? pageContent.failure.message : `HTTP ${pageContent.statusCode}`;
+        recordOutcome(entry, pageContent?.failure?.kind || (pageContent ? 'http_error' : 'network'), pageContent, state, message);
+        options.onEvent?.({
+          type: 'error',
+          data: {
+            url: entry.url,
+            statusCode: pageContent?.statusCode,
+            message
+          }
+        });
+        return finishEntry(entry);
+      }
 
-    } catch (error) {
-      this.logger.error('링크 수집 오류:', error);
-      return [];
-    }
-  }
+      const pageUrl = this.resolveCanonicalUrl(frontier, entry, pageContent);
+      if (!pageUrl) {
+        return finishEntry(entry);
+      }
 
-  async crawlWebsiteWithEmbedding(url: string, maxPages: number = 10): Promise<AdvancedCrawlResult> {
-    const startTime = Date.now();
-    let browser = null;
-    const crawledPages: PageContent[] = [];
+      pageContent.url = pageUrl;
+      pageContent.depth = entry.depth;
+      pageContent.parentUrl = entry.parentUrl;
 
-    try {
-      this.logger.log(`사이트 크롤링 시작: ${url}`);
-
-      browser = await puppeteer.launch({
-        executablePath: chromium.path,
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-          '--single-process'
-        ]
+      enqueueLinks(pageContent.links, entry.depth + 1, pageUrl);
+
+      if (entry.parentUrl !== null && pageContent.text.length <= 100) {
+        recordOutcome(entry, 'content_too_short', pageContent, state, `${pageContent.text.length}자`);
+        options.onEvent?.({ type: 'page_skipped', data: { url: pageUrl, reason: 'content_too_short', detail: `${pageContent.text.length}자` } });
+        return finishEntry(entry);
+      }
+      if (accepted >= maxPages) {
+        return finishEntry(entry);
+      }
+      recordOutcome(entry, 'indexed', pageContent, state);
+
+      options.onEvent?.({
+        type: 'page_fetched',
+        data: {
+          url: pageUrl,
+          title: pageContent.title,
+          depth: entry.depth,
+          statusCode: pageContent.statusCode,
+          textLength: pageContent.text.length,
+          fetchedWith: pageContent.fetchedWith
+        }
       });
 
-      const page = await browser.newPage();
+      // 페이지 단위로 즉시 임베딩 및 저장
+      await startIngestion(entry, pageContent, state, accepted++);
+    };
 
-      // 첫 번째 페이지 크롤링
-      const firstPageContent = await this.crawlSinglePageWithPuppeteer(page, url);
-      if (firstPageContent) {
-        crawledPages.push(firstPageContent);
-      }
+    // 여러 워커가 frontier를 너비 우선 순서대로 나눠서 처리
+    const runFetchWorker = async () => {
+      while (!failure) {
+        if (accepted + fetching >= maxPages) {
+          if (fetching === 0) {
+            break;
+          }
+          await waitForChange();
+          continue;
+        }
 
-      // 사이트 내 링크 수집
-      const siteLinks = await this.collectSiteLinks(page, url);
+        const entry = frontier.next();
+        if (!entry) {
+          // 다른 워커가 가져오는 페이지에서 새 링크가 나올 수 있으므로 대기
+          if (fetching === 0) {
+            break;
+          }
+          await waitForChange();
+          continue;
+        }
+
+        inProgress.set(entry.url, entry);
+        fetching++;
 
-      const uniqueLinks = [...new Set(siteLinks)]
-        .filter(link => link !== url && !crawledPages.some(p => p.url === link))
-        .slice(0, maxPages - 1);
+        try {
+          // 페이지 사이에서 취소/일시정지 요청 확인
+          await options.signal?.throwIfInterrupted();
+          await fetchEntry(entry);
+        } catch (error) {
+          fail(error);
+        } finally {
+          fetching--;
+          notify();
+        }
+      }
+    };
 
-      this.logger.log(`추가로 크롤링할 페이지: ${uniqueLinks.length}개`);
+    try {
+      if (resume) {
+        this.logger.log(`사이트 크롤링 재개: ${url} (${crawledPages.length}개 완료, 남은 URL ${frontier.size}개)`);
+      } else {
+        this.logger.log(`사이트 크롤링 시작: ${url}`);
 
-      // 각 링크 크롤링
-      for (const link of uniqueLinks) {
-        const pageContent = await this.crawlSinglePageWithPuppeteer(page, link);
-        if (pageContent && pageContent.text.length > 100) {
-          crawledPages.push(pageContent);
+        const startEntries = await this.resolveStartEntries(url, maxPages, options);
+        startEntries.forEach(start => frontier.add(start.url, 0, start.parentUrl));
+        if (frontier.size === 0) {
+          throw new Error(`크롤링할 URL이 없습니다: ${url}`);
         }
+      }
 
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      const concurrency = Math.max(1, Math.min(crawlerConfig.concurrency.pages, maxPages));
+      fetcher = this.createPageFetcher(options.fetchMode || crawlerConfig.fetch.defaultMode, concurrency, options.contentSelector);
+      await Promise.all(Array.from({ length: concurrency }, () => runFetchWorker()));
+      while (ingestTasks.size > 0) {
+        await Promise.all(Array.from(ingestTasks));
       }
+      await checkpointChain;
 
-      this.logger.log(`총 ${crawledPages.length}개 페이지 크롤링 완료`);
+      if (failure) {
+        throw failure;
+      }
 
-      // 데이터베이스에 저장 및 임베딩 생성
-      const totalChunks = await this.saveToDatabase(crawledPages);
+      this.logger.log(`총 ${crawledPages.length}개 페이지 크롤링 완료 (변경 없음 ${changes.pagesUnchanged}개)`);
 
       const endTime = Date.now();
       const executionTime = endTime - startTime;
 
+      // 페이지는 임베딩이 끝난 순서로 쌓이므로 제목은 시작 URL의 페이지에서 가져옴 (사이트맵만 크롤링하면 먼저 처리된 사이트맵 항목)
+      const startPage = crawledPages.find(p => p.depth === 0 && !p.parentUrl) || crawledPages.find(p => p.depth === 0);
+
       return {
         url,
-        title: crawledPages[0]?.title || '',
+        title: startPage ? startPage.title : '',
         content: `${crawledPages.length}개 페이지에서 ${totalChunks}개 청크 생성`,
         links: crawledPages.map(p => p.url),
         timestamp: new Date(),
         chunks: [],
         embeddingDimensions: 1024,
         totalChunks,
-        executionTime
+        executionTime,
+        pages: crawledPages.map(p => ({
+          url: p.url,
+          title: p.title,
+          depth: p.depth,
+          parentUrl: p.parentUrl
+        })),
+        skippedUrls,
+        changes
       };
 
     } catch (error) {
+      if (error instanceof CrawlInterruptedError) {
+        // 가져오는 중이거나 임베딩 대기 중이던 페이지는 재개 시 다시 크롤링
+        error.checkpoint = buildCheckpoint();
+        this.logger.log(`웹사이트 크롤링 중단 (${error.action}): ${crawledPages.length}개 페이지 처리됨`);
+        throw error;
+      }
       this.logger.error('웹사이트 크롤링 오류:', error);
       throw error;
     } finally {
-      if (browser) {
-        await browser.close();
+      if (fetcher) {
+        await fetcher.close();
       }
-    }
-  }
-
-  private splitTextIntoChunks(text: string, maxChunkSize: number = 1000): string[] {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    for (const sentence of sentences) {
-      if (currentChunk.length + sentence.length > maxChunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = sentence;
-      } else {
-        currentChunk += (currentChunk ? '. ' : '') + sentence;
+      if (!options.dryRunPlan) {
+        await this.crawlHealthService.recordOutcomes(url, outcomes).catch(error => {
+          this.logger.warn(`크롤링 URL 결과 저장 실패 (${url}): ${error.message}`);
+        });
       }
     }
-
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
-
-    return chunks;
   }
 
-  private async saveToDatabase(crawledPages: PageContent[]): Promise<number> {
-    // 기존 URL들 삭제
-    const urls = crawledPages.map(page => page.url);
-    if (urls.length > 0) {
-      await this.databaseService.deleteByUrls(urls);
+  private createPageFetcher(mode: FetchMode, concurrency: number, contentSelector?: string): PageFetcher {
+    const headless = () => new HeadlessPageFetcher(
+      concurrency,
+      (page, pageUrl) => this.crawlSinglePageWithPuppeteer(page, pageUrl, contentSelector)
+    );
+
+    switch (mode) {
+      case 'static':
+        return new StaticPageFetcher(contentSelector);
+      case 'headless':
+        return headless();
+      default:
+        return new AutoPageFetcher(
+          new StaticPageFetcher(contentSelector),
+          headless(),
+          pageUrl => this.robotsService.waitForTurn(pageUrl)
+        );
     }
+  }
 
-    let totalChunks = 0;
-    const records: CrawlRecord[] = [];
-
-    // 각 페이지 처리
-    for (let pageIndex = 0; pageIndex < crawledPages.length; pageIndex++) {
-      const page = crawledPages[pageIndex];
-      const chunks = this.splitTextIntoChunks(page.text);
-
-      // 각 청크에 대해 임베딩 생성
-      for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-        const chunk = chunks[chunkIndex];
-        const embedding = await this.bedrockService.createEmbedding(chunk);
-
-        console.log('embedding:', embedding)
-
-        records.push({
-          url: page.url,
-          title: page.title,
-          content: chunk,
-          embedding,
-          chunk_index: chunkIndex,
-          page_index: pageIndex
-        });
+  // 시작 URL 및 사이트맵 항목으로 초기 크롤링 대상 구성
+  private async resolveStartEntries(url: string, maxPages: number, options: WebsiteCrawlOptions): Promise<{ url: string; parentUrl: string | null }[]> {
+    const entries: { url: string; parentUrl: string | null }[] = [];
+    let sitemapUrls = options.sitemapUrls;
 
-        totalChunks++;
+    if (!sitemapUrls) {
+      entries.push({ url, parentUrl: null });
+      if (options.useSitemap) {
+        sitemapUrls = await this.sitemapService.discoverSitemaps(url);
       }
-
-      this.logger.log(`페이지 ${pageIndex + 1}/${crawledPages.length} 처리 완료: ${page.title} (${chunks.length}개 청크)`);
     }
 
-    // 배치로 저장
-    await this.databaseService.saveBatchRecords(records);
-    this.logger.log(`총 ${totalChunks}개의 청크가 데이터베이스에 저장되었습니다.`);
+    if (sitemapUrls && sitemapUrls.length > 0) {
+      const sitemapEntries = await this.sitemapService.collectEntries(sitemapUrls, {
+        modifiedSince: options.modifiedSince,
+        maxEntries: maxPages * 5
+      });
+      sitemapEntries.forEach(entry => entries.push({ url: entry.url, parentUrl: entry.sitemapUrl }));
+    }
 
-    return totalChunks;
+    return entries;
   }
 
-  async batchCrawl(urls: string[]): Promise<CrawlResult[]> {
-    const jobId = this.generateJobId();
-    const results: CrawlResult[] = [];
-    
-    this.crawlJobs.set(jobId, {
-      status: 'running',
-      total: urls.length,
-      completed: 0,
-      results: []
-    });
-
-    try {
-      for (const url of urls) {
-        try {
-          const result = await this.crawlUrl(url);
-          results.push(result);
-          
-          const job = this.crawlJobs.get(jobId);
-          job.completed += 1;
-          job.results.push(result);
-          this.crawlJobs.set(jobId, job);
-          
-        } catch (error) {
-          this.logger.error(`Error in batch crawl for URL ${url}: ${error.message}`);
-        }
-      }
-
-      const job = this.crawlJobs.get(jobId);
-      job.status = 'completed';
-      this.crawlJobs.set(jobId, job);
-
-      return results;
+  // 소스 유형별 청크 설정에 요청 단위 설정을 덮어씀
+  private resolveChunking(sourceType: keyof typeof crawlerConfig.chunking, options: WebsiteCrawlOptions): ChunkingOptions {
+    const chunking = { ...crawlerConfig.chunking[sourceType] };
+    Object.keys(options.chunking || {})
+      .filter(key => options.chunking[key] !== undefined)
+      .forEach(key => (chunking[key] = options.chunking[key]));
+    return chunking;
+  }
 
-    } catch (error) {
-      const job = this.crawlJobs.get(jobId);
-      job.status = 'failed';
-      job.error = error.message;
-      this.crawlJobs.set(jobId, job);
-      
-      throw error;
-    }
+  private chunkText(text: string, sourceType: keyof typeof crawlerConfig.chunking, options: WebsiteCrawlOptions): string[] {
+    return chunkDocument(text, this.resolveChunking(sourceType, options));
   }
 
-  async getCrawlStatus(jobId: string): Promise<any> {
-    const job = this.crawlJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Job with ID ${jobId} not found`);
-    }
-    
-    return {
-      jobId,
-      status: job.status,
-      progress: {
-        total: job.total,
-        completed: job.completed,
-        percentage: Math.round((job.completed / job.total) * 100)
-      }
+  // 페이지 해시가 같으면 청크 비교 없이 상태만 갱신
+  private async savePageContent(
+    pageContent: PageContent,
+    requestedUrl: string,
+    pageIndex: number,
+    state: PageState | null,
+    changes: CrawlChangeStats,
+    options: WebsiteCrawlOptions
+  ): Promise<number> {
+    const contentHash = this.ingestionService.hashContent(pageContent.text);
+    const info: DocumentInfo = {
+      sourceType: 'website',
+      canonicalUrl: pageContent.canonicalUrl,
+      text: pageContent.text,
+      ...pageContent.metadata
     };
-  }
+    let chunkCount: number;
+
+    if (state && state.content_hash === contentHash && state.document_url === pageContent.url) {
+      chunkCount = state.chunk_count;
+      changes.pagesUnchanged++;
+      changes.chunksUnchanged += chunkCount;
+      await this.ingestionService.saveDocumentInfo(pageContent.url, pageContent.title, info, [], chunkCount);
+      this.logger.log(`페이지 ${pageIndex + 1} 변경 없음: ${pageContent.title}`);
+    } else {
+      chunkCount = await this.ingestionService.syncDocumentChunks({
+        url: pageContent.url,
+        title: pageContent.title,
+        chunks: this.chunkText(pageContent.text, 'website', options),
+        pageIndex,
+        info
+      }, changes, this.toIngestContext(options));
+      this.logger.log(`페이지 ${pageIndex + 1} 처리 완료: ${pageContent.title} (${chunkCount}개 청크)`);
+    }
 
-  async getCrawlResults(jobId: string): Promise<CrawlResult[]> {
-    const job = this.crawlJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Job with ID ${jobId} not found`);
+    if (!options.dryRunPlan) {
+      await this.databaseService.savePageState({
+        url: requestedUrl,
+        document_url: pageContent.url,
+        etag: pageContent.etag || null,
+        last_modified: pageContent.lastModified || null,
+        content_hash: contentHash,
+        title: pageContent.title,
+        links: pageContent.links || [],
+        chunk_count: chunkCount
+      });
     }
-    
-    return job.results || [];
+
+    return chunkCount;
   }
 
-  async searchSimilar(query: string, limit: number = 10): Promise<any> {
+  async searchSimilar(query: string, limit: number = 10, filter: DocumentFilter = {}): Promise<any> {
     try {
       // 쿼리를 임베딩으로 변환
       const queryEmbedding = await this.bedrockService.createEmbedding(query);
       
       // 유사도 검색 수행
-      const results = await this.databaseService.searchSimilar(queryEmbedding, limit);
+      const results = await this.databaseService.searchSimilar(queryEmbedding, limit, filter);
       
       return {
         query,
@@ -751,6 +1669,8 @@ export class CrawlingService {
           similarity: 1 - result.distance, // distance를 similarity로 변환
           chunk_index: result.chunk_index,
           page_index: result.page_index,
+          chunk_metadata: result.chunk_metadata,
+          document: result.document,
           created_at: result.created_at
         })),
         total: results.length,
@@ -764,10 +1684,6 @@ export class CrawlingService {
     }
   }
 
-  private generateJobId(): string {
-    return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   async extractTextFromHtml(html: string, selector?: string): Promise<string> {
     const $ = cheerio.load(html);
     
@@ -811,6 +1727,7 @@ export class CrawlingService {
     try {
       const response = await axios.head(url, {
         timeout: 5000,
+        headers: { 'User-Agent': crawlerConfig.userAgent },
         validateStatus: (status) => status < 400
       });
       return response.status < 400;
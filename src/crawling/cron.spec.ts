@@ -0,0 +1,42 @@
+import { getNextCronRun, parseCron } from './cron';
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const schedule = parseCron('*/15 9-11 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('expands macros and treats day of week 7 as Sunday', () => {
+    expect([...parseCron('@daily').hours]).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *'])('rejects %s', expression => {
+    expect(() => parseCron(expression)).toThrow();
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('returns the next matching minute after the given time', () => {
+    expect(getNextCronRun('*/15 * * * *', new Date(2024, 0, 1, 10, 15, 30))).toEqual(new Date(2024, 0, 1, 10, 30));
+  });
+
+  it('rolls over to the next day and month', () => {
+    expect(getNextCronRun('30 2 * * *', new Date(2024, 0, 31, 3, 0))).toEqual(new Date(2024, 1, 1, 2, 30));
+    expect(getNextCronRun('@monthly', new Date(2024, 0, 15, 12, 0))).toEqual(new Date(2024, 1, 1, 0, 0));
+  });
+
+  it('runs on either the day of month or the day of week when both are restricted', () => {
+    // 2024-01-02은 화요일이며 다음 월요일(1월 8일)이 10일보다 먼저
+    expect(getNextCronRun('0 0 10 * 1', new Date(2024, 0, 2, 0, 0))).toEqual(new Date(2024, 0, 8, 0, 0));
+  });
+
+  it('throws when no run exists', () => {
+    expect(() => getNextCronRun('0 0 31 2 *', new Date(2024, 0, 1))).toThrow();
+  });
+});
@@ -0,0 +1,199 @@
+import * as cheerio from 'cheerio';
+
+// 문서 출처: URL 수집(website/pdf/markdown/github), 업로드 파일 형식(docx/html/text 등), 내보내기 가져오기(notion/confluence)
+export type DocumentSourceType = 'website' | 'pdf' | 'markdown' | 'github' | 'docx' | 'html' | 'text' | 'notion' | 'confluence';
+
+export const DOCUMENT_SOURCE_TYPES: DocumentSourceType[] = [
+  'website', 'pdf', 'markdown', 'github', 'docx', 'html', 'text', 'notion', 'confluence'
+];
+
+// 원문에서 찾은 문서 단위 메타데이터 (찾지 못한 값은 null)
+export interface DocumentMetadata {
+  // ISO 639 기본 언어 코드 (예: "ko", "en")
+  language: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  modifiedAt: Date | null;
+}
+
+// JSON-LD에서 메타데이터를 찾을 노드 유형 (앞쪽일수록 우선)
+const JSON_LD_TYPES = ['Article', 'TechArticle', 'BlogPosting', 'NewsArticle', 'Report', 'WebPage', 'CreativeWork'];
+
+// 라틴 문자 텍스트를 영어로 판단할 때 세는 기능어
+const ENGLISH_FUNCTION_WORDS = new Set([
+  'the', 'and', 'of', 'to', 'a', 'in', 'is', 'for', 'that', 'with', 'on', 'as', 'are', 'be', 'this', 'it', 'by', 'or', 'you', 'can'
+]);
+
+export function emptyDocumentMetadata(): DocumentMetadata {
+  return { language: null, author: null, publishedAt: null, modifiedAt: null };
+}
+
+// 비어 있는 값만 뒤쪽 메타데이터로 채움
+export function mergeDocumentMetadata(...sources: Partial<DocumentMetadata>[]): DocumentMetadata {
+  const merged = emptyDocumentMetadata();
+  sources.filter(source => source).forEach(source => {
+    merged.language = merged.language || source.language || null;
+    merged.author = merged.author || source.author || null;
+    merged.publishedAt = merged.publishedAt || source.publishedAt || null;
+    merged.modifiedAt = merged.modifiedAt || source.modifiedAt || null;
+  });
+  return merged;
+}
+
+// JSON-LD(Article 등)를 먼저 보고, 없는 값은 meta 태그와 <html lang>에서 가져옴 (script 제거 전에 호출)
+export function extractHtmlMetadata($: cheerio.CheerioAPI): DocumentMetadata {
+  const meta = (...selectors: string[]) => selectors
+    .map(selector => ($(selector).first().attr('content') || '').trim())
+    .find(value => value) || null;
+
+  const fromMeta: DocumentMetadata = {
+    language: normalizeLanguage($('html').attr('lang') || meta('meta[http-equiv="content-language"]', 'meta[property="og:locale"]')),
+    author: cleanAuthor(meta('meta[name="author"]', 'meta[property="article:author"]', 'meta[name="dc.creator"]', 'meta[name="DC.creator"]')),
+    publishedAt: parseDate(meta(
+      'meta[property="article:published_time"]', 'meta[itemprop="datePublished"]', 'meta[name="dc.date"]',
+      'meta[name="DC.date"]', 'meta[name="date"]', 'meta[name="pubdate"]'
+    ) || $('time[pubdate]').first().attr('datetime')),
+    modifiedAt: parseDate(meta(
+      'meta[property="article:modified_time"]', 'meta[itemprop="dateModified"]', 'meta[property="og:updated_time"]',
+      'meta[name="last-modified"]', 'meta[http-equiv="last-modified"]'
+    ))
+  };
+
+  return mergeDocumentMetadata(extractJsonLdMetadata($), fromMeta);
+}
+
+function extractJsonLdMetadata($: cheerio.CheerioAPI): DocumentMetadata {
+  const nodes: any[] = [];
+  const collect = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      nodes.push(value);
+      if (value['@graph']) {
+        collect(value['@graph']);
+      }
+    }
+  };
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collect(JSON.parse($(element).contents().text()));
+    } catch {
+      // 잘못된 JSON-LD는 무시
+    }
+  });
+
+  const rank = (node: any) => {
+    const types = [].concat(node['@type'] || []);
+    const index = JSON_LD_TYPES.findIndex(type => types.includes(type));
+    return index === -1 ? JSON_LD_TYPES.length : index;
+  };
+  const candidates = nodes.filter(node => rank(node) < JSON_LD_TYPES.length).sort((a, b) => rank(a) - rank(b));
+
+  return mergeDocumentMetadata(...candidates.map(node => ({
+    language: normalizeLanguage(typeof node.inLanguage === 'string' ? node.inLanguage : node.inLanguage?.alternateName),
+    author: cleanAuthor(jsonLdName(node.author)),
+    publishedAt: parseDate(node.datePublished || node.dateCreated),
+    modifiedAt: parseDate(node.dateModified)
+  })));
+}
+
+// author는 문자열, {name}, 또는 그 배열 (여러 명이면 쉼표로 연결)
+function jsonLdName(value: any): string | null {
+  const names = [].concat(value || [])
+    .map((item: any) => (typeof item === 'string' ? item : item && typeof item.name === 'string' ? item.name : ''))
+    .map((name: string) => name.trim())
+    .filter((name: string) => name);
+  return names.length > 0 ? names.join(', ') : null;
+}
+
+// 프로필 URL만 있는 author 값은 이름이 아니므로 제외
+function cleanAuthor(value: string | null): string | null {
+  const author = (value || '').replace(/\s+/g, ' ').trim();
+  return author && !/^https?:\/\//i.test(author) ? author.slice(0, 200) : null;
+}
+
+// Markdown 앞머리(YAML front matter)의 author/date/lastmod/lang 값
+export function parseFrontMatter(markdown: string): DocumentMetadata {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---\s*(\r?\n|$)/);
+  if (!match) {
+    return emptyDocumentMetadata();
+  }
+
+  const fields = new Map<string, string>();
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (field) {
+      listKey = field[2].trim() ? null : field[1].toLowerCase();
+      fields.set(field[1].toLowerCase(), unquote(field[2].replace(/^\[|\]$/g, '').split(',')[0]));
+      return;
+    }
+    // "authors:" 다음 줄의 "- 이름" 목록은 첫 항목만 사용
+    const item = line.match(/^\s+-\s+(.+)$/);
+    if (listKey && item && !fields.get(listKey)) {
+      fields.set(listKey, unquote(item[1]));
+    }
+  });
+  const first = (...keys: string[]) => keys.map(key => fields.get(key)).find(value => value) || null;
+
+  return {
+    language: normalizeLanguage(first('lang', 'language', 'locale')),
+    author: cleanAuthor(first('author', 'authors', 'creator')),
+    publishedAt: parseDate(first('date', 'published', 'publishdate', 'pubdate', 'created')),
+    modifiedAt: parseDate(first('lastmod', 'last_modified', 'updated', 'modified', 'last_update'))
+  };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+}
+
+// "ko-KR", "en_US" → "ko", "en" (언어 코드가 아니면 null)
+export function normalizeLanguage(value: string | null | undefined): string | null {
+  const primary = (value || '').trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) ? primary : null;
+}
+
+export function parseDate(value: string | null | undefined): Date | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// 문자 체계 비율로 추정한 언어 (라틴 문자는 영어 기능어가 충분히 있을 때만 "en", 판단할 수 없으면 null)
+export function guessLanguage(text: string): string | null {
+  const count = (pattern: RegExp) => (text.match(pattern) || []).length;
+  const hangul = count(/[가-힯]/g);
+  const kana = count(/[぀-ヿ]/g);
+  const han = count(/[㐀-䶿一-鿿]/g);
+  const cyrillic = count(/[Ѐ-ӿ]/g);
+  const latin = count(/[A-Za-z]/g);
+  const total = hangul + kana + han + cyrillic + latin;
+  if (total < 20) {
+    return null;
+  }
+
+  if (hangul / total >= 0.3) {
+    return 'ko';
+  }
+  if (kana / total >= 0.1) {
+    return 'ja';
+  }
+  if (han / total >= 0.3) {
+    return 'zh';
+  }
+  if (cyrillic / total >= 0.5) {
+    return 'ru';
+  }
+
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  const english = words.filter(word => ENGLISH_FUNCTION_WORDS.has(word)).length;
+  return words.length > 0 && english / words.length >= 0.08 ? 'en' : null;
+}
+
+// 단어 수 (한중일 문자는 한자/가나 한 글자, 한글은 어절 단위, 기호만 있는 토큰은 제외)
+export function countWords(text: string): number {
+  return (text.match(/[぀-ヿ㐀-䶿一-鿿]|[A-Za-z0-9À-ɏЀ-ӿ가-힯]+(?:['’.-][A-Za-z0-9À-ɏЀ-ӿ가-힯]+)*/g) || []).length;
+}
@@ -0,0 +1,136 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { unzipSync, strFromU8 } from 'fflate';
+import { renderMarkdownTable } from './tables';
+import { DocumentMetadata, emptyDocumentMetadata, normalizeLanguage, parseDate } from './document-metadata';
+
+export type UploadKind = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface ParsedDocument {
+  title: string | null;
+  // 제목/목록/표 구조를 유지한 Markdown
+  text: string;
+  metadata: DocumentMetadata;
+}
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// 파일 내용(매직 바이트)을 우선으로 형식 판별, 텍스트 파일만 확장자/선언된 MIME으로 세분화
+export function sniffDocumentType(buffer: Buffer, filename: string, declaredMime: string = ''): UploadKind | null {
+  const extension = ((filename.match(/\.(\w+)$/) || [])[1] || '').toLowerCase();
+
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'pdf';
+  }
+  if (buffer.subarray(0, 4).toString('latin1') === 'PK\u0003\u0004') {
+    // DOCX는 word/document.xml을 포함한 zip
+    return buffer.includes('word/document.xml') || declaredMime === DOCX_MIME ? 'docx' : null;
+  }
+  if (!isProbablyText(buffer)) {
+    return null;
+  }
+
+  const head = buffer.subarray(0, 2048).toString('utf-8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (/^(<!doctype html|<html[\s>]|<head[\s>]|<body[\s>])/.test(head) || ['html', 'htm'].includes(extension)) {
+    return 'html';
+  }
+  if (['md', 'markdown', 'mdx'].includes(extension) || declaredMime === 'text/markdown') {
+    return 'markdown';
+  }
+  return 'text';
+}
+
+// NUL 바이트가 없고 UTF-8로 디코딩했을 때 깨진 문자가 거의 없으면 텍스트로 판단
+function isProbablyText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  const decoded = sample.toString('utf-8');
+  const invalid = (decoded.match(/\uFFFD/g) || []).length;
+  return invalid <= Math.max(1, decoded.length / 1000);
+}
+
+// DOCX 본문(word/document.xml)을 Markdown으로 변환, 제목/작성자/작성일/수정일은 문서 속성(docProps/core.xml)에서 가져옴
+export function parseDocx(buffer: Buffer): ParsedDocument {
+  const files = unzipSync(new Uint8Array(buffer), {
+    filter: file => file.name === 'word/document.xml' || file.name === 'docProps/core.xml'
+  });
+  if (!files['word/document.xml']) {
+    throw new Error('DOCX 본문(word/document.xml)을 찾을 수 없습니다');
+  }
+
+  const $ = cheerio.load(strFromU8(files['word/document.xml']), { xml: true });
+  const blocks: string[] = [];
+
+  $('w\\:body').children().each((_, element) => {
+    if (element.tagName === 'w:p') {
+      const paragraph = renderDocxParagraph($, element);
+      if (paragraph) {
+        blocks.push(paragraph);
+      }
+    } else if (element.tagName === 'w:tbl') {
+      blocks.push(renderDocxTable($, element));
+    }
+  });
+
+  let title: string | null = null;
+  let metadata = emptyDocumentMetadata();
+  if (files['docProps/core.xml']) {
+    const core = cheerio.load(strFromU8(files['docProps/core.xml']), { xml: true });
+    const property = (name: string) => core(name).first().text().trim() || null;
+    title = property('dc\\:title');
+    metadata = {
+      language: normalizeLanguage(property('dc\\:language')),
+      author: property('dc\\:creator'),
+      publishedAt: parseDate(property('dcterms\\:created')),
+      modifiedAt: parseDate(property('dcterms\\:modified'))
+    };
+  }
+
+  return { title, text: blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim(), metadata };
+}
+
+function renderDocxParagraph($: cheerio.CheerioAPI, element: Element): string {
+  const $paragraph = $(element);
+  const text = docxRunText($, element).trim();
+  if (!text) {
+    return '';
+  }
+
+  const style = $paragraph.find('w\\:pStyle').attr('w:val') || '';
+  const heading = style.match(/^(?:Heading|제목)\s*(\d)$/i);
+  if (heading) {
+    return `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text}`;
+  }
+  if (/^Title$/i.test(style)) {
+    return `# ${text}`;
+  }
+
+  // 번호/글머리 목록 (numPr의 ilvl로 들여쓰기)
+  const numbering = $paragraph.find('w\\:numPr');
+  if (numbering.length > 0 || /^List/i.test(style)) {
+    const level = parseInt(numbering.find('w\\:ilvl').attr('w:val') || '0', 10);
+    return `${'  '.repeat(level)}- ${text}`;
+  }
+  return text;
+}
+
+function docxRunText($: cheerio.CheerioAPI, element: Element): string {
+  let text = '';
+  $(element).find('w\\:t, w\\:tab, w\\:br').each((_, node) => {
+    if (node.tagName === 'w:t') {
+      text += $(node).text();
+    } else if (node.tagName === 'w:tab') {
+      text += '\t';
+    } else {
+      text += '\n';
+    }
+  });
+  return text;
+}
+
+function renderDocxTable($: cheerio.CheerioAPI, element: Element): string {
+  return renderMarkdownTable($(element).children('w\\:tr').toArray()
+    .map(row => $(row).children('w\\:tc').toArray().map(cell => docxRunText($, cell))));
+}
@@ -0,0 +1,132 @@
+import { Controller, Get, Post, Delete, Body, Query, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty, ApiQuery } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+import { DocumentService, DocumentList, DocumentDetail, DocumentReingestResult } from './document.service';
+import { DOCUMENT_SOURCE_TYPES, DocumentSourceType } from './document-metadata';
+
+export class ReingestDocumentRequest {
+  @ApiProperty({ description: 'URL of the stored document', example: 'https://docs.example.com/guide/install' })
+  @IsString()
+  url: string;
+}
+
+@ApiTags('crawling')
+@Controller('crawling/documents')
+export class DocumentController {
+  constructor(private readonly documentService: DocumentService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List indexed documents',
+    description: 'One entry per document URL with chunk and embedding counts, most recently ingested first. Metadata filters only match documents crawled since metadata was recorded.'
+  })
+  @ApiQuery({ name: 'sourceType', required: false, description: `Comma-separated source types (${DOCUMENT_SOURCE_TYPES.join(', ')})` })
+  @ApiQuery({ name: 'language', required: false, description: 'ISO 639-1 language code', example: 'ko' })
+  @ApiQuery({ name: 'author', required: false, description: 'Author name (partial, case-insensitive)' })
+  @ApiQuery({ name: 'urlPrefix', required: false, description: 'Only documents whose URL starts with this prefix' })
+  @ApiQuery({ name: 'publishedAfter', required: false, description: 'ISO 8601 date' })
+  @ApiQuery({ name: 'publishedBefore', required: false, description: 'ISO 8601 date' })
+  @ApiQuery({ name: 'modifiedAfter', required: false, description: 'ISO 8601 date (falls back to the published date)' })
+  @ApiQuery({ name: 'modifiedBefore', required: false, description: 'ISO 8601 date (falls back to the published date)' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number (default: 1)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Documents per page (default: 20, max: 200)' })
+  @ApiResponse({ status: 200, description: 'Page of documents', type: DocumentList })
+  async listDocuments(
+    @Query('sourceType') sourceType?: string,
+    @Query('language') language?: string,
+    @Query('author') author?: string,
+    @Query('urlPrefix') urlPrefix?: string,
+    @Query('publishedAfter') publishedAfter?: string,
+    @Query('publishedBefore') publishedBefore?: string,
+    @Query('modifiedAfter') modifiedAfter?: string,
+    @Query('modifiedBefore') modifiedBefore?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string
+  ): Promise<DocumentList> {
+    const sourceTypes = sourceType ? sourceType.split(',').map(type => type.trim()).filter(type => type) : undefined;
+    const unknownType = (sourceTypes || []).find(type => !DOCUMENT_SOURCE_TYPES.includes(type as DocumentSourceType));
+    if (unknownType) {
+      throw new BadRequestException(`Unknown source type: ${unknownType}`);
+    }
+
+    const toDate = (name: string, value?: string) => {
+      if (!value) {
+        return undefined;
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(`${name} must be an ISO 8601 date`);
+      }
+      return date;
+    };
+
+    const pageNum = Math.max(1, parseInt(page || '1', 10) || 1);
+    const limitNum = Math.min(200, Math.max(1, parseInt(limit || '20', 10) || 20));
+    return this.documentService.list({
+      sourceTypes,
+      language: language ? language.toLowerCase() : undefined,
+      author: author || undefined,
+      urlPrefix: urlPrefix || undefined,
+      publishedAfter: toDate('publishedAfter', publishedAfter),
+      publishedBefore: toDate('publishedBefore', publishedBefore),
+      modifiedAfter: toDate('modifiedAfter', modifiedAfter),
+      modifiedBefore: toDate('modifiedBefore', modifiedBefore)
+    }, pageNum, limitNum);
+  }
+
+  @Get('detail')
+  @ApiOperation({ summary: 'Get a document with all of its chunks in order and their embedding status' })
+  @ApiQuery({ name: 'url', required: true, description: 'Document URL' })
+  @ApiResponse({ status: 200, description: 'Document detail', type: DocumentDetail })
+  @ApiResponse({ status: 404, description: 'No chunks stored for the URL' })
+  async getDocument(@Query('url') url: string): Promise<DocumentDetail> {
+    if (!url) {
+      throw new BadRequestException('url is required');
+    }
+    const detail = await this.documentService.getDetail(url);
+    if (!detail) {
+      throw new NotFoundException(`Document not found: ${url}`);
+    }
+    return detail;
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Delete a document with all of its chunks, metadata and crawl state' })
+  @ApiQuery({ name: 'url', required: true, description: 'Document URL' })
+  @ApiResponse({ status: 200, description: 'Document deleted' })
+  @ApiResponse({ status: 404, description: 'No chunks stored for the URL' })
+  async deleteDocument(@Query('url') url: string): Promise<{ url: string; removedChunks: number; timestamp: Date }> {
+    if (!url) {
+      throw new BadRequestException('url is required');
+    }
+    const removed = await this.documentService.remove(url);
+    if (!removed) {
+      throw new NotFoundException(`Document not found: ${url}`);
+    }
+    return {
+      ...removed,
+      timestamp: new Date()
+    };
+  }
+
+  @Post('reingest')
+  @ApiOperation({
+    summary: 'Re-ingest a single document from its source',
+    description: 'Fetches the document URL again (web page, PDF, Markdown file or GitHub file) and updates its chunks; unchanged chunks keep their embeddings. Uploaded files, Notion/Confluence imports and GitHub issues, pull requests and discussions cannot be fetched individually.'
+  })
+  @ApiBody({ type: ReingestDocumentRequest })
+  @ApiResponse({ status: 201, description: 'Document re-ingested', type: DocumentReingestResult })
+  @ApiResponse({ status: 400, description: 'The document has no source that can be fetched again' })
+  @ApiResponse({ status: 404, description: 'No chunks stored for the URL' })
+  async reingestDocument(@Body() request: ReingestDocumentRequest): Promise<DocumentReingestResult> {
+    const overview = await this.documentService.find(request.url);
+    if (!overview) {
+      throw new NotFoundException(`Document not found: ${request.url}`);
+    }
+    const blockedReason = this.documentService.reingestBlocker(overview);
+    if (blockedReason) {
+      throw new BadRequestException(blockedReason);
+    }
+    return this.documentService.reingest(request.url);
+  }
+}
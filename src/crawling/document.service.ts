@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { DatabaseService, DocumentFilter, DocumentOverview, DocumentChunk } from '../services/database.service';
+import { CrawlingService, AdvancedCrawlResult } from './crawling.service';
+import { IngestionService } from './ingestion.service';
+import { DOCUMENT_SOURCE_TYPES } from './document-metadata';
+
+export class DocumentMetadataInfo {
+  @ApiProperty({ description: 'Where the document came from', enum: DOCUMENT_SOURCE_TYPES, example: 'website' })
+  sourceType: string;
+
+  @ApiProperty({ description: 'ISO 639-1 code from the page, file properties or detected from the text', example: 'ko', nullable: true })
+  language: string | null;
+
+  @ApiProperty({ example: 'Jane Doe', nullable: true })
+  author: string | null;
+
+  @ApiProperty({ example: '2024-03-01T00:00:00.000Z', nullable: true })
+  publishedAt: Date | null;
+
+  @ApiProperty({ example: '2024-05-20T00:00:00.000Z', nullable: true })
+  modifiedAt: Date | null;
+
+  @ApiProperty({ example: 'https://docs.example.com/guide/install', nullable: true })
+  canonicalUrl: string | null;
+
+  @ApiProperty({ description: 'SHA-256 of the normalized document text' })
+  contentHash: string;
+
+  @ApiProperty({ example: 1840 })
+  wordCount: number;
+
+  @ApiProperty({ description: 'When the metadata was last recorded' })
+  updatedAt: Date;
+}
+
+export class DocumentListItem {
+  @ApiProperty({ description: 'Document URL (or upload:// / confluence:// document ID)', example: 'https://docs.example.com/guide/install' })
+  url: string;
+
+  @ApiProperty({ example: 'Installation Guide' })
+  title: string;
+
+  @ApiProperty({ description: 'Number of stored chunks', example: 12 })
+  chunkCount: number;
+
+  @ApiProperty({ description: 'Chunks with a stored embedding', example: 12 })
+  embeddedChunks: number;
+
+  @ApiProperty({ description: 'Chunks linked to a near-duplicate chunk of another document', example: 1 })
+  linkedChunks: number;
+
+  @ApiProperty({ description: 'When the oldest stored chunk was created' })
+  firstIngestedAt: Date;
+
+  @ApiProperty({ description: 'When the newest stored chunk was created' })
+  lastIngestedAt: Date;
+
+  @ApiProperty({
+    description: 'Document metadata (null for documents not re-crawled since metadata was introduced)',
+    type: DocumentMetadataInfo,
+    nullable: true
+  })
+  document: DocumentMetadataInfo | null;
+}
+
+export class DocumentList {
+  @ApiProperty({ type: [DocumentListItem] })
+  documents: DocumentListItem[];
+
+  @ApiProperty({ description: 'Number of documents matching the filters', example: 342 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+}
+
+export class DocumentChunkInfo {
+  @ApiProperty({ description: 'Chunk ID', example: 1042 })
+  id: number;
+
+  @ApiProperty({ description: 'Position of the chunk in the document', example: 0, nullable: true })
+  chunkIndex: number | null;
+
+  @ApiProperty({ description: 'Order of the page within the crawl that stored it', example: 3, nullable: true })
+  pageIndex: number | null;
+
+  @ApiProperty({ example: 'To install the CLI, run npm install -g ...' })
+  content: string;
+
+  @ApiProperty({ nullable: true })
+  contentHash: string | null;
+
+  @ApiProperty({ description: 'Chunk metadata (file path, line range, PDF page, section, ...)', type: 'object', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @ApiProperty({
+    description: 'embedded: own embedding, linked: embedding reused from a near-duplicate chunk, missing: no embedding stored',
+    enum: ['embedded', 'linked', 'missing'],
+    example: 'embedded'
+  })
+  embeddingStatus: 'embedded' | 'linked' | 'missing';
+
+  @ApiProperty({ description: 'Canonical chunk this chunk was linked to at ingest time', example: null, nullable: true })
+  duplicateOf: number | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class DocumentDetail extends DocumentListItem {
+  @ApiProperty({ description: 'Whether the document can be fetched again from its source URL', example: true })
+  reingestable: boolean;
+
+  @ApiProperty({ description: 'Why the document cannot be re-ingested', example: null, nullable: true })
+  reingestBlockedReason: string | null;
+
+  @ApiProperty({ description: 'All chunks in document order', type: [DocumentChunkInfo] })
+  chunks: DocumentChunkInfo[];
+}
+
+export class DocumentReingestResult {
+  @ApiProperty({ example: 'https://docs.example.com/guide/install' })
+  url: string;
+
+  @ApiProperty({ description: 'Result of processing the source again', type: AdvancedCrawlResult })
+  result: AdvancedCrawlResult;
+
+  @ApiProperty({ description: 'The document after re-ingestion (null if the source no longer exists)', type: DocumentListItem, nullable: true })
+  document: DocumentListItem | null;
+}
+
+@Injectable()
+export class DocumentService {
+  private readonly logger = new Logger(DocumentService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly crawlingService: CrawlingService,
+    private readonly ingestionService: IngestionService
+  ) {}
+
+  async list(filter: DocumentFilter, page: number, limit: number): Promise<DocumentList> {
+    const { documents, total } = await this.databaseService.listDocuments(filter, limit, (page - 1) * limit);
+    return { documents, total, page, limit };
+  }
+
+  find(url: string): Promise<DocumentOverview | null> {
+    return this.databaseService.getDocumentOverview(url);
+  }
+
+  async getDetail(url: string): Promise<DocumentDetail | null> {
+    const overview = await this.databaseService.getDocumentOverview(url);
+    if (!overview) {
+      return null;
+    }
+
+    const chunks = await this.databaseService.getDocumentChunks(url);
+    const blockedReason = this.reingestBlocker(overview);
+    return {
+      ...overview,
+      reingestable: blockedReason === null,
+      reingestBlockedReason: blockedReason,
+      chunks: chunks.map(chunk => this.toChunkInfo(chunk))
+    };
+  }
+
+  // 문서의 청크, 메타데이터, 페이지 상태 삭제 (없는 문서면 null)
+  async remove(url: string): Promise<{ url: string; removedChunks: number } | null> {
+    const overview = await this.databaseService.getDocumentOverview(url);
+    if (!overview) {
+      return null;
+    }
+
+    const stats = this.ingestionService.createChangeStats();
+    await this.ingestionService.removeDocuments([url], stats);
+    await this.databaseService.deletePageStatesForDocument(url);
+    this.logger.log(`문서 삭제: ${url} (${stats.chunksRemoved}개 청크)`);
+    return { url, removedChunks: stats.chunksRemoved };
+  }
+
+  // 원본 URL에서 문서 하나만 다시 가져와 청크/임베딩 갱신 (변경되지 않은 청크의 임베딩은 재사용)
+  async reingest(url: string): Promise<DocumentReingestResult | null> {
+    const overview = await this.databaseService.getDocumentOverview(url);
+    if (!overview) {
+      return null;
+    }
+    const blockedReason = this.reingestBlocker(overview);
+    if (blockedReason) {
+      throw new Error(blockedReason);
+    }
+
+    // 이전 페이지 상태(ETag, Git blob SHA)가 있으면 변경 없음으로 건너뛰므로 먼저 삭제
+    await this.databaseService.deletePageStatesForDocument(url);
+    this.logger.log(`문서 다시 수집: ${url}`);
+
+    const sourceType = overview.document ? overview.document.sourceType : null;
+    let result: AdvancedCrawlResult;
+    if (sourceType === 'pdf') {
+      result = await this.crawlingService.processPdf(url);
+    } else if (sourceType === 'markdown') {
+      result = await this.crawlingService.processMarkdown(url);
+    } else {
+      result = await this.crawlingService.crawlContent(url, 1, { depth: 1 });
+    }
+
+    return {
+      url,
+      result,
+      document: await this.databaseService.getDocumentOverview(url)
+    };
+  }
+
+  // 원본을 다시 가져올 수 없는 문서의 사유 (가능하면 null)
+  reingestBlocker(overview: DocumentOverview): string | null {
+    const sourceType = overview.document ? overview.document.sourceType : null;
+    if (!/^https?:\/\//i.test(overview.url)) {
+      return 'Uploaded and imported documents have no source URL; upload or import the file again';
+    }
+    if (sourceType === 'notion' || sourceType === 'confluence' || /^https:\/\/www\.notion\.so\//.test(overview.url)) {
+      return 'Documents imported from a Notion or Confluence export can only be updated by importing the export again';
+    }
+    if (this.crawlingService.detectUrlType(overview.url) === 'github' && !/github\.com\/[^\/?#]+\/[^\/?#]+\/blob\//.test(overview.url)) {
+      return 'GitHub repository descriptions, issues, pull requests and discussions are re-ingested by processing the repository';
+    }
+    return null;
+  }
+
+  private toChunkInfo(chunk: DocumentChunk): DocumentChunkInfo {
+    return {
+      id: chunk.id,
+      chunkIndex: chunk.chunkIndex,
+      pageIndex: chunk.pageIndex,
+      content: chunk.content,
+      contentHash: chunk.contentHash,
+      metadata: chunk.metadata,
+      embeddingStatus: !chunk.embedded ? 'missing' : chunk.duplicateOf !== null ? 'linked' : 'embedded',
+      duplicateOf: chunk.duplicateOf,
+      createdAt: chunk.createdAt
+    };
+  }
+}
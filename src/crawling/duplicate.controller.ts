@@ -0,0 +1,62 @@
+import { Controller, Get, Post, Body, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProperty, ApiQuery } from '@nestjs/swagger';
+import { IsOptional, IsNumber, IsArray, Min, Max } from 'class-validator';
+import { DuplicateService, DuplicateCluster } from './duplicate.service';
+import { SIMHASH_BANDS } from './simhash';
+
+export class RemoveDuplicatesRequest {
+  @ApiProperty({
+    description: 'Canonical chunk IDs of the clusters to clean up; all clusters when omitted',
+    example: [1042, 2210],
+    required: false
+  })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  canonicalIds?: number[];
+
+  @ApiProperty({ description: 'Maximum SimHash Hamming distance between near-duplicates', example: 6, required: false, minimum: 0, maximum: SIMHASH_BANDS - 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(SIMHASH_BANDS - 1)
+  maxDistance?: number;
+}
+
+@ApiTags('crawling')
+@Controller('crawling/duplicates')
+export class DuplicateController {
+  constructor(private readonly duplicateService: DuplicateService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List near-duplicate chunk clusters',
+    description: 'Groups crawled chunks from different documents whose SimHash fingerprints are within the Hamming distance. Fingerprints missing on older chunks are computed first.'
+  })
+  @ApiQuery({ name: 'maxDistance', required: false, description: `Maximum Hamming distance (default from config, max ${SIMHASH_BANDS - 1})` })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of clusters to return (default: 50, max: 500)' })
+  @ApiResponse({ status: 200, description: 'Duplicate clusters, largest first', type: [DuplicateCluster] })
+  async getClusters(
+    @Query('maxDistance') maxDistance?: string,
+    @Query('limit') limit?: string
+  ): Promise<{ clusters: DuplicateCluster[]; total: number; duplicateChunks: number }> {
+    const limitNum = Math.min(500, Math.max(1, parseInt(limit || '50', 10) || 50));
+    const clusters = await this.duplicateService.findClusters(maxDistance ? parseInt(maxDistance, 10) : undefined);
+    return {
+      clusters: clusters.slice(0, limitNum),
+      total: clusters.length,
+      duplicateChunks: clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0)
+    };
+  }
+
+  @Post('remove')
+  @ApiOperation({ summary: 'Remove near-duplicate chunks, keeping the canonical chunk of each cluster' })
+  @ApiBody({ type: RemoveDuplicatesRequest })
+  async removeDuplicates(@Body() request: RemoveDuplicatesRequest): Promise<{ clusters: number; removedChunks: number; timestamp: Date }> {
+    const result = await this.duplicateService.removeDuplicates(request.canonicalIds || null, request.maxDistance);
+    return {
+      ...result,
+      timestamp: new Date()
+    };
+  }
+}
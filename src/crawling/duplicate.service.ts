@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { DatabaseService, ChunkFingerprint } from '../services/database.service';
+import { computeSimHash, simHashWords, popcount, SIMHASH_BANDS } from './simhash';
+import { crawlerConfig } from '../config/crawler.config';
+
+export class DuplicateChunk {
+  @ApiProperty({ description: 'Chunk ID', example: 1042 })
+  id: number;
+
+  @ApiProperty({ description: 'Document URL', example: 'https://docs.example.com/v2/install' })
+  url: string;
+
+  @ApiProperty({ description: 'Document title', example: 'Installation' })
+  title: string;
+
+  @ApiProperty({ description: 'Beginning of the chunk content', example: 'To install the CLI, run npm install -g ...' })
+  preview: string;
+
+  @ApiProperty({ description: 'SimHash Hamming distance to the canonical chunk (0-64)', example: 2 })
+  distance: number;
+
+  @ApiProperty({ description: 'Whether the chunk was linked to the canonical chunk at ingest time', example: true })
+  linked: boolean;
+}
+
+export class DuplicateCluster {
+  @ApiProperty({ description: 'Chunk kept when duplicates are removed (the earliest stored chunk)', type: DuplicateChunk })
+  canonical: DuplicateChunk;
+
+  @ApiProperty({ description: 'Near-duplicate chunks from other documents', type: [DuplicateChunk] })
+  duplicates: DuplicateChunk[];
+}
+
+const BACKFILL_BATCH_SIZE = 500;
+
+@Injectable()
+export class DuplicateService {
+  private readonly logger = new Logger(DuplicateService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  // 다른 문서 간 유사 중복 청크 묶음 (크기 내림차순)
+  async findClusters(maxDistance: number = crawlerConfig.dedup.maxDistance): Promise<DuplicateCluster[]> {
+    await this.backfillSimHashes();
+    const fingerprints = await this.databaseService.getChunkFingerprints();
+    const distance = Math.min(maxDistance, SIMHASH_BANDS - 1);
+
+    const byId = new Map<number, number>();
+    fingerprints.forEach((fingerprint, index) => byId.set(fingerprint.id, index));
+    const words = fingerprints.map(fingerprint => simHashWords(fingerprint.simhash));
+    const parent = fingerprints.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) {
+        parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+      }
+    };
+
+    // 수집 시 연결된 청크는 거리와 관계없이 같은 묶음
+    fingerprints.forEach((fingerprint, index) => {
+      if (fingerprint.duplicate_of !== null && byId.has(fingerprint.duplicate_of)) {
+        union(index, byId.get(fingerprint.duplicate_of));
+      }
+    });
+
+    // 밴드가 같은 청크끼리만 비교
+    const width = 16 / SIMHASH_BANDS;
+    for (let band = 0; band < SIMHASH_BANDS; band++) {
+      const buckets = new Map<string, number[]>();
+      fingerprints.forEach((fingerprint, index) => {
+        const key = fingerprint.simhash.substr(band * width, width);
+        if (!buckets.has(key)) {
+          buckets.set(key, []);
+        }
+        buckets.get(key).push(index);
+      });
+      buckets.forEach(members => {
+        for (let i = 0; i < members.length; i++) {
+          for (let j = i + 1; j < members.length; j++) {
+            const a = members[i];
+            const b = members[j];
+            if (fingerprints[a].url !== fingerprints[b].url && this.distanceOf(words[a], words[b]) <= distance) {
+              union(a, b);
+            }
+          }
+        }
+      });
+    }
+
+    const groups = new Map<number, number[]>();
+    fingerprints.forEach((_, index) => {
+      const root = find(index);
+      if (!groups.has(root)) {
+        groups.set(root, []);
+      }
+      groups.get(root).push(index);
+    });
+
+    const clusters: DuplicateCluster[] = [];
+    groups.forEach((members, root) => {
+      // 루트는 묶음에서 가장 먼저 저장된(id가 가장 작은) 청크, 같은 문서 안의 반복 청크는 중복으로 보지 않음
+      const canonical = fingerprints[root];
+      const duplicates = members.filter(index => fingerprints[index].url !== canonical.url);
+      if (duplicates.length === 0) {
+        return;
+      }
+      clusters.push({
+        canonical: this.toDuplicateChunk(canonical, 0),
+        duplicates: duplicates.map(index => this.toDuplicateChunk(fingerprints[index], this.distanceOf(words[root], words[index])))
+      });
+    });
+
+    return clusters.sort((a, b) => b.duplicates.length - a.duplicates.length || a.canonical.id - b.canonical.id);
+  }
+
+  // 묶음마다 원본 청크만 남기고 삭제 (canonicalIds가 없으면 모든 묶음)
+  async removeDuplicates(canonicalIds: number[] | null, maxDistance?: number): Promise<{ clusters: number; removedChunks: number }> {
+    const clusters = (await this.findClusters(maxDistance))
+      .filter(cluster => !canonicalIds || canonicalIds.includes(cluster.canonical.id));
+    const ids = clusters.reduce((result, cluster) => result.concat(cluster.duplicates.map(chunk => chunk.id)), [] as number[]);
+
+    const removedChunks = await this.databaseService.deleteByIds(ids);
+    this.logger.log(`유사 중복 청크 삭제: ${clusters.length}개 묶음, ${removedChunks}개 청크`);
+    return { clusters: clusters.length, removedChunks };
+  }
+
+  // 기능 추가 전에 저장된 청크의 SimHash 계산
+  private async backfillSimHashes(): Promise<void> {
+    let total = 0;
+    while (true) {
+      const chunks = await this.databaseService.getChunksWithoutSimHash(BACKFILL_BATCH_SIZE);
+      if (chunks.length === 0) {
+        break;
+      }
+      await this.databaseService.updateSimHashes(chunks.map(chunk => ({ id: chunk.id, simhash: computeSimHash(chunk.content) || '' })));
+      total += chunks.length;
+    }
+    if (total > 0) {
+      this.logger.log(`기존 청크 ${total}개의 SimHash 계산 완료`);
+    }
+  }
+
+  private distanceOf(a: [number, number], b: [number, number]): number {
+    return popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1]);
+  }
+
+  private toDuplicateChunk(fingerprint: ChunkFingerprint, distance: number): DuplicateChunk {
+    return {
+      id: fingerprint.id,
+      url: fingerprint.url,
+      title: fingerprint.title,
+      preview: fingerprint.preview,
+      distance,
+      linked: fingerprint.duplicate_of !== null
+    };
+  }
+}
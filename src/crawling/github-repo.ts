@@ -0,0 +1,190 @@
+import { Octokit } from '@octokit/rest';
+import { GitHubThreadState } from './github-threads';
+import { crawlerConfig } from '../config/crawler.config';
+
+export interface GitHubRepoOptions {
+  // 브랜치, 태그 또는 커밋 SHA (기본: URL의 /tree/<ref>, 없으면 기본 브랜치)
+  ref?: string;
+  // 저장소 루트 기준 경로 glob (`**`, `*`, `?`), `/`가 없는 패턴은 파일 이름에 대해 검사
+  includePaths?: string[];
+  excludePaths?: string[];
+  // 처리할 최대 파일 수
+  maxFiles?: number;
+  // 이보다 큰 파일은 건너뜀
+  maxFileBytes?: number;
+  // 이슈/PR/토론 수집 여부 (URL이 /issues, /pulls, /discussions면 해당 항목만 수집)
+  issues?: boolean;
+  pullRequests?: boolean;
+  discussions?: boolean;
+  // 이슈/PR/토론 필터: 상태, 라벨(모두 일치), 갱신 시각 범위(ISO 8601)
+  threadState?: GitHubThreadState;
+  labels?: string[];
+  // 없으면 마지막 수집 시각 이후 갱신된 항목만 수집
+  since?: string;
+  until?: string;
+  maxThreads?: number;
+}
+
+export interface GitHubTarget {
+  owner: string;
+  repo: string;
+  ref: string | null;
+  // URL이 /tree/<ref>/<path> 형식이면 이 경로 아래만 수집
+  path: string | null;
+  // URL이 /blob/<ref>/<path> 형식이면 해당 파일 하나만 수집
+  file: boolean;
+  // URL이 /issues, /pulls, /discussions면 파일 대신 해당 항목만 수집
+  section: 'issues' | 'pulls' | 'discussions' | null;
+}
+
+export interface GitHubFileEntry {
+  path: string;
+  sha: string;
+  size: number;
+}
+
+// 기본 수집 대상 (문서와 주요 언어 소스 파일)
+export const DEFAULT_GITHUB_INCLUDE_PATHS = [
+  '*.md', '*.mdx', '*.rst', '*.txt', '*.py', '*.js', '*.jsx', '*.mjs', '*.ts', '*.tsx', '*.java', '*.kt', '*.scala', '*.cs',
+  '*.go', '*.rs', '*.c', '*.h', '*.cpp', '*.cc', '*.hpp', '*.rb', '*.php', 'README*', 'CHANGELOG*', 'LICENSE*'
+];
+
+// 기본 제외 대상 (의존성, 빌드 결과물, 잠금 파일, 압축된 번들)
+export const DEFAULT_GITHUB_EXCLUDE_PATHS = [
+  '**/node_modules/**', '**/vendor/**', '**/dist/**', '**/build/**', '**/.git/**', '*.min.js', '*.lock', 'package-lock.json'
+];
+
+export function createOctokit(): Octokit {
+  return new Octokit({
+    auth: crawlerConfig.github.token || undefined,
+    userAgent: crawlerConfig.userAgent
+  });
+}
+
+// github.com/<owner>/<repo>[/tree|blob/<ref>/<path> | /issues | /pulls | /discussions] 형식 파싱
+export function parseGitHubUrl(url: string): GitHubTarget {
+  const match = url.match(/github\.com\/([^\/?#]+)\/([^\/?#]+)(?:\/(tree|blob)\/([^\/?#]+)(?:\/([^?#]*))?)?/);
+  if (!match) {
+    throw new Error('유효하지 않은 GitHub URL입니다');
+  }
+  const section = url.match(/github\.com\/[^\/?#]+\/[^\/?#]+\/(issues|pulls|discussions)\/?(?:[?#]|$)/);
+  const path = match[5] ? decodeURIComponent(match[5]).replace(/\/+$/, '') || null : null;
+  return {
+    owner: match[1],
+    repo: match[2].replace(/\.git$/, ''),
+    ref: match[4] ? decodeURIComponent(match[4]) : null,
+    path,
+    file: match[3] === 'blob' && path !== null,
+    section: section ? (section[1] as GitHubTarget['section']) : null
+  };
+}
+
+// 경로 glob을 정규식으로 변환 (`**`는 디렉터리 경계를 넘고 `*`는 넘지 않음)
+export function compilePathGlob(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\/+/, '') : `**/${glob}`;
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      if (pattern[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+// 경로 범위와 include/exclude glob으로 수집할 파일 판별
+export class GitHubPathFilter {
+  private readonly includes: RegExp[];
+  private readonly excludes: RegExp[];
+  private readonly pathPrefix: string | null;
+  // 파일 하나만 지정한 경우 (include/exclude glob과 무관하게 해당 파일만 수집)
+  private readonly filePath: string | null;
+
+  constructor(options: GitHubRepoOptions, pathPrefix: string | null, singleFile: boolean = false) {
+    const includePaths = options.includePaths && options.includePaths.length > 0 ? options.includePaths : DEFAULT_GITHUB_INCLUDE_PATHS;
+    this.includes = includePaths.map(compilePathGlob);
+    this.excludes = [...DEFAULT_GITHUB_EXCLUDE_PATHS, ...(options.excludePaths || [])].map(compilePathGlob);
+    this.filePath = singleFile ? pathPrefix : null;
+    this.pathPrefix = pathPrefix && !singleFile ? `${pathPrefix}/` : null;
+  }
+
+  matchesFile(path: string): boolean {
+    if (this.filePath) {
+      return path === this.filePath;
+    }
+    if (this.pathPrefix && !path.startsWith(this.pathPrefix)) {
+      return false;
+    }
+    return !this.excludes.some(regex => regex.test(path)) && this.includes.some(regex => regex.test(path));
+  }
+
+  // 트리를 나눠 가져올 때 제외된 디렉터리와 경로 범위 밖 디렉터리는 내려가지 않음
+  matchesDirectory(path: string): boolean {
+    const directory = `${path}/`;
+    if (this.filePath) {
+      return this.filePath.startsWith(directory);
+    }
+    if (this.pathPrefix && !directory.startsWith(this.pathPrefix) && !this.pathPrefix.startsWith(directory)) {
+      return false;
+    }
+    return !this.excludes.some(regex => regex.test(directory));
+  }
+}
+
+// 저장소 파일 목록 조회, 재귀 조회 결과가 잘리면(truncated) 디렉터리 단위로 나눠서 다시 가져옴
+export async function listRepoFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  filter: GitHubPathFilter
+): Promise<GitHubFileEntry[]> {
+  const recursive = await octokit.rest.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+  if (!recursive.data.truncated) {
+    return sortFiles(recursive.data.tree
+      .filter(item => item.type === 'blob' && item.path && filter.matchesFile(item.path))
+      .map(item => ({ path: item.path, sha: item.sha, size: item.size || 0 })));
+  }
+
+  const files: GitHubFileEntry[] = [];
+  const pending: { sha: string; prefix: string }[] = [{ sha: ref, prefix: '' }];
+  while (pending.length > 0) {
+    const { sha, prefix } = pending.shift();
+    const tree = await octokit.rest.git.getTree({ owner, repo, tree_sha: sha });
+
+    tree.data.tree.forEach(item => {
+      const path = `${prefix}${item.path}`;
+      if (item.type === 'tree' && filter.matchesDirectory(path)) {
+        pending.push({ sha: item.sha, prefix: `${path}/` });
+      } else if (item.type === 'blob' && filter.matchesFile(path)) {
+        files.push({ path, sha: item.sha, size: item.size || 0 });
+      }
+    });
+  }
+
+  return sortFiles(files);
+}
+
+// 파일 수 제한에 걸릴 때 상위 디렉터리 문서(README 등)가 먼저 포함되도록 얕은 경로부터 정렬
+function sortFiles(files: GitHubFileEntry[]): GitHubFileEntry[] {
+  return files.sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+}
+
+// 파일의 특정 줄 범위로 연결할 수 있는 GitHub blob URL
+export function gitHubBlobUrl(owner: string, repo: string, ref: string, path: string): string {
+  return `https://github.com/${owner}/${repo}/blob/${encodeURIComponent(ref)}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
@@ -0,0 +1,103 @@
+import { ChunkingOptions, estimateTokens } from './chunker';
+import { GitHubThread, GitHubThreadPost, chunkThread } from './github-threads';
+
+const CHUNKING: ChunkingOptions = {
+  strategy: 'markdown',
+  maxTokens: 120,
+  overlapTokens: 0,
+  includeHeadingPath: false,
+  tableFormat: 'markdown'
+};
+
+function post(author: string, kind: GitHubThreadPost['kind'], body: string, extra: Partial<GitHubThreadPost> = {}): GitHubThreadPost {
+  return {
+    author,
+    body,
+    kind,
+    createdAt: '2024-03-01T10:00:00Z',
+    url: `https://github.com/acme/cli/issues/42#${author}-${kind}`,
+    ...extra
+  };
+}
+
+function thread(posts: GitHubThreadPost[], kind: GitHubThread['kind'] = 'issue'): GitHubThread {
+  return {
+    kind,
+    number: 42,
+    title: 'Proxy settings are ignored',
+    url: 'https://github.com/acme/cli/issues/42',
+    state: 'open',
+    labels: ['bug'],
+    updatedAt: '2024-03-02T10:00:00Z',
+    posts
+  };
+}
+
+function paragraph(sentences: number): string {
+  return Array.from({ length: sentences }, (_, index) => `Sentence ${index} describes what happens behind the proxy.`).join(' ');
+}
+
+describe('chunkThread', () => {
+  it('packs short posts into one chunk under the thread header', () => {
+    const result = chunkThread(thread([
+      post('alice', 'description', 'The CLI ignores HTTPS_PROXY.'),
+      post('bob', 'comment', 'Same here on Linux.')
+    ]), CHUNKING);
+
+    expect(result.chunks).toEqual([
+      'Issue #42: Proxy settings are ignored\n\n'
+        + '### @alice wrote (2024-03-01)\n\nThe CLI ignores HTTPS_PROXY.\n\n'
+        + '### @bob commented (2024-03-01)\n\nSame here on Linux.'
+    ]);
+    expect(result.metadata).toEqual([{
+      url: 'https://github.com/acme/cli/issues/42#alice-description',
+      threadKind: 'issue',
+      number: 42,
+      state: 'open',
+      labels: ['bug'],
+      author: 'alice',
+      postKind: 'description',
+      postedAt: '2024-03-01T10:00:00Z'
+    }]);
+  });
+
+  it('labels pull requests and review comments with their file path', () => {
+    const result = chunkThread(thread([
+      post('alice', 'description', 'Read proxy settings from the environment.'),
+      post('bob', 'review_comment', 'Handle NO_PROXY too.', { path: 'src/proxy.ts' }),
+      post('carol', 'review', '')
+    ], 'pull_request'), CHUNKING);
+
+    expect(result.chunks[0].startsWith('Pull request #42: Proxy settings are ignored\n\n')).toBe(true);
+    expect(result.chunks[0]).toContain('### @bob commented on src/proxy.ts (2024-03-01)');
+    expect(result.chunks[0]).toContain('### @carol reviewed (2024-03-01)\n\n(no content)');
+  });
+
+  it('starts a new chunk when the next post does not fit and keeps the first post metadata per chunk', () => {
+    const result = chunkThread(thread([
+      post('alice', 'description', paragraph(4)),
+      post('bob', 'comment', paragraph(4)),
+      post('carol', 'comment', 'Thanks, fixed in the next release.')
+    ]), CHUNKING);
+
+    expect(result.chunks.length).toBe(2);
+    expect(result.metadata.map(entry => entry.author)).toEqual(['alice', 'bob']);
+    expect(result.chunks[1]).toContain('@carol commented');
+    result.chunks.forEach(chunk => expect(chunk.startsWith('Issue #42: Proxy settings are ignored\n\n')).toBe(true));
+  });
+
+  it('splits a long post on its own and keeps every chunk within maxTokens', () => {
+    const result = chunkThread(thread([
+      post('alice', 'description', 'Short description.'),
+      post('bob', 'comment', [paragraph(10), paragraph(10), paragraph(10)].join('\n\n')),
+      post('carol', 'comment', 'Short reply.')
+    ]), CHUNKING);
+
+    const authors = result.metadata.map(entry => entry.author);
+    expect(authors[0]).toBe('alice');
+    expect(authors[authors.length - 1]).toBe('carol');
+    expect(authors.slice(1, -1).length).toBeGreaterThan(1);
+    authors.slice(1, -1).forEach(author => expect(author).toBe('bob'));
+    result.chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(CHUNKING.maxTokens));
+  });
+});
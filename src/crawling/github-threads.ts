@@ -0,0 +1,337 @@
+import { Octokit } from '@octokit/rest';
+import { ChunkingOptions, chunkDocument, estimateTokens } from './chunker';
+import { ChunkMetadata } from '../services/database.service';
+
+export type GitHubThreadKind = 'issue' | 'pull_request' | 'discussion';
+export type GitHubThreadState = 'open' | 'closed' | 'all';
+
+export interface GitHubThreadFilter {
+  state: GitHubThreadState;
+  labels: string[];
+  // 이 시각 이후 갱신된 항목만 (증분 수집)
+  since: Date | null;
+  // 이 시각 이후 갱신된 항목 제외
+  until: Date | null;
+  maxItems: number;
+}
+
+export interface GitHubThreadPost {
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string;
+  kind: 'description' | 'comment' | 'review' | 'review_comment' | 'reply';
+  // 리뷰 코멘트가 달린 파일 경로
+  path?: string;
+}
+
+export interface GitHubThread {
+  kind: GitHubThreadKind;
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  labels: string[];
+  updatedAt: string;
+  posts: GitHubThreadPost[];
+}
+
+// DISCUSSIONS_QUERY 응답 (author는 삭제된 계정이면 null)
+interface DiscussionAuthor {
+  login: string;
+}
+
+interface DiscussionReply {
+  body: string | null;
+  createdAt: string;
+  url: string;
+  author: DiscussionAuthor | null;
+}
+
+interface DiscussionComment extends DiscussionReply {
+  replies: { nodes: DiscussionReply[] };
+}
+
+interface DiscussionNode {
+  number: number;
+  title: string;
+  url: string;
+  body: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closed: boolean;
+  author: DiscussionAuthor | null;
+  category: { name: string } | null;
+  labels: { nodes: { name: string }[] };
+  comments: { nodes: DiscussionComment[] };
+}
+
+interface DiscussionsQueryResult {
+  repository: {
+    discussions: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: DiscussionNode[];
+    };
+  } | null;
+}
+
+const DISCUSSIONS_QUERY = `
+  query($owner: String!, $repo: String!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      discussions(first: 25, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          number title url body createdAt updatedAt closed
+          author { login }
+          category { name }
+          labels(first: 20) { nodes { name } }
+          comments(first: 100) {
+            nodes {
+              body createdAt url
+              author { login }
+              replies(first: 50) { nodes { body createdAt url author { login } } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// 이슈와 PR 목록 (갱신 시각 내림차순), PR은 설명/코멘트/리뷰/리뷰 코멘트를 함께 가져옴
+export async function fetchIssueThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  filter: GitHubThreadFilter,
+  kinds: { issues: boolean; pullRequests: boolean }
+): Promise<GitHubThread[]> {
+  const threads: GitHubThread[] = [];
+  const iterator = octokit.paginate.iterator(octokit.rest.issues.listForRepo, {
+    owner,
+    repo,
+    state: filter.state,
+    labels: filter.labels.length > 0 ? filter.labels.join(',') : undefined,
+    since: filter.since ? filter.since.toISOString() : undefined,
+    sort: 'updated',
+    direction: 'desc',
+    per_page: 100
+  });
+
+  for await (const response of iterator) {
+    for (const item of response.data) {
+      const isPullRequest = !!item.pull_request;
+      if ((isPullRequest && !kinds.pullRequests) || (!isPullRequest && !kinds.issues)) {
+        continue;
+      }
+      if (filter.until && new Date(item.updated_at) > filter.until) {
+        continue;
+      }
+
+      const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+        owner,
+        repo,
+        issue_number: item.number,
+        per_page: 100
+      });
+      const posts: GitHubThreadPost[] = [
+        { author: item.user?.login || 'ghost', body: item.body || '', createdAt: item.created_at, url: item.html_url, kind: 'description' },
+        ...comments.map(comment => ({
+          author: comment.user?.login || 'ghost',
+          body: comment.body || '',
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          kind: 'comment' as const
+        }))
+      ];
+
+      if (isPullRequest) {
+        const [reviews, reviewComments] = await Promise.all([
+          octokit.paginate(octokit.rest.pulls.listReviews, { owner, repo, pull_number: item.number, per_page: 100 }),
+          octokit.paginate(octokit.rest.pulls.listReviewComments, { owner, repo, pull_number: item.number, per_page: 100 })
+        ]);
+        reviews
+          .filter(review => review.body && review.submitted_at)
+          .forEach(review => posts.push({
+            author: review.user?.login || 'ghost',
+            body: review.body,
+            createdAt: review.submitted_at,
+            url: review.html_url,
+            kind: 'review'
+          }));
+        reviewComments.forEach(comment => posts.push({
+          author: comment.user?.login || 'ghost',
+          body: comment.body || '',
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          kind: 'review_comment',
+          path: comment.path
+        }));
+      }
+
+      threads.push({
+        kind: isPullRequest ? 'pull_request' : 'issue',
+        number: item.number,
+        title: item.title,
+        url: item.html_url,
+        state: item.state,
+        labels: item.labels.map(label => (typeof label === 'string' ? label : label.name)).filter(name => name),
+        updatedAt: item.updated_at,
+        posts: sortPosts(posts)
+      });
+      if (threads.length >= filter.maxItems) {
+        return threads;
+      }
+    }
+  }
+
+  return threads;
+}
+
+// Discussions는 REST API가 없어 GraphQL로 조회 (갱신 시각 내림차순이므로 since 이전 항목에서 중단)
+export async function fetchDiscussionThreads(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  filter: GitHubThreadFilter
+): Promise<GitHubThread[]> {
+  const threads: GitHubThread[] = [];
+  let after: string | null = null;
+
+  while (true) {
+    const result = await octokit.graphql<DiscussionsQueryResult>(DISCUSSIONS_QUERY, { owner, repo, after });
+    const connection = result.repository?.discussions;
+    if (!connection) {
+      return threads;
+    }
+
+    for (const node of connection.nodes) {
+      const updatedAt = new Date(node.updatedAt);
+      if (filter.since && updatedAt < filter.since) {
+        return threads;
+      }
+      const labels: string[] = node.labels.nodes.map(label => label.name);
+      const state = node.closed ? 'closed' : 'open';
+      if ((filter.until && updatedAt > filter.until)
+        || (filter.state !== 'all' && filter.state !== state)
+        || !filter.labels.every(label => labels.includes(label))) {
+        continue;
+      }
+
+      const posts: GitHubThreadPost[] = [
+        { author: node.author?.login || 'ghost', body: node.body || '', createdAt: node.createdAt, url: node.url, kind: 'description' }
+      ];
+      node.comments.nodes.forEach(comment => {
+        posts.push({ author: comment.author?.login || 'ghost', body: comment.body || '', createdAt: comment.createdAt, url: comment.url, kind: 'comment' });
+        // 답글은 원 댓글 바로 뒤에 유지
+        comment.replies.nodes.forEach(reply => posts.push({
+          author: reply.author?.login || 'ghost',
+          body: reply.body || '',
+          createdAt: reply.createdAt,
+          url: reply.url,
+          kind: 'reply'
+        }));
+      });
+
+      threads.push({
+        kind: 'discussion',
+        number: node.number,
+        title: node.category ? `[${node.category.name}] ${node.title}` : node.title,
+        url: node.url,
+        state,
+        labels,
+        updatedAt: node.updatedAt,
+        posts
+      });
+      if (threads.length >= filter.maxItems) {
+        return threads;
+      }
+    }
+
+    if (!connection.pageInfo.hasNextPage) {
+      return threads;
+    }
+    after = connection.pageInfo.endCursor;
+  }
+}
+
+// 글 순서대로 청크를 만들고 각 청크의 URL은 청크가 시작하는 글(댓글)을 가리킴
+export function chunkThread(
+  thread: GitHubThread,
+  chunking: ChunkingOptions
+): { chunks: string[]; metadata: ChunkMetadata[] } {
+  const kindLabel = thread.kind === 'pull_request' ? 'Pull request' : thread.kind === 'discussion' ? 'Discussion' : 'Issue';
+  const header = `${kindLabel} #${thread.number}: ${thread.title}`;
+  const headerTokens = estimateTokens(header) + 2;
+  const chunks: string[] = [];
+  const metadata: ChunkMetadata[] = [];
+
+  let current: string[] = [];
+  let currentPost: GitHubThreadPost | null = null;
+  let currentTokens = 0;
+
+  const meta = (post: GitHubThreadPost): ChunkMetadata => ({
+    url: post.url,
+    threadKind: thread.kind,
+    number: thread.number,
+    state: thread.state,
+    labels: thread.labels,
+    author: post.author,
+    postKind: post.kind,
+    postedAt: post.createdAt,
+    ...(post.path ? { path: post.path } : {})
+  });
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(`${header}\n\n${current.join('\n\n')}`);
+      metadata.push(meta(currentPost));
+    }
+    current = [];
+    currentPost = null;
+    currentTokens = 0;
+  };
+
+  thread.posts.forEach(post => {
+    const text = renderPost(post);
+    const tokens = estimateTokens(text);
+
+    // 긴 글은 단독으로 구조 기반 분할
+    if (tokens + headerTokens > chunking.maxTokens) {
+      flush();
+      chunkDocument(text, { ...chunking, maxTokens: chunking.maxTokens - headerTokens }).forEach(chunk => {
+        chunks.push(`${header}\n\n${chunk}`);
+        metadata.push(meta(post));
+      });
+      return;
+    }
+
+    if (currentTokens + tokens + headerTokens > chunking.maxTokens) {
+      flush();
+    }
+    if (!currentPost) {
+      currentPost = post;
+    }
+    current.push(text);
+    currentTokens += tokens;
+  });
+  flush();
+
+  return { chunks, metadata };
+}
+
+function renderPost(post: GitHubThreadPost): string {
+  const date = post.createdAt ? post.createdAt.slice(0, 10) : '';
+  const action = {
+    description: 'wrote',
+    comment: 'commented',
+    review: 'reviewed',
+    review_comment: `commented on ${post.path || 'the diff'}`,
+    reply: 'replied'
+  }[post.kind];
+  return `### @${post.author} ${action} (${date})\n\n${post.body.trim() || '(no content)'}`;
+}
+
+function sortPosts(posts: GitHubThreadPost[]): GitHubThreadPost[] {
+  const [description, ...rest] = posts;
+  return [description, ...rest.sort((a, b) => a.createdAt.localeCompare(b.createdAt))];
+}
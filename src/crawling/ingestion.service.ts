@@ -0,0 +1,386 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { createHash } from 'crypto';
+import { BedrockService } from '../services/bedrock.service';
+import { DatabaseService, CrawlRecord, StoredChunk, ChunkMetadata, ChunkPosition, DocumentRecord } from '../services/database.service';
+import { CrawlSignal } from './crawl-control';
+import { CrawlEventListener } from './crawl-events.service';
+import { DuplicateMode, computeSimHash, hammingDistance } from './simhash';
+import { DocumentMetadata, DocumentSourceType, countWords, guessLanguage } from './document-metadata';
+import { estimateTokens } from './chunker';
+import { crawlerConfig } from '../config/crawler.config';
+import { awsConfig } from '../config/aws.config';
+
+export class CrawlChangeStats {
+  @ApiProperty({ description: 'Pages whose content did not change', example: 40 })
+  pagesUnchanged: number;
+
+  @ApiProperty({ description: 'Pages whose content changed', example: 3 })
+  pagesUpdated: number;
+
+  @ApiProperty({ description: 'Pages indexed for the first time', example: 2 })
+  pagesAdded: number;
+
+  @ApiProperty({ description: 'Pages removed because they no longer exist', example: 1 })
+  pagesRemoved: number;
+
+  @ApiProperty({ description: 'Chunks kept without re-embedding', example: 380 })
+  chunksUnchanged: number;
+
+  @ApiProperty({ description: 'Chunks whose content changed and were re-embedded', example: 12 })
+  chunksUpdated: number;
+
+  @ApiProperty({ description: 'New chunks embedded', example: 20 })
+  chunksAdded: number;
+
+  @ApiProperty({ description: 'Stale chunks deleted', example: 8 })
+  chunksRemoved: number;
+
+  @ApiProperty({ description: 'New chunks that nearly match a chunk of another document (skipped, or stored linked to it without re-embedding)', example: 5 })
+  chunksDuplicate: number;
+}
+
+export class DryRunPage {
+  @ApiProperty({ description: 'Document URL', example: 'https://docs.example.com/guide/install' })
+  url: string;
+
+  @ApiProperty({ description: 'Document title', example: 'Installation' })
+  title: string;
+
+  @ApiProperty({ description: 'Length of the extracted text in characters', example: 5230 })
+  textLength: number;
+
+  @ApiProperty({ description: 'Number of chunks the document would be split into', example: 6 })
+  chunkCount: number;
+
+  @ApiProperty({ description: 'Chunks that would be embedded (new or changed, excluding reused near-duplicates)', example: 4 })
+  chunksToEmbed: number;
+
+  @ApiProperty({ description: 'Estimated tokens sent to the embedding model for this document', example: 1480 })
+  estimatedTokens: number;
+}
+
+export class DryRunEstimate {
+  @ApiProperty({ description: 'Embedding model the estimate is based on', example: 'amazon.titan-embed-text-v2:0' })
+  model: string;
+
+  @ApiProperty({ description: 'Number of documents that would be indexed', example: 25 })
+  pages: number;
+
+  @ApiProperty({ description: 'Total number of chunks', example: 180 })
+  totalChunks: number;
+
+  @ApiProperty({ description: 'Chunks that would be embedded', example: 120 })
+  chunksToEmbed: number;
+
+  @ApiProperty({ description: 'Estimated embedding input tokens', example: 41000 })
+  estimatedTokens: number;
+
+  @ApiProperty({ description: 'Price per 1,000 input tokens used for the estimate (USD)', example: 0.00002 })
+  costPerThousandTokens: number;
+
+  @ApiProperty({ description: 'Estimated embedding cost (USD)', example: 0.00082 })
+  estimatedCostUsd: number;
+}
+
+export class DryRunReport {
+  @ApiProperty({ description: 'Documents that would be indexed, in crawl order', type: [DryRunPage] })
+  pages: DryRunPage[];
+
+  @ApiProperty({ description: 'Previously indexed documents that would be removed', example: ['https://github.com/acme/app/blob/main/docs/old.md'] })
+  removedUrls: string[];
+
+  @ApiProperty({ description: 'Embedding cost estimate', type: DryRunEstimate })
+  estimate: DryRunEstimate;
+}
+
+// 미리보기 실행 중 누적되는 계획 (체크포인트에 함께 저장해 재개 시 이어서 기록)
+export interface DryRunPlan {
+  pages: DryRunPage[];
+  removedUrls: string[];
+}
+
+export interface IngestDocument {
+  url: string;
+  title: string;
+  chunks: string[];
+  pageIndex: number;
+  // chunks와 같은 순서의 청크별 페이지 번호 (PDF 등, 없으면 pageIndex)
+  pageIndexes?: number[];
+  // chunks와 같은 순서의 청크별 메타데이터 (선택)
+  metadata?: ChunkMetadata[];
+  // 문서 단위로 한 번 저장하는 메타데이터 (crawl_documents)
+  info: DocumentInfo;
+}
+
+export interface DocumentInfo extends Partial<DocumentMetadata> {
+  sourceType: DocumentSourceType;
+  canonicalUrl?: string | null;
+  // 문서 해시와 단어 수를 계산할 원문 (없으면 청크를 이어 붙여 사용)
+  text?: string;
+}
+
+// 작업 롤백용으로 이번 실행에서 새로 저장한 레코드 기록
+export interface IngestLog {
+  threadIds: number[];
+  urls: string[];
+  // 이전 청크를 삭제한 문서 (롤백으로 복구할 수 없음)
+  replacedUrls: string[];
+  // 이번 실행에서 처음 저장한 문서 (롤백 시 문서 메타데이터도 삭제)
+  createdUrls: string[];
+}
+
+export interface IngestContext {
+  signal?: CrawlSignal;
+  log?: IngestLog;
+  onEvent?: CrawlEventListener;
+  // 유사 중복 청크 처리 방식 (기본: crawlerConfig.dedup.mode)
+  duplicateMode?: DuplicateMode;
+  // 미리보기 실행: 임베딩과 저장 없이 이 계획에 기록만 함
+  dryRunPlan?: DryRunPlan;
+}
+
+@Injectable()
+export class IngestionService {
+  private readonly logger = new Logger(IngestionService.name);
+
+  constructor(
+    private readonly bedrockService: BedrockService,
+    private readonly databaseService: DatabaseService
+  ) {}
+
+  createChangeStats(): CrawlChangeStats {
+    return {
+      pagesUnchanged: 0,
+      pagesUpdated: 0,
+      pagesAdded: 0,
+      pagesRemoved: 0,
+      chunksUnchanged: 0,
+      chunksUpdated: 0,
+      chunksAdded: 0,
+      chunksRemoved: 0,
+      chunksDuplicate: 0
+    };
+  }
+
+  hashContent(text: string): string {
+    return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+  }
+
+  // 저장된 청크와 해시로 비교하여 바뀐 청크만 임베딩하고 오래된 청크만 삭제
+  async syncDocumentChunks(document: IngestDocument, stats: CrawlChangeStats, context: IngestContext = {}): Promise<number> {
+    const existing = await this.databaseService.getChunksByUrl(document.url);
+    const existingByHash = new Map<string, StoredChunk[]>();
+    existing.forEach(chunk => {
+      const hash = chunk.content_hash || this.hashContent(chunk.content);
+      existingByHash.set(hash, [...(existingByHash.get(hash) || []), chunk]);
+    });
+
+    const kept: ChunkPosition[] = [];
+    const added: CrawlRecord[] = [];
+
+    for (let chunkIndex = 0; chunkIndex < document.chunks.length; chunkIndex++) {
+      const chunk = document.chunks[chunkIndex];
+      const hash = this.hashContent(chunk);
+      const metadata = document.metadata ? document.metadata[chunkIndex] || null : null;
+      const pageIndex = document.pageIndexes ? document.pageIndexes[chunkIndex] : document.pageIndex;
+      const simhash = computeSimHash(chunk) || '';
+      const matches = existingByHash.get(hash);
+
+      if (matches && matches.length > 0) {
+        const match = matches.shift();
+        kept.push({
+          id: match.id,
+          content_hash: hash,
+          chunk_index: chunkIndex,
+          page_index: pageIndex,
+          chunk_metadata: metadata,
+          simhash
+        });
+        continue;
+      }
+
+      added.push({
+        url: document.url,
+        title: document.title,
+        content: chunk,
+        embedding: null,
+        chunk_index: chunkIndex,
+        page_index: pageIndex,
+        content_hash: hash,
+        chunk_metadata: metadata,
+        simhash
+      });
+    }
+
+    // 다른 문서에 거의 같은 청크가 있으면 건너뛰거나 그 청크의 임베딩을 재사용해 연결
+    const duplicateMode = context.duplicateMode || crawlerConfig.dedup.mode;
+    let duplicates = 0;
+    if (duplicateMode !== 'off') {
+      const unique: CrawlRecord[] = [];
+      for (const record of added) {
+        const original = record.simhash ? await this.findNearDuplicate(record.simhash, document.url) : null;
+        if (original === null) {
+          unique.push(record);
+          continue;
+        }
+        duplicates++;
+        if (duplicateMode === 'link') {
+          record.duplicate_of = original;
+          record.embedding = await this.databaseService.getChunkEmbedding(original);
+          unique.push(record);
+        }
+      }
+      added.splice(0, added.length, ...unique);
+    }
+
+    const staleIds = Array.from(existingByHash.values())
+      .reduce((ids, chunks) => ids.concat(chunks.map(chunk => chunk.id)), [] as number[]);
+
+    const toEmbed = added.filter(record => !record.embedding);
+    context.onEvent?.({
+      type: 'chunks_created',
+      data: { url: document.url, title: document.title, total: document.chunks.length, unchanged: kept.length, toEmbed: toEmbed.length }
+    });
+
+    if (context.dryRunPlan) {
+      context.dryRunPlan.pages.push({
+        url: document.url,
+        title: document.title,
+        textLength: document.info.text !== undefined ? document.info.text.length : document.chunks.join('\n\n').length,
+        chunkCount: document.chunks.length,
+        chunksToEmbed: toEmbed.length,
+        estimatedTokens: toEmbed.reduce((sum, record) => sum + estimateTokens(record.content), 0)
+      });
+      this.countChanges(stats, existing.length, kept.length, added.length, staleIds.length, duplicates);
+      return document.chunks.length;
+    }
+
+    for (let index = 0; index < added.length; index++) {
+      await context.signal?.throwIfInterrupted();
+      if (!added[index].embedding) {
+        added[index].embedding = await this.bedrockService.createEmbedding(added[index].content);
+      }
+      context.onEvent?.({
+        type: 'embedding_progress',
+        data: { url: document.url, embedded: index + 1, total: added.length }
+      });
+    }
+
+    // 청크 변경과 문서 메타데이터는 한 트랜잭션으로 저장 (중간에 실패하면 이전 상태 유지)
+    const ids = await this.databaseService.syncDocumentRecords({
+      kept,
+      added,
+      staleIds,
+      document: this.buildDocumentRecord(document.url, document.title, document.info, document.chunks)
+    });
+    if (context.log && ids.length > 0) {
+      context.log.threadIds.push(...ids);
+      context.log.urls.push(document.url);
+    }
+    if (context.log && staleIds.length > 0) {
+      context.log.replacedUrls.push(document.url);
+    }
+    if (context.log && existing.length === 0) {
+      context.log.createdUrls.push(document.url);
+    }
+
+    this.countChanges(stats, existing.length, kept.length, added.length, staleIds.length, duplicates);
+
+    this.logger.log(
+      `청크 동기화: ${document.title} (유지 ${kept.length}, 임베딩 ${added.length}, 삭제 ${staleIds.length}, 유사 중복 ${duplicates})`
+    );
+    return document.chunks.length;
+  }
+
+  // 문서 메타데이터 저장 (언어를 찾지 못했으면 본문 문자로 추정), 내용이 바뀌지 않은 문서도 메타데이터는 갱신
+  async saveDocumentInfo(url: string, title: string, info: DocumentInfo, chunks: string[], chunkCount: number = chunks.length): Promise<void> {
+    await this.databaseService.upsertDocument(this.buildDocumentRecord(url, title, info, chunks, chunkCount));
+  }
+
+  private buildDocumentRecord(url: string, title: string, info: DocumentInfo, chunks: string[], chunkCount: number = chunks.length): DocumentRecord {
+    const text = info.text !== undefined ? info.text : chunks.join('\n\n');
+    return {
+      url,
+      title,
+      source_type: info.sourceType,
+      language: info.language || guessLanguage(text),
+      author: info.author || null,
+      published_at: info.publishedAt || null,
+      modified_at: info.modifiedAt || null,
+      canonical_url: info.canonicalUrl || null,
+      content_hash: this.hashContent(text),
+      word_count: countWords(text),
+      chunk_count: chunkCount
+    };
+  }
+
+  // 새로 임베딩한 청크와 삭제한 청크를 짝지어 '변경'으로 집계
+  private countChanges(stats: CrawlChangeStats, existing: number, kept: number, added: number, stale: number, duplicates: number): void {
+    const updated = Math.min(added, stale);
+    stats.chunksUnchanged += kept;
+    stats.chunksUpdated += updated;
+    stats.chunksAdded += added - updated;
+    stats.chunksRemoved += stale - updated;
+    // 이전 실행의 체크포인트에서 이어서 집계할 때는 값이 없을 수 있음
+    stats.chunksDuplicate = (stats.chunksDuplicate || 0) + duplicates;
+
+    if (existing === 0) {
+      stats.pagesAdded++;
+    } else if (added === 0 && stale === 0) {
+      stats.pagesUnchanged++;
+    } else {
+      stats.pagesUpdated++;
+    }
+  }
+
+  // 허용 거리 안에서 가장 가까운 원본 청크 id (같으면 먼저 저장된 청크)
+  private async findNearDuplicate(simhash: string, url: string): Promise<number | null> {
+    const candidates = await this.databaseService.findSimHashCandidates(simhash, url);
+    let best: { id: number; distance: number } | null = null;
+    candidates.forEach(candidate => {
+      const distance = hammingDistance(simhash, candidate.simhash);
+      if (distance <= crawlerConfig.dedup.maxDistance && (!best || distance < best.distance)) {
+        best = { id: candidate.id, distance };
+      }
+    });
+    return best ? best.id : null;
+  }
+
+  async removeDocuments(urls: string[], stats: CrawlChangeStats, context: IngestContext = {}): Promise<void> {
+    if (context.dryRunPlan) {
+      context.dryRunPlan.removedUrls.push(...urls);
+      stats.pagesRemoved += urls.length;
+      return;
+    }
+    const removed = await this.databaseService.deleteByUrls(urls);
+    if (context.log && removed > 0) {
+      context.log.replacedUrls.push(...urls);
+    }
+    stats.pagesRemoved += urls.length;
+    stats.chunksRemoved += removed;
+  }
+
+  createDryRunPlan(): DryRunPlan {
+    return { pages: [], removedUrls: [] };
+  }
+
+  // 계획된 임베딩 토큰 수와 모델 요금으로 비용 추정
+  summarizeDryRun(plan: DryRunPlan): DryRunReport {
+    const estimatedTokens = plan.pages.reduce((sum, page) => sum + page.estimatedTokens, 0);
+    const costPerThousandTokens = awsConfig.bedrock.costPerThousandTokens;
+    return {
+      pages: plan.pages,
+      removedUrls: plan.removedUrls,
+      estimate: {
+        model: awsConfig.bedrock.modelId,
+        pages: plan.pages.length,
+        totalChunks: plan.pages.reduce((sum, page) => sum + page.chunkCount, 0),
+        chunksToEmbed: plan.pages.reduce((sum, page) => sum + page.chunksToEmbed, 0),
+        estimatedTokens,
+        costPerThousandTokens,
+        estimatedCostUsd: Number(((estimatedTokens / 1000) * costPerThousandTokens).toFixed(8))
+      }
+    };
+  }
+}
@@ -0,0 +1,274 @@
+import * as cheerio from 'cheerio';
+import { posix } from 'path';
+import { unzipSync, strFromU8 } from 'fflate';
+import { extractContent } from './content-extractor';
+import { renderMarkdownTable } from './tables';
+import { crawlerConfig } from '../config/crawler.config';
+
+export type ExportSource = 'notion' | 'confluence';
+
+export interface ImportOptions {
+  // Confluence 사이트 주소 (예: https://example.atlassian.net/wiki), 있으면 문서 ID를 실제 페이지 URL로 사용
+  baseUrl?: string;
+}
+
+export interface ImportedPage {
+  // 문서 ID: Notion은 notion.so 페이지 URL, Confluence는 페이지 URL 또는 confluence://<스페이스>/<페이지 ID>
+  url: string;
+  title: string;
+  // 내부 링크를 문서 ID로 바꾼 Markdown
+  text: string;
+  // 상위 페이지 제목 (루트부터, 자기 자신 제외)
+  breadcrumbs: string[];
+  parentUrl: string | null;
+  // 아카이브 안의 파일 경로
+  path: string;
+}
+
+export interface ParsedExport {
+  source: ExportSource;
+  pages: ImportedPage[];
+}
+
+// Notion 파일/폴더 이름 끝의 32자리 페이지 ID (예: "설치 가이드 0f1e2d....md")
+const NOTION_ID_PATTERN = /\s([0-9a-f]{32})(_all)?(?:\.(md|csv))?$/;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(([^)\s]+)\)/g;
+const PAGE_EXTENSIONS = /\.(md|csv|html?|zip)$/i;
+
+// 아카이브를 풀어 Notion(Markdown/CSV) 또는 Confluence(HTML) 내보내기로 파싱 (source가 없으면 파일 구성으로 판별)
+export function parseExportArchive(buffer: Buffer, source: ExportSource | null, options: ImportOptions = {}): ParsedExport {
+  const files = readArchive(new Uint8Array(buffer));
+  const paths = Object.keys(files);
+  if (paths.length === 0) {
+    throw new Error('아카이브에 가져올 수 있는 페이지(.md, .csv, .html)가 없습니다');
+  }
+
+  const detected = source || detectExportSource(paths);
+  if (!detected) {
+    throw new Error('Notion 또는 Confluence 내보내기 형식이 아닙니다');
+  }
+  return {
+    source: detected,
+    pages: detected === 'notion' ? parseNotionExport(files) : parseConfluenceExport(files, options)
+  };
+}
+
+export function detectExportSource(paths: string[]): ExportSource | null {
+  if (paths.some(path => /\.(md|csv)$/i.test(path) && NOTION_ID_PATTERN.test(path))) {
+    return 'notion';
+  }
+  if (paths.some(path => /\.html?$/i.test(path))) {
+    return 'confluence';
+  }
+  return null;
+}
+
+// 페이지 파일만 압축 해제 (Notion의 분할 내보내기처럼 zip 안의 zip은 한 단계까지 풀어서 합침)
+// 압축 해제 크기는 항목에 기록된 원본 크기로 제한되므로 그 합계로 전체 크기를 제한
+function readArchive(data: Uint8Array, nested: boolean = false, budget = { remaining: crawlerConfig.imports.maxUnpackedBytes }): Record<string, string> {
+  const entries = unzipSync(data, {
+    filter: file => {
+      if (!PAGE_EXTENSIONS.test(file.name) || (nested && /\.zip$/i.test(file.name))) {
+        return false;
+      }
+      budget.remaining -= file.originalSize;
+      if (budget.remaining < 0) {
+        throw new Error(`아카이브 압축 해제 크기가 제한(${crawlerConfig.imports.maxUnpackedBytes} bytes)을 넘습니다`);
+      }
+      return true;
+    }
+  });
+  const files: Record<string, string> = {};
+
+  Object.keys(entries).forEach(name => {
+    if (/\.zip$/i.test(name)) {
+      const inner = readArchive(entries[name], true, budget);
+      Object.keys(inner).forEach(innerName => (files[innerName] = inner[innerName]));
+    } else if (!name.startsWith('__MACOSX/')) {
+      files[name] = strFromU8(entries[name]).replace(/^\uFEFF/, '');
+    }
+  });
+
+  return files;
+}
+
+// Notion: "제목 <ID>.md" 페이지의 하위 페이지는 같은 이름의 폴더 안에 있음, 데이터베이스는 CSV(표)로 저장
+function parseNotionExport(files: Record<string, string>): ImportedPage[] {
+  const pagePaths = Object.keys(files).filter(path => /\.(md|csv)$/i.test(path) && NOTION_ID_PATTERN.test(path));
+  // 전체 보기(_all.csv)가 있으면 필터가 적용된 기본 보기 CSV는 제외
+  const paths = pagePaths.filter(path => !(/\.csv$/i.test(path) && !/_all\.csv$/i.test(path)
+    && files[path.replace(/\.csv$/i, '_all.csv')] !== undefined));
+
+  const urlByPath = new Map<string, string>();
+  const pageByFolder = new Map<string, string>();
+  paths.forEach(path => {
+    const id = path.match(NOTION_ID_PATTERN)[1];
+    urlByPath.set(path, `https://www.notion.so/${id}`);
+    pageByFolder.set(path.replace(/(_all)?\.(md|csv)$/i, ''), path);
+  });
+  // 기본 보기 CSV를 가리키는 링크도 같은 문서로 연결
+  pagePaths.filter(path => !urlByPath.has(path)).forEach(path => {
+    urlByPath.set(path, urlByPath.get(path.replace(/\.csv$/i, '_all.csv')));
+  });
+
+  const titles = new Map<string, string>();
+  paths.forEach(path => titles.set(path, notionTitle(path, files[path])));
+
+  return paths.map(path => {
+    const ancestors: string[] = [];
+    let folder = posix.dirname(path);
+    while (folder !== '.' && folder !== '/') {
+      const parent = pageByFolder.get(folder);
+      if (parent) {
+        ancestors.unshift(parent);
+      }
+      folder = posix.dirname(folder);
+    }
+
+    const text = /\.csv$/i.test(path)
+      ? `# ${titles.get(path)}\n\n${renderMarkdownTable(parseCsv(files[path]))}`
+      : rewriteNotionLinks(files[path], path, urlByPath);
+    return {
+      url: urlByPath.get(path),
+      title: titles.get(path),
+      text,
+      breadcrumbs: ancestors.map(ancestor => titles.get(ancestor)),
+      parentUrl: ancestors.length > 0 ? urlByPath.get(ancestors[ancestors.length - 1]) : null,
+      path
+    };
+  });
+}
+
+function notionTitle(path: string, content: string): string {
+  const heading = /\.md$/i.test(path) ? content.match(/^#\s+(.+)$/m) : null;
+  if (heading) {
+    return heading[1].trim();
+  }
+  return posix.basename(path).replace(NOTION_ID_PATTERN, '').trim() || posix.basename(path);
+}
+
+// 내보내기 안의 다른 페이지로 가는 상대 링크는 Notion 페이지 URL로 바꾸고, 첨부 파일/이미지 링크는 텍스트만 남김
+function rewriteNotionLinks(markdown: string, path: string, urlByPath: Map<string, string>): string {
+  return markdown.replace(MARKDOWN_LINK_PATTERN, (match, image: string, label: string, href: string) => {
+    if (/^[a-z][\w+.-]*:/i.test(href) || href.startsWith('#')) {
+      return match;
+    }
+    let target: string;
+    try {
+      target = posix.normalize(posix.join(posix.dirname(path), decodeURIComponent(href.split('#')[0])));
+    } catch {
+      return image ? label : match;
+    }
+    const url = urlByPath.get(target);
+    if (url && !image) {
+      return `[${label}](${url})`;
+    }
+    return label;
+  });
+}
+
+// RFC 4180 CSV (따옴표 안의 쉼표/줄바꿈, "" 이스케이프)
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Confluence HTML 내보내기: 스페이스 폴더 안의 "제목_<페이지 ID>.html", 상위 페이지는 breadcrumbs에서 가져옴
+function parseConfluenceExport(files: Record<string, string>, options: ImportOptions): ImportedPage[] {
+  const paths = Object.keys(files).filter(path => /\.html?$/i.test(path)
+    && !/(^|\/)(attachments|images|styles|download)\//.test(path)
+    && posix.basename(path).toLowerCase() !== 'index.html');
+  const baseUrl = options.baseUrl ? options.baseUrl.replace(/\/+$/, '') : null;
+
+  const urlByPath = new Map<string, string>();
+  paths.forEach(path => {
+    const space = path.includes('/') ? path.split('/')[0] : 'space';
+    const file = posix.basename(path).replace(/\.html?$/i, '');
+    const id = (file.match(/(?:^|_)(\d+)$/) || [])[1];
+    urlByPath.set(path, id && baseUrl
+      ? `${baseUrl}/pages/viewpage.action?pageId=${id}`
+      : `confluence://${encodeURIComponent(space)}/${encodeURIComponent(id || file)}`);
+  });
+
+  return paths
+    .map(path => {
+      const $ = cheerio.load(files[path]);
+      // 잘못된 퍼센트 인코딩이 있는 링크는 null (해당 링크만 건너뜀)
+      const resolve = (href: string): string | null => {
+        try {
+          return posix.normalize(posix.join(posix.dirname(path), decodeURIComponent(href.split('#')[0])));
+        } catch {
+          return null;
+        }
+      };
+
+      // 스페이스 홈(index.html)은 문서로 가져오지 않으므로 breadcrumbs에서 제목만 사용
+      const crumbs = $('#breadcrumbs li a').toArray()
+        .map(link => ({ title: $(link).text().replace(/\s+/g, ' ').trim(), path: resolve($(link).attr('href') || '') }))
+        .filter(crumb => crumb.title);
+      const parent = crumbs.filter(crumb => urlByPath.has(crumb.path)).pop();
+
+      // 다른 페이지로 가는 링크는 본문에 Markdown 링크로 남김
+      $('a[href]').each((_, link) => {
+        const href = $(link).attr('href');
+        if (/^[a-z][\w+.-]*:/i.test(href) || href.startsWith('#')) {
+          return;
+        }
+        const url = urlByPath.get(resolve(href));
+        const label = $(link).text().replace(/\s+/g, ' ').trim();
+        if (url && label && $(link).closest('#breadcrumb-section').length === 0) {
+          $(link).replaceWith(`[${label}](${url})`);
+        }
+      });
+
+      const titleText = ($('#title-text').text() || $('title').text()).replace(/\s+/g, ' ').trim();
+      // "스페이스 이름 : 페이지 제목" 형식
+      const title = titleText.replace(/^.+?\s:\s/, '') || posix.basename(path).replace(/\.html?$/i, '');
+      const extracted = extractContent($.html(), urlByPath.get(path), { contentSelector: '#main-content' });
+      return {
+        url: urlByPath.get(path),
+        title,
+        text: extracted.text ? `# ${title}\n\n${extracted.text}` : '',
+        breadcrumbs: crumbs.map(crumb => crumb.title),
+        parentUrl: parent ? urlByPath.get(parent.path) : null,
+        path
+      };
+    });
+}
@@ -0,0 +1,299 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import * as puppeteer from 'puppeteer-core';
+import * as chromium from 'chromium';
+import { PageContent } from './crawling.service';
+import { PagePool } from './page-pool';
+import { extractContent } from './content-extractor';
+import { normalizeUrl } from './url-frontier';
+import { crawlerConfig } from '../config/crawler.config';
+
+export type FetchMode = 'auto' | 'static' | 'headless';
+
+// 응답을 받지 못했거나 HTML이 아닌 경우의 원인
+export type FetchFailureKind = 'timeout' | 'too_many_redirects' | 'network' | 'not_html';
+
+export interface FetchFailure {
+  kind: FetchFailureKind;
+  message: string;
+}
+
+// 리다이렉트 응답 한 단계 (응답한 URL과 상태 코드)
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+}
+
+// axios/Puppeteer 오류를 실패 원인으로 분류
+export function describeFetchError(error: any): FetchFailure {
+  const message = error && error.message ? error.message : String(error);
+  if (error && (error.name === 'TimeoutError' || ['ECONNABORTED', 'ETIMEDOUT'].includes(error.code) || /timeout/i.test(message))) {
+    return { kind: 'timeout', message };
+  }
+  if (error && (error.code === 'ERR_FR_TOO_MANY_REDIRECTS' || /ERR_TOO_MANY_REDIRECTS|maximum number of redirects/i.test(message))) {
+    return { kind: 'too_many_redirects', message };
+  }
+  return { kind: 'network', message };
+}
+
+// 이전 크롤링에서 받은 검증자 (조건부 요청용)
+export interface ConditionalValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// 조건부 요청 헤더 (검증자가 없으면 빈 객체)
+export function conditionalHeaders(validators?: ConditionalValidators): Record<string, string> {
+  return {
+    ...(validators && validators.etag ? { 'If-None-Match': validators.etag } : {}),
+    ...(validators && validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {})
+  };
+}
+
+// validators를 주면 변경되지 않은 페이지는 statusCode 304, 빈 본문으로 반환
+export interface PageFetcher {
+  fetch(url: string, validators?: ConditionalValidators): Promise<PageContent | null>;
+  close(): Promise<void>;
+}
+
+// 클라이언트 렌더링 페이지의 루트 노드 (SSR 없이 비어 있으면 브라우저 필요)
+const SPA_ROOT_SELECTORS = ['#root', '#app', '#__next', '#__nuxt', '#___gatsby', '[data-reactroot]', 'app-root', '#svelte'];
+
+// 정적 HTML만으로는 본문을 얻을 수 없는 페이지인지 판단
+// 리다이렉트 안내나 짧은 목록 페이지처럼 본문이 짧을 뿐인 페이지는 분석 스크립트가 있어도 정적 결과 사용
+export function looksClientRendered($: cheerio.CheerioAPI, text: string): boolean {
+  if ($('meta[http-equiv="refresh" i]').length > 0) {
+    return false;
+  }
+
+  const emptySpaRoot = SPA_ROOT_SELECTORS.some(selector => {
+    const root = $(selector).first();
+    return root.length > 0 && root.text().replace(/\s+/g, ' ').trim().length < 50;
+  });
+  if (emptySpaRoot) {
+    return true;
+  }
+
+  const noscript = $('noscript').text();
+  const requiresJs = /enable javascript|javascript (is )?(required|disabled)|자바스크립트/i.test(noscript);
+  if (requiresJs) {
+    return text.length < 200;
+  }
+
+  // 본문이 거의 없고 렌더링용 스크립트가 여러 개일 때만 (async 스크립트는 대개 분석/광고 태그)
+  return text.length < 50 && $('script[src]:not([async])').length >= 2;
+}
+
+// HTTP 요청과 cheerio로 페이지 추출 (브라우저 없음)
+export class StaticPageFetcher implements PageFetcher {
+  private readonly logger = new Logger(StaticPageFetcher.name);
+
+  constructor(private readonly contentSelector?: string) {}
+
+  async fetch(url: string, validators?: ConditionalValidators): Promise<PageContent | null> {
+    return (await this.fetchWithDetection(url, validators))?.page || null;
+  }
+
+  // clientRendered가 true면 자동 모드에서 브라우저로 다시 가져옴, 실패해도 원인(failure)을 담은 페이지를 반환
+  async fetchWithDetection(url: string, validators?: ConditionalValidators): Promise<{ page: PageContent; clientRendered: boolean } | null> {
+    const redirectChain: RedirectHop[] = [];
+    let currentUrl = url;
+
+    try {
+      this.logger.log(`페이지 크롤링 (정적): ${url}`);
+
+      const response = await axios.get(url, {
+        timeout: crawlerConfig.fetch.staticTimeoutMs,
+        responseType: 'text',
+        maxRedirects: 5,
+        validateStatus: () => true,
+        // follow-redirects가 다음 요청 직전에 호출 (options.href는 이동할 URL)
+        beforeRedirect: (options: any, response: any) => {
+          redirectChain.push({ url: currentUrl, statusCode: response.statusCode });
+          currentUrl = options.href || currentUrl;
+        },
+        headers: {
+          'User-Agent': crawlerConfig.userAgent,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+          ...conditionalHeaders(validators)
+        }
+      });
+
+      const statusCode = response.status;
+      if (statusCode === 304) {
+        return { page: { url, title: '', text: '', statusCode, redirectChain, fetchedWith: 'static' }, clientRendered: false };
+      }
+      if (statusCode >= 400) {
+        this.logger.warn(`페이지 응답 오류 (${url}): HTTP ${statusCode}`);
+        return { page: { url, title: '', text: '', statusCode, redirectChain, fetchedWith: 'static' }, clientRendered: false };
+      }
+
+      const contentType = String(response.headers['content-type'] || '');
+      if (contentType && !/html/i.test(contentType)) {
+        this.logger.warn(`HTML이 아닌 응답 건너뜀 (${url}): ${contentType}`);
+        return {
+          page: { url, title: '', text: '', statusCode, redirectChain, failure: { kind: 'not_html', message: contentType }, fetchedWith: 'static' },
+          clientRendered: false
+        };
+      }
+
+      const finalUrl = response.request?.res?.responseUrl || url;
+      const html = String(response.data);
+      const extracted = extractContent(html, finalUrl, { contentSelector: this.contentSelector });
+
+      return {
+        page: {
+          url: normalizeUrl(finalUrl) || url,
+          title: extracted.title,
+          text: extracted.text,
+          canonicalUrl: extracted.canonicalUrl,
+          links: extracted.links,
+          metadata: extracted.metadata,
+          statusCode,
+          etag: response.headers['etag'] || null,
+          lastModified: response.headers['last-modified'] || null,
+          redirectChain,
+          fetchedWith: 'static'
+        },
+        clientRendered: looksClientRendered(cheerio.load(html), extracted.text)
+      };
+
+    } catch (error) {
+      this.logger.error(`페이지 크롤링 오류 (${url}): ${error.message}`);
+      return {
+        page: { url, title: '', text: '', redirectChain, failure: describeFetchError(error), fetchedWith: 'static' },
+        clientRendered: false
+      };
+    }
+  }
+
+  async close(): Promise<void> {
+    // 정리할 리소스 없음
+  }
+}
+
+// Puppeteer로 렌더링 후 추출 (브라우저는 첫 요청 시 실행)
+export class HeadlessPageFetcher implements PageFetcher {
+  private readonly logger = new Logger(HeadlessPageFetcher.name);
+  private browser: Promise<any> | null = null;
+  private pool: PagePool | null = null;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly extractPage: (page: any, url: string) => Promise<PageContent | null>
+  ) {}
+
+  async fetch(url: string, validators?: ConditionalValidators): Promise<PageContent | null> {
+    const pool = await this.getPool();
+    const content = await pool.use(page => this.withConditionalRequest(page, conditionalHeaders(validators), () => this.extractPage(page, url)));
+    if (content) {
+      content.fetchedWith = 'headless';
+    }
+    return content;
+  }
+
+  async close(): Promise<void> {
+    if (this.browser) {
+      const browser = await this.browser.catch(() => null);
+      this.browser = null;
+      this.pool = null;
+      if (browser) {
+        await browser.close();
+      }
+    }
+  }
+
+  // 조건부 요청 헤더는 첫 문서 요청에만 추가 (하위 리소스가 캐시 없이 304를 받지 않도록)
+  private async withConditionalRequest<T>(page: any, headers: Record<string, string>, task: () => Promise<T>): Promise<T> {
+    if (Object.keys(headers).length === 0) {
+      return task();
+    }
+
+    const onRequest = (request: any) => {
+      const isDocument = request.isNavigationRequest() && request.frame() === page.mainFrame() && request.redirectChain().length === 0;
+      request.continue(isDocument ? { headers: { ...request.headers(), ...headers } } : undefined)
+        .catch(() => undefined);
+    };
+
+    await page.setRequestInterception(true);
+    page.on('request', onRequest);
+    try {
+      return await task();
+    } finally {
+      page.off('request', onRequest);
+      await page.setRequestInterception(false).catch(() => undefined);
+    }
+  }
+
+  private async getPool(): Promise<PagePool> {
+    if (!this.browser) {
+      this.logger.log('헤드리스 브라우저 실행');
+      this.browser = puppeteer.launch({
+        executablePath: chromium.path,
+        headless: true,
+        args: [
+          '--no-sandbox',
+          '--disable-setuid-sandbox',
+          '--disable-dev-shm-usage',
+          '--disable-gpu',
+          '--single-process'
+        ]
+      });
+      this.browser.catch(() => {
+        this.browser = null;
+      });
+    }
+
+    const browser = await this.browser;
+    if (!this.pool) {
+      this.pool = new PagePool(browser, this.concurrency, page => page.setUserAgent(crawlerConfig.userAgent));
+    }
+    return this.pool;
+  }
+}
+
+// 이 횟수만큼 연속으로 클라이언트 렌더링 페이지가 나온 호스트는 이후 바로 브라우저 사용
+const HEADLESS_HOST_THRESHOLD = 3;
+
+// 정적 가져오기를 먼저 시도하고 클라이언트 렌더링 페이지만 브라우저로 다시 가져옴
+export class AutoPageFetcher implements PageFetcher {
+  private readonly logger = new Logger(AutoPageFetcher.name);
+  private readonly headlessHosts = new Set<string>();
+  private readonly clientRenderedCounts = new Map<string, number>();
+
+  constructor(
+    private readonly staticFetcher: StaticPageFetcher,
+    private readonly headlessFetcher: HeadlessPageFetcher,
+    private readonly beforeRetry: (url: string) => Promise<void>
+  ) {}
+
+  async fetch(url: string, validators?: ConditionalValidators): Promise<PageContent | null> {
+    const host = new URL(url).host;
+    if (this.headlessHosts.has(host)) {
+      return this.headlessFetcher.fetch(url, validators);
+    }
+
+    const result = await this.staticFetcher.fetchWithDetection(url, validators);
+    if (!result || !result.clientRendered) {
+      if (result && !result.page.failure && result.page.text) {
+        this.clientRenderedCounts.delete(host);
+      }
+      return result ? result.page : null;
+    }
+
+    this.logger.log(`클라이언트 렌더링 페이지로 판단, 브라우저로 다시 가져옴: ${url}`);
+    const count = (this.clientRenderedCounts.get(host) || 0) + 1;
+    this.clientRenderedCounts.set(host, count);
+    if (count >= HEADLESS_HOST_THRESHOLD) {
+      this.logger.log(`클라이언트 렌더링 사이트로 판단, 이후 브라우저로 가져옴: ${host}`);
+      this.headlessHosts.add(host);
+    }
+    await this.beforeRetry(url);
+    return this.headlessFetcher.fetch(url, validators);
+  }
+
+  async close(): Promise<void> {
+    await this.headlessFetcher.close();
+  }
+}
@@ -0,0 +1,39 @@
+import { Semaphore } from './concurrency';
+
+// 브라우저 탭 풀 (최대 size개의 페이지를 재사용)
+export class PagePool {
+  private readonly idle: any[] = [];
+  private readonly slots: Semaphore;
+
+  constructor(
+    private readonly browser: any,
+    size: number,
+    private readonly setup?: (page: any) => Promise<void>
+  ) {
+    this.slots = new Semaphore(size);
+  }
+
+  async use<T>(task: (page: any) => Promise<T>): Promise<T> {
+    await this.slots.acquire();
+    let page = null;
+
+    try {
+      page = this.idle.pop() || await this.createPage();
+      return await task(page);
+    } finally {
+      // 닫히거나 손상된 탭은 재사용하지 않음
+      if (page && !page.isClosed()) {
+        this.idle.push(page);
+      }
+      this.slots.release();
+    }
+  }
+
+  private async createPage(): Promise<any> {
+    const page = await this.browser.newPage();
+    if (this.setup) {
+      await this.setup(page);
+    }
+    return page;
+  }
+}
@@ -0,0 +1,194 @@
+// pdf-parse에 포함된 pdf.js 빌드를 직접 사용 (페이지별 텍스트와 목차는 pdf-parse가 노출하지 않음)
+import * as PDFJS from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+import { DocumentMetadata, mergeDocumentMetadata, normalizeLanguage, parseDate } from './document-metadata';
+
+export interface PdfPage {
+  // 1부터 시작하는 페이지 번호
+  pageNumber: number;
+  text: string;
+  // 이 페이지가 속한 목차 항목 경로 (예: ["2. 설치", "2.1 Linux"])
+  sectionPath: string[];
+}
+
+export interface PdfOutlineEntry {
+  title: string;
+  pageNumber: number;
+  level: number;
+}
+
+export interface PdfDocument {
+  // 문서 정보(Title) 또는 XMP 메타데이터(dc:title)의 제목
+  title: string | null;
+  // 문서 정보(Author, CreationDate, ModDate) 또는 XMP 메타데이터의 작성자/작성일/수정일/언어
+  metadata: DocumentMetadata;
+  pageCount: number;
+  pages: PdfPage[];
+  outline: PdfOutlineEntry[];
+}
+
+export interface PdfExtractOptions {
+  // 이 페이지 수까지만 추출 (0이면 전체)
+  maxPages: number;
+  // 파싱 전체 제한 시간
+  timeoutMs: number;
+}
+
+PDFJS.disableWorker = true;
+
+// PDF를 페이지 단위로 추출하고 목차 항목을 각 페이지에 매핑
+export async function extractPdf(buffer: Buffer, options: PdfExtractOptions): Promise<PdfDocument> {
+  const deadline = Date.now() + options.timeoutMs;
+  const doc: any = await withDeadline<any>(PDFJS.getDocument(new Uint8Array(buffer)), deadline);
+
+  try {
+    const metadata = await withDeadline(doc.getMetadata().catch(() => null), deadline);
+    const outline = await withDeadline(resolveOutline(doc), deadline);
+    const pageCount: number = doc.numPages;
+    const lastPage = options.maxPages > 0 ? Math.min(options.maxPages, pageCount) : pageCount;
+    const pages: PdfPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= lastPage; pageNumber++) {
+      const text = await withDeadline(renderPageText(doc, pageNumber), deadline);
+      pages.push({ pageNumber, text, sectionPath: sectionPathAt(outline, pageNumber) });
+    }
+
+    return { title: metadataTitle(metadata), metadata: documentMetadata(metadata), pageCount, pages, outline };
+  } finally {
+    doc.destroy();
+  }
+}
+
+// pdf-parse의 기본 렌더링과 같은 방식: 같은 y 좌표의 텍스트는 이어 붙이고 줄이 바뀌면 개행
+async function renderPageText(doc: any, pageNumber: number): Promise<string> {
+  try {
+    const page = await doc.getPage(pageNumber);
+    const content = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | null = null;
+    let text = '';
+    for (const item of content.items) {
+      const y = item.transform[5];
+      text += lastY === null || lastY === y ? item.str : `\n${item.str}`;
+      lastY = y;
+    }
+    return text.trim();
+  } catch {
+    // 손상된 페이지는 건너뜀
+    return '';
+  }
+}
+
+function metadataTitle(metadata: any): string | null {
+  const infoTitle = metadata && metadata.info && typeof metadata.info.Title === 'string' ? metadata.info.Title.trim() : '';
+  if (infoTitle) {
+    return infoTitle;
+  }
+  const xmpTitle = metadata && metadata.metadata ? metadata.metadata.get('dc:title') : null;
+  return typeof xmpTitle === 'string' && xmpTitle.trim() ? xmpTitle.trim() : null;
+}
+
+function documentMetadata(metadata: any): DocumentMetadata {
+  const info = metadata && metadata.info ? metadata.info : {};
+  const xmp = (name: string) => {
+    const value = metadata && metadata.metadata ? metadata.metadata.get(name) : null;
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  };
+  const text = (value: any) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  return mergeDocumentMetadata(
+    {
+      author: text(info.Author),
+      publishedAt: parsePdfDate(info.CreationDate),
+      modifiedAt: parsePdfDate(info.ModDate)
+    },
+    {
+      language: normalizeLanguage(xmp('dc:language')),
+      author: xmp('dc:creator'),
+      publishedAt: parseDate(xmp('xmp:createdate')),
+      modifiedAt: parseDate(xmp('xmp:modifydate'))
+    }
+  );
+}
+
+// PDF 날짜 문자열 (예: "D:20240115093000+09'00'")
+function parsePdfDate(value: any): Date | null {
+  const match = typeof value === 'string' ? value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/) : null;
+  if (!match) {
+    return null;
+  }
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5) || '00'}`;
+  return parseDate(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+}
+
+// 목차(북마크)를 페이지 번호 순서의 평탄한 목록으로 변환 (페이지를 알 수 없는 항목은 제외)
+async function resolveOutline(doc: any): Promise<PdfOutlineEntry[]> {
+  const items = await doc.getOutline().catch(() => null);
+  if (!items) {
+    return [];
+  }
+
+  const entries: PdfOutlineEntry[] = [];
+  const visit = async (nodes: any[], level: number) => {
+    for (const node of nodes) {
+      const pageNumber = await destinationPage(doc, node.dest);
+      const title = (node.title || '').replace(/\s+/g, ' ').trim();
+      if (pageNumber && title) {
+        entries.push({ title, pageNumber, level });
+      }
+      if (node.items && node.items.length > 0) {
+        await visit(node.items, level + 1);
+      }
+    }
+  };
+  await visit(items, 0);
+
+  return entries;
+}
+
+async function destinationPage(doc: any, dest: any): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) {
+      return null;
+    }
+    const target = explicit[0];
+    const pageIndex = typeof target === 'number' ? target : await doc.getPageIndex(target);
+    return pageIndex + 1;
+  } catch {
+    return null;
+  }
+}
+
+// 페이지 시작 시점에 열려 있는 목차 항목 경로 (문서 순서상 마지막으로 시작한 항목 기준)
+function sectionPathAt(outline: PdfOutlineEntry[], pageNumber: number): string[] {
+  const path: string[] = [];
+  outline.forEach(entry => {
+    if (entry.pageNumber > pageNumber) {
+      return;
+    }
+    path.length = Math.min(path.length, entry.level);
+    path[entry.level] = entry.title;
+  });
+  return path.filter(title => title);
+}
+
+function withDeadline<T>(promise: Promise<T>, deadline: number): Promise<T> {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) {
+    return Promise.reject(new Error('PDF 처리 시간이 초과되었습니다'));
+  }
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('PDF 처리 시간이 초과되었습니다')), remaining);
+  });
+  return Promise.race([promise, timeout]).then(
+    value => {
+      clearTimeout(timer);
+      return value;
+    },
+    error => {
+      clearTimeout(timer);
+      throw error;
+    }
+  );
+}
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { RobotsService } from './robots.service';
+
+jest.mock('axios');
+
+const mockedGet = axios.get as jest.Mock;
+
+const ROBOTS_TXT = `
+# Rules for every crawler
+User-agent: *
+Disallow: /private/
+Allow: /private/public-page
+Disallow: /*.json$
+Disallow: /search?
+Disallow:
+Crawl-delay: 5
+
+User-agent: OtherBot
+User-agent: ChatbotAdminBot
+Disallow: /drafts/
+Allow: /drafts/published
+Disallow: /drafts/published
+Crawl-delay: 120
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+function respond(status: number, data: string = ''): void {
+  mockedGet.mockResolvedValue({ status, data });
+}
+
+describe('RobotsService', () => {
+  let service: RobotsService;
+
+  beforeEach(() => {
+    mockedGet.mockReset();
+    service = new RobotsService();
+  });
+
+  describe('with a robots.txt', () => {
+    const generic = ROBOTS_TXT.replace(/User-agent: OtherBot[\s\S]*?Crawl-delay: 120\n/, '');
+
+    it('applies the longest matching rule, with Allow winning ties', async () => {
+      respond(200, ROBOTS_TXT);
+
+      expect(await service.checkUrl('https://example.com/drafts/intro')).toEqual({
+        allowed: false,
+        reason: 'robots_disallowed',
+        detail: 'Disallow: /drafts/'
+      });
+      expect(await service.checkUrl('https://example.com/drafts/published/guide')).toEqual({ allowed: true });
+    });
+
+    it('uses the group naming the crawler instead of the * group', async () => {
+      respond(200, ROBOTS_TXT);
+
+      expect((await service.checkUrl('https://example.com/private/notes')).allowed).toBe(true);
+      expect(await service.getCrawlDelayMs('https://example.com')).toBe(30000);
+    });
+
+    it('matches wildcards, end anchors and query strings in the * group', async () => {
+      respond(200, generic);
+
+      expect((await service.checkUrl('https://example.com/private/notes')).allowed).toBe(false);
+      expect((await service.checkUrl('https://example.com/private/public-page')).allowed).toBe(true);
+      expect((await service.checkUrl('https://example.com/api/data.json')).allowed).toBe(false);
+      expect((await service.checkUrl('https://example.com/api/data.json?v=2')).allowed).toBe(true);
+      expect((await service.checkUrl('https://example.com/search?q=proxy')).allowed).toBe(false);
+      expect((await service.checkUrl('https://example.com/search')).allowed).toBe(true);
+      expect(await service.getCrawlDelayMs('https://example.com')).toBe(5000);
+    });
+
+    it('collects sitemaps and fetches robots.txt once per origin', async () => {
+      respond(200, ROBOTS_TXT);
+
+      expect(await service.getSitemaps('https://example.com')).toEqual(['https://example.com/sitemap.xml']);
+      await service.checkUrl('https://example.com/a');
+      await service.checkUrl('https://example.com/b');
+
+      expect(mockedGet).toHaveBeenCalledTimes(1);
+      expect(mockedGet.mock.calls[0][0]).toBe('https://example.com/robots.txt');
+    });
+  });
+
+  it('allows everything when robots.txt is missing', async () => {
+    respond(404);
+
+    expect(await service.checkUrl('https://example.com/private/')).toEqual({ allowed: true });
+    expect(await service.getCrawlDelayMs('https://example.com')).toBeNull();
+  });
+
+  it('allows everything when robots.txt cannot be fetched', async () => {
+    mockedGet.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    expect(await service.checkUrl('https://example.com/private/')).toEqual({ allowed: true });
+  });
+
+  it('blocks everything while robots.txt returns a server error', async () => {
+    respond(503);
+
+    expect(await service.checkUrl('https://example.com/')).toEqual({
+      allowed: false,
+      reason: 'robots_unavailable',
+      detail: 'robots.txt returned HTTP 503'
+    });
+  });
+});
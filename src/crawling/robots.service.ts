@@ -0,0 +1,229 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { crawlerConfig } from '../config/crawler.config';
+import { HostRateLimiter, RateLimit } from './concurrency';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+interface RobotsPolicy {
+  // null이면 robots.txt를 가져오지 못해 전체 차단
+  groups: RobotsGroup[] | null;
+  sitemaps: string[];
+  fetchedAt: number;
+  unavailableReason?: string;
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  reason?: string;
+  detail?: string;
+}
+
+@Injectable()
+export class RobotsService {
+  private readonly logger = new Logger(RobotsService.name);
+  private readonly policies: Map<string, Promise<RobotsPolicy>> = new Map();
+  private readonly rateLimiter = new HostRateLimiter();
+
+  async checkUrl(url: string): Promise<RobotsDecision> {
+    if (!crawlerConfig.robots.enabled) {
+      return { allowed: true };
+    }
+
+    const target = new URL(url);
+    const policy = await this.getPolicy(target.origin);
+
+    if (!policy.groups) {
+      return { allowed: false, reason: 'robots_unavailable', detail: policy.unavailableReason };
+    }
+
+    const group = this.selectGroup(policy.groups);
+    if (!group) {
+      return { allowed: true };
+    }
+
+    const path = target.pathname + target.search;
+    let matched: RobotsRule | null = null;
+    for (const rule of group.rules) {
+      if (!this.matchesPath(rule.path, path)) {
+        continue;
+      }
+      // 가장 긴 규칙 우선, 길이가 같으면 Allow 우선
+      if (!matched ||
+          rule.path.length > matched.path.length ||
+          (rule.path.length === matched.path.length && rule.allow)) {
+        matched = rule;
+      }
+    }
+
+    if (matched && !matched.allow) {
+      return { allowed: false, reason: 'robots_disallowed', detail: `Disallow: ${matched.path}` };
+    }
+    return { allowed: true };
+  }
+
+  // Crawl-delay(없으면 기본 딜레이)만큼 같은 호스트 요청 간격 유지
+  async waitForTurn(url: string): Promise<void> {
+    const target = new URL(url);
+    await this.rateLimiter.acquire(target.host, await this.getRateLimit(target.origin));
+  }
+
+  // robots.txt에 Crawl-delay가 있으면 그 간격을 엄격히 지키고, 없으면 기본 토큰 버킷 적용
+  async getRateLimit(origin: string): Promise<RateLimit> {
+    const crawlDelayMs = await this.getCrawlDelayMs(origin);
+    if (crawlDelayMs) {
+      return { requestsPerSecond: 1000 / crawlDelayMs, burst: 1 };
+    }
+    return crawlerConfig.rateLimit;
+  }
+
+  // robots.txt의 Crawl-delay (없으면 null)
+  async getCrawlDelayMs(origin: string): Promise<number | null> {
+    if (!crawlerConfig.robots.enabled) {
+      return null;
+    }
+
+    const policy = await this.getPolicy(origin);
+    const group = policy.groups ? this.selectGroup(policy.groups) : null;
+    if (!group?.crawlDelay) {
+      return null;
+    }
+
+    return Math.min(group.crawlDelay * 1000, crawlerConfig.maxCrawlDelayMs);
+  }
+
+  async getSitemaps(origin: string): Promise<string[]> {
+    const policy = await this.getPolicy(origin);
+    return policy.sitemaps;
+  }
+
+  private getPolicy(origin: string): Promise<RobotsPolicy> {
+    const cached = this.policies.get(origin);
+    if (cached) {
+      return cached.then(policy => {
+        if (Date.now() - policy.fetchedAt < crawlerConfig.robots.cacheTtlMs) {
+          return policy;
+        }
+        this.policies.delete(origin);
+        return this.getPolicy(origin);
+      });
+    }
+
+    const pending = this.fetchPolicy(origin);
+    this.policies.set(origin, pending);
+    return pending;
+  }
+
+  private async fetchPolicy(origin: string): Promise<RobotsPolicy> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await axios.get(robotsUrl, {
+        timeout: crawlerConfig.robots.fetchTimeoutMs,
+        responseType: 'text',
+        headers: { 'User-Agent': crawlerConfig.userAgent },
+        validateStatus: () => true
+      });
+
+      if (response.status >= 500) {
+        this.logger.warn(`robots.txt 서버 오류 (${response.status}): ${robotsUrl}`);
+        return {
+          groups: null,
+          sitemaps: [],
+          fetchedAt: Date.now(),
+          unavailableReason: `robots.txt returned HTTP ${response.status}`
+        };
+      }
+
+      if (response.status >= 400) {
+        // robots.txt가 없으면 전체 허용
+        return { groups: [], sitemaps: [], fetchedAt: Date.now() };
+      }
+
+      const policy = this.parseRobotsTxt(String(response.data || ''));
+      this.logger.log(`robots.txt 로드 완료: ${robotsUrl} (${policy.groups.length}개 그룹)`);
+      return policy;
+
+    } catch (error) {
+      this.logger.warn(`robots.txt 조회 실패, 전체 허용으로 처리: ${robotsUrl} (${error.message})`);
+      return { groups: [], sitemaps: [], fetchedAt: Date.now() };
+    }
+  }
+
+  private parseRobotsTxt(text: string): RobotsPolicy {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          if (!current || !lastWasAgent) {
+            current = { agents: [], rules: [] };
+            groups.push(current);
+          }
+          current.agents.push(value.toLowerCase());
+          lastWasAgent = true;
+          break;
+        case 'allow':
+        case 'disallow':
+          lastWasAgent = false;
+          // 빈 Disallow는 전체 허용을 의미
+          if (current && value) {
+            current.rules.push({ allow: field === 'allow', path: value });
+          }
+          break;
+        case 'crawl-delay':
+          lastWasAgent = false;
+          if (current && !isNaN(parseFloat(value))) {
+            current.crawlDelay = parseFloat(value);
+          }
+          break;
+        case 'sitemap':
+          if (value) {
+            sitemaps.push(value);
+          }
+          break;
+        default:
+          lastWasAgent = false;
+      }
+    }
+
+    return { groups, sitemaps, fetchedAt: Date.now() };
+  }
+
+  private selectGroup(groups: RobotsGroup[]): RobotsGroup | null {
+    const token = crawlerConfig.robots.userAgentToken.toLowerCase();
+    const specific = groups.find(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+    return specific || groups.find(group => group.agents.includes('*')) || null;
+  }
+
+  private matchesPath(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+  }
+}
@@ -0,0 +1,51 @@
+import { SIMHASH_BANDS, computeSimHash, hammingDistance, popcount, simHashBands } from './simhash';
+
+const TEXT = 'Configure the proxy settings before installing the command line interface on corporate Linux workstations so that downloads succeed';
+
+describe('computeSimHash', () => {
+  it('returns a 64-bit hash as 16 hex characters', () => {
+    expect(computeSimHash(TEXT)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('returns null when the text has no tokens', () => {
+    expect(computeSimHash('  --- !!! ')).toBeNull();
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(computeSimHash(TEXT.toUpperCase().replace(/ /g, ', '))).toBe(computeSimHash(TEXT));
+  });
+
+  it('keeps near-duplicate texts closer than unrelated texts', () => {
+    const hash = computeSimHash(TEXT) as string;
+    const edited = computeSimHash(`${TEXT} quickly`) as string;
+    const unrelated = computeSimHash('Monthly billing reports list every invoice issued to the customer account during the period') as string;
+
+    expect(hammingDistance(hash, edited)).toBeLessThan(hammingDistance(hash, unrelated));
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits across both 32-bit halves', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+  });
+});
+
+describe('popcount', () => {
+  it('counts set bits of a signed 32-bit value', () => {
+    expect(popcount(0)).toBe(0);
+    expect(popcount(0xff)).toBe(8);
+    expect(popcount(-1)).toBe(32);
+  });
+});
+
+describe('simHashBands', () => {
+  it('splits the hash into numbered bands', () => {
+    const bands = simHashBands('0123456789abcdef');
+
+    expect(bands).toHaveLength(SIMHASH_BANDS);
+    expect(bands[0]).toBe('0:01');
+    expect(bands[7]).toBe('7:ef');
+  });
+});
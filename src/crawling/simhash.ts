@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+
+// 수집 시 다른 문서의 유사 청크 처리: link(임베딩을 재사용하고 원본 청크에 연결), skip(저장하지 않음), off(검사 안 함)
+export type DuplicateMode = 'link' | 'skip' | 'off';
+
+// 64비트 SimHash를 16자리 16진수 문자열로 표현 (앞에서부터 2자리씩 8개 밴드)
+export const SIMHASH_BANDS = 8;
+
+const TOKEN_PATTERN = /[ᄀ-ᇿ぀-ヿ㄰-㆏㐀-䶿一-鿿豈-﫿]|[가-힯]+|[a-z0-9_]+/g;
+const SHINGLE_SIZE = 3;
+
+// 단어 3-gram 빈도로 계산한 SimHash, 비슷한 텍스트일수록 해밍 거리가 작음 (토큰이 없으면 null)
+export function computeSimHash(text: string): string | null {
+  const tokens = text.toLowerCase().match(TOKEN_PATTERN) || [];
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const shingles = new Map<string, number>();
+  const size = Math.min(SHINGLE_SIZE, tokens.length);
+  for (let index = 0; index + size <= tokens.length; index++) {
+    const shingle = tokens.slice(index, index + size).join(' ');
+    shingles.set(shingle, (shingles.get(shingle) || 0) + 1);
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  shingles.forEach((count, shingle) => {
+    const digest = createHash('md5').update(shingle).digest();
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (digest[bit >> 3] >> (7 - (bit & 7))) & 1;
+      weights[bit] += set ? count : -count;
+    }
+  });
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      value = (value << 1) | (weights[nibble * 4 + bit] > 0 ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const [aHigh, aLow] = simHashWords(a);
+  const [bHigh, bLow] = simHashWords(b);
+  return popcount(aHigh ^ bHigh) + popcount(aLow ^ bLow);
+}
+
+// 대량 비교용 32비트 정수 두 개 표현
+export function simHashWords(hash: string): [number, number] {
+  return [parseInt(hash.substr(0, 8), 16) | 0, parseInt(hash.substr(8, 8), 16) | 0];
+}
+
+export function popcount(value: number): number {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// 해밍 거리가 밴드 수보다 작으면 적어도 한 밴드는 정확히 일치하므로 밴드 일치로 후보를 좁힘 (예: "3:af")
+export function simHashBands(hash: string): string[] {
+  const width = hash.length / SIMHASH_BANDS;
+  return Array.from({ length: SIMHASH_BANDS }, (_, band) => `${band}:${hash.substr(band * width, width)}`);
+}
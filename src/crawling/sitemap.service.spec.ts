@@ -0,0 +1,80 @@
+import { parseSitemapXml, selectSitemapEntries, SitemapEntry } from './sitemap.service';
+
+const SITEMAP_URL = 'https://example.com/sitemap.xml';
+
+function entry(path: string, lastmod: string | null): SitemapEntry {
+  return { url: `https://example.com${path}`, lastmod: lastmod ? new Date(lastmod) : null, sitemapUrl: SITEMAP_URL };
+}
+
+describe('parseSitemapXml', () => {
+  it('extracts child sitemaps from a sitemap index', () => {
+    const xml = `<?xml version="1.0"?>
+      <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/sitemap-docs.xml</loc></sitemap>
+        <sitemap><loc>/sitemap-blog.xml</loc></sitemap>
+      </sitemapindex>`;
+
+    const parsed = parseSitemapXml(xml, SITEMAP_URL);
+
+    expect(parsed.sitemaps).toEqual(['https://example.com/sitemap-docs.xml', 'https://example.com/sitemap-blog.xml']);
+    expect(parsed.entries).toEqual([]);
+  });
+
+  it('extracts page URLs with lastmod and ignores invalid dates', () => {
+    const xml = `<?xml version="1.0"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/a</loc><lastmod>2024-05-01</lastmod></url>
+        <url><loc>https://example.com/b</loc><lastmod>not a date</lastmod></url>
+        <url><loc>https://example.com/c</loc></url>
+        <url><loc>mailto:someone@example.com</loc></url>
+      </urlset>`;
+
+    const parsed = parseSitemapXml(xml, SITEMAP_URL);
+
+    expect(parsed.entries.map(e => e.url)).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/c']);
+    expect(parsed.entries[0].lastmod).toEqual(new Date('2024-05-01'));
+    expect(parsed.entries[1].lastmod).toBeNull();
+    expect(parsed.entries[2].lastmod).toBeNull();
+    expect(parsed.entries[0].sitemapUrl).toBe(SITEMAP_URL);
+  });
+});
+
+describe('selectSitemapEntries', () => {
+  it('orders entries by lastmod, newest first, with undated entries last in document order', () => {
+    const entries = [
+      entry('/undated-1', null),
+      entry('/old', '2023-01-01'),
+      entry('/new', '2024-06-01'),
+      entry('/undated-2', null),
+      entry('/middle', '2024-01-01')
+    ];
+
+    expect(selectSitemapEntries(entries).map(e => e.url)).toEqual([
+      'https://example.com/new',
+      'https://example.com/middle',
+      'https://example.com/old',
+      'https://example.com/undated-1',
+      'https://example.com/undated-2'
+    ]);
+  });
+
+  it('drops entries modified before modifiedSince but keeps undated entries', () => {
+    const entries = [entry('/old', '2023-01-01'), entry('/undated', null), entry('/new', '2024-06-01')];
+
+    const selected = selectSitemapEntries(entries, { modifiedSince: new Date('2024-01-01') });
+
+    expect(selected.map(e => e.url)).toEqual(['https://example.com/new', 'https://example.com/undated']);
+  });
+
+  it('truncates after sorting so recent entries late in the sitemap are kept', () => {
+    const entries = [
+      ...Array.from({ length: 10 }, (_, index) => entry(`/old-${index}`, '2020-01-01')),
+      entry('/recent', '2024-06-01')
+    ];
+
+    const selected = selectSitemapEntries(entries, { maxEntries: 3 });
+
+    expect(selected).toHaveLength(3);
+    expect(selected[0].url).toBe('https://example.com/recent');
+  });
+});
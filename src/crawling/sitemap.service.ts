@@ -0,0 +1,156 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+import { RobotsService } from './robots.service';
+import { normalizeUrl } from './url-frontier';
+import { crawlerConfig } from '../config/crawler.config';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod: Date | null;
+  sitemapUrl: string;
+}
+
+export interface SitemapCollectOptions {
+  modifiedSince?: Date;
+  // lastmod 최신순 정렬 후 남길 항목 수 (수집 자체는 안전 한도까지 진행)
+  maxEntries?: number;
+}
+
+const MAX_SITEMAP_FILES = 50;
+const MAX_SITEMAP_ENTRIES = 50000;
+// 사이트맵 프로토콜의 파일당 최대 크기 (압축 해제 후 기준)
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+// 사이트맵 XML 하나에서 하위 사이트맵(sitemapindex)과 페이지 항목(urlset) 추출
+export function parseSitemapXml(xml: string, sitemapUrl: string): { sitemaps: string[]; entries: SitemapEntry[] } {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const sitemaps: string[] = [];
+  const entries: SitemapEntry[] = [];
+
+  $('sitemapindex > sitemap > loc').each((_, element) => {
+    const loc = normalizeUrl($(element).text().trim(), sitemapUrl);
+    if (loc) {
+      sitemaps.push(loc);
+    }
+  });
+
+  $('urlset > url').each((_, element) => {
+    const loc = normalizeUrl($(element).children('loc').text().trim(), sitemapUrl);
+    if (!loc) {
+      return;
+    }
+
+    const lastmodText = $(element).children('lastmod').text().trim();
+    const lastmod = lastmodText ? new Date(lastmodText) : null;
+    entries.push({
+      url: loc,
+      lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : null,
+      sitemapUrl
+    });
+  });
+
+  return { sitemaps, entries };
+}
+
+// lastmod가 없는 항목은 변경 여부를 알 수 없으므로 유지
+function isModifiedSince(entry: SitemapEntry, modifiedSince?: Date): boolean {
+  return !modifiedSince || !entry.lastmod || entry.lastmod >= modifiedSince;
+}
+
+// modifiedSince 이후 항목을 lastmod 최신순(lastmod 없는 항목은 뒤, 그 안에서는 문서 순서)으로 정렬한 뒤 maxEntries개로 자름
+export function selectSitemapEntries(entries: SitemapEntry[], options: SitemapCollectOptions = {}): SitemapEntry[] {
+  const result = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => isModifiedSince(entry, options.modifiedSince))
+    .sort((a, b) => {
+      const aTime = a.entry.lastmod ? a.entry.lastmod.getTime() : null;
+      const bTime = b.entry.lastmod ? b.entry.lastmod.getTime() : null;
+      if (aTime === bTime) return a.index - b.index;
+      if (aTime === null) return 1;
+      if (bTime === null) return -1;
+      return bTime - aTime;
+    })
+    .map(({ entry }) => entry);
+
+  return options.maxEntries ? result.slice(0, options.maxEntries) : result;
+}
+
+@Injectable()
+export class SitemapService {
+  private readonly logger = new Logger(SitemapService.name);
+
+  constructor(private readonly robotsService: RobotsService) {}
+
+  // robots.txt의 Sitemap 지시자와 /sitemap.xml에서 사이트맵 탐색
+  async discoverSitemaps(siteUrl: string): Promise<string[]> {
+    const origin = new URL(siteUrl).origin;
+    const fromRobots = await this.robotsService.getSitemaps(origin);
+    const candidates = [...fromRobots, `${origin}/sitemap.xml`];
+
+    return [...new Set(candidates.map(url => normalizeUrl(url, origin)).filter(Boolean))];
+  }
+
+  // 사이트맵 인덱스를 따라가며 페이지 URL 수집 (안전 한도까지 모은 뒤 lastmod 최신순으로 maxEntries개 선택)
+  async collectEntries(sitemapUrls: string[], options: SitemapCollectOptions = {}): Promise<SitemapEntry[]> {
+    const queue = [...sitemapUrls];
+    const visited = new Set<string>();
+    const entries = new Map<string, SitemapEntry>();
+
+    while (queue.length > 0 && visited.size < MAX_SITEMAP_FILES && entries.size < MAX_SITEMAP_ENTRIES) {
+      const sitemapUrl = queue.shift();
+      if (visited.has(sitemapUrl)) {
+        continue;
+      }
+      visited.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl);
+      if (!xml) {
+        continue;
+      }
+
+      const parsed = parseSitemapXml(xml, sitemapUrl);
+      parsed.sitemaps.filter(loc => !visited.has(loc)).forEach(loc => queue.push(loc));
+
+      // modifiedSince는 수집하면서 적용해야 오래된 항목이 안전 한도를 채우지 않음
+      for (const entry of parsed.entries) {
+        if (entries.size >= MAX_SITEMAP_ENTRIES) {
+          break;
+        }
+        if (!entries.has(entry.url) && isModifiedSince(entry, options.modifiedSince)) {
+          entries.set(entry.url, entry);
+        }
+      }
+    }
+
+    const result = selectSitemapEntries(Array.from(entries.values()), options);
+    this.logger.log(`사이트맵 ${visited.size}개에서 ${entries.size}개 URL 수집, ${result.length}개 선택`);
+    return result;
+  }
+
+  private async fetchSitemap(url: string): Promise<string | null> {
+    try {
+      const response = await axios.get(url, {
+        responseType: 'arraybuffer',
+        timeout: 30000,
+        maxContentLength: MAX_SITEMAP_BYTES,
+        headers: {
+          'User-Agent': crawlerConfig.userAgent,
+          'Accept': 'application/xml,text/xml,application/x-gzip,*/*'
+        }
+      });
+
+      let buffer = Buffer.from(response.data);
+      // gzip 매직 넘버 확인 (.xml.gz)
+      if (buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        buffer = gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES });
+      }
+
+      return buffer.toString('utf-8');
+    } catch (error) {
+      this.logger.warn(`사이트맵을 가져올 수 없습니다: ${url} (${error.message})`);
+      return null;
+    }
+  }
+}
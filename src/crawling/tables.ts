@@ -0,0 +1,79 @@
+export type TableFormat = 'markdown' | 'key-value';
+
+export interface ParsedTable {
+  header: string[];
+  rows: string[][];
+}
+
+// 구분선 줄 (| --- | :---: |)
+const SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+export function isTableSeparator(line: string): boolean {
+  return SEPARATOR_PATTERN.test(line);
+}
+
+export function isTableRow(line: string): boolean {
+  return line.includes('|') && line.trim() !== '|';
+}
+
+// 셀 배열을 Markdown 표로 변환 (첫 행이 머리글, 열 수가 다른 행은 빈 셀로 채움)
+export function renderMarkdownTable(cells: string[][]): string {
+  const rows = cells.filter(row => row.length > 0);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')].map(escapeCell);
+  const [header, ...body] = rows;
+  return [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.map(row => `| ${pad(row).join(' | ')} |`)
+  ].join('\n');
+}
+
+// Markdown 표 줄(머리글, 구분선, 본문)을 셀 배열로 변환
+export function parseMarkdownTable(lines: string[]): ParsedTable {
+  const [header, , ...body] = lines.map(line => splitRow(line));
+  return { header, rows: body };
+}
+
+// 행마다 "머리글: 값" 형식의 한 줄 (빈 셀은 생략)
+export function renderKeyValueRows(table: ParsedTable): string[] {
+  return table.rows
+    .map(row => row
+      .map((value, index) => {
+        const key = table.header[index] || `Column ${index + 1}`;
+        return value ? `${key}: ${value}` : '';
+      })
+      .filter(pair => pair)
+      .join('; '))
+    .filter(line => line);
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+
+  for (let index = 0; index < trimmed.length; index++) {
+    const char = trimmed[index];
+    if (char === '\\' && trimmed[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|');
+}
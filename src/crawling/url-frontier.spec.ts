@@ -0,0 +1,60 @@
+import { UrlFrontier, normalizeUrl } from './url-frontier';
+
+describe('normalizeUrl', () => {
+  it('resolves relative links against the base URL', () => {
+    expect(normalizeUrl('../install', 'https://example.com/docs/guide/')).toBe('https://example.com/docs/install');
+  });
+
+  it('removes the fragment and tracking parameters and sorts the query', () => {
+    expect(normalizeUrl('https://example.com/docs?b=2&utm_source=mail&a=1&gclid=x#setup')).toBe('https://example.com/docs?a=1&b=2');
+  });
+
+  it('rejects invalid and non-http URLs', () => {
+    expect(normalizeUrl('not a url')).toBeNull();
+    expect(normalizeUrl('mailto:team@example.com')).toBeNull();
+  });
+});
+
+describe('UrlFrontier', () => {
+  it('dequeues URLs in insertion order and skips duplicates', () => {
+    const frontier = new UrlFrontier(2);
+
+    expect(frontier.add('https://example.com/', 0, null)).toBe(true);
+    expect(frontier.add('https://example.com/a', 1, 'https://example.com/')).toBe(true);
+    expect(frontier.add('https://example.com/a#intro', 1, 'https://example.com/')).toBe(false);
+    expect(frontier.size).toBe(2);
+    expect(frontier.next()).toEqual({ url: 'https://example.com/', depth: 0, parentUrl: null });
+    expect(frontier.next()?.url).toBe('https://example.com/a');
+    expect(frontier.next()).toBeUndefined();
+  });
+
+  it('rejects URLs deeper than the maximum depth', () => {
+    const frontier = new UrlFrontier(1);
+
+    expect(frontier.add('https://example.com/a/b', 2, 'https://example.com/a')).toBe(false);
+    expect(frontier.canExpand(0)).toBe(true);
+    expect(frontier.canExpand(1)).toBe(false);
+  });
+
+  it('treats URLs marked as seen as duplicates', () => {
+    const frontier = new UrlFrontier(1);
+    frontier.markSeen('https://example.com/canonical');
+
+    expect(frontier.hasSeen('https://example.com/canonical#top')).toBe(true);
+    expect(frontier.add('https://example.com/canonical', 0, null)).toBe(false);
+  });
+
+  it('restores the queue and seen URLs from a snapshot with pending entries first', () => {
+    const frontier = new UrlFrontier(2);
+    frontier.add('https://example.com/a', 1, null);
+    frontier.add('https://example.com/b', 1, null);
+    const pending = frontier.next()!;
+
+    const restored = UrlFrontier.restore(frontier.snapshot([pending]));
+
+    expect(restored.add('https://example.com/b', 1, null)).toBe(false);
+    expect(restored.next()?.url).toBe('https://example.com/a');
+    expect(restored.next()?.url).toBe('https://example.com/b');
+    expect(restored.size).toBe(0);
+  });
+});
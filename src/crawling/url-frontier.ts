@@ -0,0 +1,106 @@
+// 추적용 쿼리 파라미터 (중복 URL 판별 시 제거)
+const TRACKING_PARAM_PATTERNS: RegExp[] = [
+  /^utm_/i,
+  /^gclid$/i,
+  /^fbclid$/i,
+  /^msclkid$/i,
+  /^yclid$/i,
+  /^igshid$/i,
+  /^mc_(cid|eid)$/i,
+  /^_ga$/i,
+  /^_gl$/i
+];
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  parentUrl: string | null;
+}
+
+export interface FrontierSnapshot {
+  maxDepth: number;
+  queue: FrontierEntry[];
+  seen: string[];
+}
+
+// URL 정규화: 상대 경로 해석, fragment 및 추적 파라미터 제거, 쿼리 정렬
+export function normalizeUrl(rawUrl: string, baseUrl?: string): string | null {
+  try {
+    const url = baseUrl ? new URL(rawUrl, baseUrl) : new URL(rawUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+
+    url.hash = '';
+
+    const params = Array.from(url.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAM_PATTERNS.some(pattern => pattern.test(key)))
+      .sort(([a], [b]) => a.localeCompare(b));
+    url.search = '';
+    params.forEach(([key, value]) => url.searchParams.append(key, value));
+
+    return url.href;
+  } catch (error) {
+    return null;
+  }
+}
+
+// 너비 우선 탐색용 URL 큐 (깊이 제한 및 중복 제거)
+export class UrlFrontier {
+  private readonly queue: FrontierEntry[] = [];
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly maxDepth: number) {}
+
+  add(url: string, depth: number, parentUrl: string | null): boolean {
+    const normalized = normalizeUrl(url);
+    if (!normalized || depth > this.maxDepth || this.seen.has(normalized)) {
+      return false;
+    }
+
+    this.seen.add(normalized);
+    this.queue.push({ url: normalized, depth, parentUrl });
+    return true;
+  }
+
+  // canonical URL 등 큐를 거치지 않은 URL을 방문 처리
+  markSeen(url: string): void {
+    const normalized = normalizeUrl(url);
+    if (normalized) {
+      this.seen.add(normalized);
+    }
+  }
+
+  hasSeen(url: string): boolean {
+    const normalized = normalizeUrl(url);
+    return normalized ? this.seen.has(normalized) : false;
+  }
+
+  canExpand(depth: number): boolean {
+    return depth < this.maxDepth;
+  }
+
+  next(): FrontierEntry | undefined {
+    return this.queue.shift();
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  // 일시정지/재시작 시 남은 큐를 이어서 처리하기 위한 스냅샷 (pending은 큐 맨 앞에 복원)
+  snapshot(pending: FrontierEntry[] = []): FrontierSnapshot {
+    return {
+      maxDepth: this.maxDepth,
+      queue: [...pending, ...this.queue],
+      seen: Array.from(this.seen)
+    };
+  }
+
+  static restore(snapshot: FrontierSnapshot): UrlFrontier {
+    const frontier = new UrlFrontier(snapshot.maxDepth);
+    snapshot.seen.forEach(url => frontier.seen.add(url));
+    frontier.queue.push(...snapshot.queue);
+    return frontier;
+  }
+}
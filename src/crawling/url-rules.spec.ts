@@ -0,0 +1,68 @@
+import { UrlRules, compileUrlPattern } from './url-rules';
+
+describe('compileUrlPattern', () => {
+  it('treats * as a wildcard and escapes other characters', () => {
+    const regex = compileUrlPattern('/docs/*.html');
+
+    expect(regex.test('/docs/guide/install.html')).toBe(true);
+    expect(regex.test('/docs/installXhtml')).toBe(false);
+  });
+
+  it('compiles /.../flags patterns as regular expressions', () => {
+    expect(compileUrlPattern('/\\/blog\\/\\d+$/i').test('/BLOG/42')).toBe(true);
+  });
+});
+
+describe('UrlRules', () => {
+  const START_URL = 'https://www.example.com/docs/';
+
+  describe('rewrite', () => {
+    it('drops links to other hosts and keeps subdomains only when enabled', () => {
+      expect(new UrlRules(START_URL).rewrite('https://other.com/docs/')).toBeNull();
+      expect(new UrlRules(START_URL).rewrite('https://api.example.com/docs/')).toBeNull();
+      expect(new UrlRules(START_URL, { includeSubdomains: true }).rewrite('https://api.example.com/docs/'))
+        .toBe('https://api.example.com/docs/');
+    });
+
+    it('applies the query string handling', () => {
+      const url = 'https://example.com/docs/search?q=proxy&page=2';
+
+      expect(new UrlRules(START_URL).rewrite(url)).toBe('https://example.com/docs/search?page=2&q=proxy');
+      expect(new UrlRules(START_URL, { queryHandling: 'strip' }).rewrite(url)).toBe('https://example.com/docs/search');
+      expect(new UrlRules(START_URL, { queryHandling: 'allowlist', allowedQueryParams: ['page'] }).rewrite(url))
+        .toBe('https://example.com/docs/search?page=2');
+    });
+  });
+
+  describe('check', () => {
+    it('accepts URLs that match every rule', () => {
+      expect(new UrlRules(START_URL, { pathPrefix: 'docs/' }).check('https://example.com/docs/install')).toBeNull();
+    });
+
+    it('reports the host and path scope rules', () => {
+      const rules = new UrlRules(START_URL, { pathPrefix: '/docs/' });
+
+      expect(rules.check('https://other.com/docs/')).toEqual({ reason: 'out_of_scope_host', rule: 'host: example.com' });
+      expect(rules.check('https://example.com/blog/')).toEqual({ reason: 'out_of_scope_path', rule: 'pathPrefix: /docs/' });
+    });
+
+    it('skips URLs with a query string when queryHandling is skip', () => {
+      expect(new UrlRules(START_URL, { queryHandling: 'skip' }).check('https://example.com/docs/?page=2'))
+        .toEqual({ reason: 'query_not_allowed', rule: 'queryHandling: skip' });
+    });
+
+    it('applies default excludes unless disabled', () => {
+      expect(new UrlRules(START_URL).check('https://example.com/docs/manual.pdf'))
+        .toEqual(expect.objectContaining({ reason: 'excluded_by_default' }));
+      expect(new UrlRules(START_URL, { useDefaultExcludes: false }).check('https://example.com/docs/manual.pdf')).toBeNull();
+    });
+
+    it('checks exclude patterns before include patterns', () => {
+      const rules = new UrlRules(START_URL, { includePatterns: ['/docs/*'], excludePatterns: ['*/legacy/*'] });
+
+      expect(rules.check('https://example.com/docs/legacy/setup')).toEqual({ reason: 'excluded_by_pattern', rule: 'exclude: */legacy/*' });
+      expect(rules.check('https://example.com/blog/post')).toEqual({ reason: 'not_included_by_pattern', rule: 'include: /docs/*' });
+      expect(rules.check('https://example.com/docs/setup')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { normalizeUrl } from './url-frontier';
+
+export type QueryHandling = 'keep' | 'strip' | 'allowlist' | 'skip';
+
+export interface UrlRuleOptions {
+  // glob(`*`) 또는 /정규식/ 패턴, 경로+쿼리에 대해 검사 (include가 있으면 일치하는 URL만 크롤링)
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  // 이 경로 아래의 URL만 크롤링 (예: /docs/v2/)
+  pathPrefix?: string;
+  // 시작 URL 도메인의 하위 도메인 링크도 따라감
+  includeSubdomains?: boolean;
+  // 쿼리 문자열 처리: keep(유지), strip(제거), allowlist(허용된 파라미터만 유지), skip(쿼리가 있는 URL 제외)
+  queryHandling?: QueryHandling;
+  allowedQueryParams?: string[];
+  // 기본 제외 규칙(/api/, /admin/, 정적 파일) 적용 여부
+  useDefaultExcludes?: boolean;
+}
+
+export interface UrlRuleMatch {
+  reason: string;
+  rule: string;
+}
+
+// 기본 제외 규칙 (정적 파일, API/관리자 경로)
+export const DEFAULT_EXCLUDE_PATTERNS: string[] = [
+  '/\\.(pdf|jpg|jpeg|png|gif|svg|webp|css|js|ico|zip|gz|mp4|mp3|woff2?)$/i',
+  '*/api/*',
+  '*/admin/*'
+];
+
+// 패턴 문자열을 정규식으로 변환 (/.../flags 형식은 정규식, 그 외는 `*` glob)
+export function compileUrlPattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    return new RegExp(regexMatch[1], regexMatch[2]);
+  }
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+// 사이트 크롤링 URL 규칙: 호스트/경로 범위, include/exclude 패턴, 쿼리 문자열 처리
+export class UrlRules {
+  private readonly baseHost: string;
+  private readonly pathPrefix: string | null;
+  private readonly includes: { pattern: string; regex: RegExp }[];
+  private readonly excludes: { pattern: string; regex: RegExp; isDefault: boolean }[];
+
+  constructor(startUrl: string, private readonly options: UrlRuleOptions = {}) {
+    this.baseHost = new URL(startUrl).hostname.replace(/^www\./, '');
+    this.pathPrefix = options.pathPrefix
+      ? (options.pathPrefix.startsWith('/') ? options.pathPrefix : `/${options.pathPrefix}`)
+      : null;
+
+    this.includes = (options.includePatterns || []).map(pattern => ({ pattern, regex: compileUrlPattern(pattern) }));
+    this.excludes = [
+      ...(options.excludePatterns || []).map(pattern => ({ pattern, isDefault: false })),
+      ...(options.useDefaultExcludes === false ? [] : DEFAULT_EXCLUDE_PATTERNS.map(pattern => ({ pattern, isDefault: true })))
+    ].map(rule => ({ ...rule, regex: compileUrlPattern(rule.pattern) }));
+  }
+
+  // 큐에 넣기 전 링크 변환: 범위 밖 호스트는 조용히 버리고 쿼리 문자열 규칙 적용
+  rewrite(rawUrl: string): string | null {
+    const normalized = normalizeUrl(rawUrl);
+    if (!normalized) {
+      return null;
+    }
+
+    const url = new URL(normalized);
+    if (!this.isHostInScope(url.hostname)) {
+      return null;
+    }
+
+    const queryHandling = this.options.queryHandling || 'keep';
+    if (queryHandling === 'strip') {
+      url.search = '';
+    } else if (queryHandling === 'allowlist') {
+      const allowed = new Set(this.options.allowedQueryParams || []);
+      const params = Array.from(url.searchParams.entries()).filter(([key]) => allowed.has(key));
+      url.search = '';
+      params.forEach(([key, value]) => url.searchParams.append(key, value));
+    }
+
+    return url.href;
+  }
+
+  // 크롤링 전 규칙 검사, 제외되면 일치한 규칙 반환
+  check(rawUrl: string): UrlRuleMatch | null {
+    const url = new URL(rawUrl);
+    const path = url.pathname + url.search;
+
+    if (!this.isHostInScope(url.hostname)) {
+      return {
+        reason: 'out_of_scope_host',
+        rule: this.options.includeSubdomains ? `host: *.${this.baseHost}` : `host: ${this.baseHost}`
+      };
+    }
+
+    if (this.pathPrefix && !url.pathname.startsWith(this.pathPrefix)) {
+      return { reason: 'out_of_scope_path', rule: `pathPrefix: ${this.pathPrefix}` };
+    }
+
+    if (this.options.queryHandling === 'skip' && url.search) {
+      return { reason: 'query_not_allowed', rule: 'queryHandling: skip' };
+    }
+
+    const excluded = this.excludes.find(rule => rule.regex.test(path));
+    if (excluded) {
+      return {
+        reason: excluded.isDefault ? 'excluded_by_default' : 'excluded_by_pattern',
+        rule: `exclude: ${excluded.pattern}`
+      };
+    }
+
+    if (this.includes.length > 0 && !this.includes.some(rule => rule.regex.test(path))) {
+      return {
+        reason: 'not_included_by_pattern',
+        rule: `include: ${this.includes.map(rule => rule.pattern).join(', ')}`
+      };
+    }
+
+    return null;
+  }
+
+  private isHostInScope(hostname: string): boolean {
+    const host = hostname.replace(/^www\./, '');
+    if (host === this.baseHost) {
+      return true;
+    }
+    return !!this.options.includeSubdomains && host.endsWith(`.${this.baseHost}`);
+  }
+}
@@ -1,6 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Client } from 'pg';
 import { databaseConfig } from '../config/database.config';
+import { simHashBands } from '../crawling/simhash';
+
+// 청크별 부가 정보 (예: GitHub 코드 청크의 파일 경로, 언어, 심볼, 줄 범위와 해당 위치 URL)
+export interface ChunkMetadata {
+  url?: string;
+  path?: string;
+  language?: string;
+  symbol?: string | null;
+  startLine?: number;
+  endLine?: number;
+  // PDF 페이지 번호(1부터)와 목차 경로
+  page?: number;
+  section?: string;
+  [key: string]: any;
+}
 
 export interface CrawlRecord {
   id?: number;
@@ -10,19 +25,151 @@ export interface CrawlRecord {
   embedding: number[];
   chunk_index: number;
   page_index: number;
+  content_hash?: string;
+  chunk_metadata?: ChunkMetadata | null;
+  // 유사 중복 탐지용 SimHash (16진수 16자리, 토큰이 없으면 빈 문자열)
+  simhash?: string | null;
+  // 다른 문서의 거의 같은 청크 id (임베딩을 재사용해 연결된 경우)
+  duplicate_of?: number | null;
   created_at?: Date;
 }
 
+export interface StoredChunk {
+  id: number;
+  content: string;
+  content_hash: string | null;
+  chunk_index: number | null;
+}
+
+export interface ChunkPosition {
+  id: number;
+  content_hash: string;
+  chunk_index: number;
+  page_index: number;
+  chunk_metadata?: ChunkMetadata | null;
+  simhash?: string | null;
+}
+
+export interface SimHashCandidate {
+  id: number;
+  url: string;
+  simhash: string;
+}
+
+export interface ChunkFingerprint {
+  id: number;
+  url: string;
+  title: string;
+  simhash: string;
+  duplicate_of: number | null;
+  // 본문 앞부분 (목록 표시용)
+  preview: string;
+}
+
+export interface PageState {
+  url: string;
+  document_url: string;
+  etag: string | null;
+  last_modified: string | null;
+  content_hash: string;
+  title: string;
+  links: string[];
+  chunk_count: number;
+  crawled_at?: Date;
+}
+
+// 문서 단위 메타데이터 (청크마다 복사하지 않고 URL별로 한 번 저장)
+export interface DocumentRecord {
+  url: string;
+  title: string;
+  source_type: string;
+  language: string | null;
+  author: string | null;
+  published_at: Date | null;
+  modified_at: Date | null;
+  canonical_url: string | null;
+  // 정규화한 원문 전체의 SHA-256
+  content_hash: string;
+  word_count: number;
+  chunk_count: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+// 문서 하나를 다시 수집한 결과 (syncDocumentRecords에서 한 트랜잭션으로 반영)
+export interface DocumentChunkChange {
+  kept: ChunkPosition[];
+  added: CrawlRecord[];
+  staleIds: number[];
+  document: DocumentRecord;
+}
+
+// /crawling/history와 검색 결과에 포함하는 문서 메타데이터
+export interface DocumentSummary {
+  sourceType: string;
+  language: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  modifiedAt: Date | null;
+  canonicalUrl: string | null;
+  contentHash: string;
+  wordCount: number;
+  updatedAt: Date;
+}
+
+// 문서 메타데이터 검색 조건 (지정한 조건을 모두 만족하는 문서의 청크만 검색)
+export interface DocumentFilter {
+  sourceTypes?: string[];
+  language?: string;
+  // 부분 일치 (대소문자 무시)
+  author?: string;
+  publishedAfter?: Date;
+  publishedBefore?: Date;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  urlPrefix?: string;
+}
+
 export interface ThreadGroup {
   content: string;
   link: string;
   createdAt: Date;
   count: number;
+  // 메타데이터 저장 기능 추가 전에 수집되어 아직 다시 수집되지 않은 문서는 null
+  document: DocumentSummary | null;
+}
+
+// 문서 관리 API의 문서 단위 요약 (청크 수와 임베딩 상태 집계)
+export interface DocumentOverview {
+  url: string;
+  title: string;
+  chunkCount: number;
+  // 임베딩이 저장된 청크 수
+  embeddedChunks: number;
+  // 다른 문서의 유사 중복 청크에 연결된 청크 수
+  linkedChunks: number;
+  firstIngestedAt: Date;
+  lastIngestedAt: Date;
+  document: DocumentSummary | null;
+}
+
+// 문서 상세 보기의 청크 (문서 내 순서대로)
+export interface DocumentChunk {
+  id: number;
+  chunkIndex: number | null;
+  pageIndex: number | null;
+  content: string;
+  contentHash: string | null;
+  metadata: ChunkMetadata | null;
+  embedded: boolean;
+  duplicateOf: number | null;
+  createdAt: Date;
 }
 
 @Injectable()
 export class DatabaseService {
   private readonly logger = new Logger(DatabaseService.name);
+  private crawlSchemaReady: Promise<void> | null = null;
 
   async getClient(): Promise<Client> {
     const client = new Client(databaseConfig);
@@ -56,6 +203,72 @@ export class DatabaseService {
     }
   }
 
+  // 증분 크롤링용 컬럼 및 페이지 상태 테이블 생성 (최초 1회)
+  ensureCrawlSchema(): Promise<void> {
+    if (!this.crawlSchemaReady) {
+      this.crawlSchemaReady = this.createCrawlSchema().catch(error => {
+        this.crawlSchemaReady = null;
+        throw error;
+      });
+    }
+    return this.crawlSchemaReady;
+  }
+
+  private async createCrawlSchema(): Promise<void> {
+    const client = await this.getClient();
+
+    try {
+      await client.query(`
+        ALTER TABLE threads
+          ADD COLUMN IF NOT EXISTS content_hash TEXT,
+          ADD COLUMN IF NOT EXISTS chunk_index INTEGER,
+          ADD COLUMN IF NOT EXISTS page_index INTEGER,
+          ADD COLUMN IF NOT EXISTS chunk_metadata JSONB,
+          ADD COLUMN IF NOT EXISTS simhash TEXT,
+          ADD COLUMN IF NOT EXISTS simhash_bands TEXT[],
+          ADD COLUMN IF NOT EXISTS duplicate_of INTEGER
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS threads_simhash_bands_idx ON threads USING GIN (simhash_bands)');
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_page_state (
+          url TEXT PRIMARY KEY,
+          document_url TEXT NOT NULL,
+          etag TEXT,
+          last_modified TEXT,
+          content_hash TEXT NOT NULL,
+          title TEXT,
+          links JSONB NOT NULL DEFAULT '[]',
+          chunk_count INTEGER NOT NULL DEFAULT 0,
+          crawled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS crawl_documents (
+          url TEXT PRIMARY KEY,
+          title TEXT,
+          source_type TEXT NOT NULL,
+          language TEXT,
+          author TEXT,
+          published_at TIMESTAMPTZ,
+          modified_at TIMESTAMPTZ,
+          canonical_url TEXT,
+          content_hash TEXT NOT NULL,
+          word_count INTEGER NOT NULL DEFAULT 0,
+          chunk_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      this.logger.log('크롤링 스키마 초기화 완료');
+    } catch (error) {
+      this.logger.error('크롤링 스키마 초기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
   async saveRecord(record: CrawlRecord): Promise<number> {
     const client = await this.getClient();
     
@@ -83,54 +296,11 @@ export class DatabaseService {
   }
 
   async saveBatchRecords(records: CrawlRecord[]): Promise<number[]> {
+    await this.ensureCrawlSchema();
     const client = await this.getClient();
-    const ids: number[] = [];
     
     try {
-      for (const record of records) {
-        const embeddingString = record.embedding 
-          ? `[${record.embedding.join(',')}]` 
-          : null;
-
-        // 만약 thread_url에 유니크 제약조건을 추가했다면 아래 코드를 사용하세요:
-        // ALTER TABLE threads ADD CONSTRAINT threads_thread_url_unique UNIQUE (thread_url);
-        /*
-        const result = await client.query(`
-          INSERT INTO threads (
-            thread_url, root_message, thread_summary, thread_embedding
-          )
-          VALUES ($1, $2, $3, $4)
-          ON CONFLICT (thread_url)
-          DO UPDATE SET
-            root_message = EXCLUDED.root_message,
-            thread_summary = EXCLUDED.thread_summary,
-            thread_embedding = EXCLUDED.thread_embedding,
-            updated_at = CURRENT_TIMESTAMP
-          RETURNING id
-        `, [
-          record.url,
-          record.title || null,  // title이 root_message
-          record.content || null, // content가 thread_summary
-          embeddingString        // thread_summary(content) 기반 임베딩
-        ]);
-        */
-        
-        const result = await client.query(`
-          INSERT INTO threads (
-            thread_url, root_message, thread_summary, thread_embedding
-          )
-          VALUES ($1, $2, $3, $4)
-          RETURNING id
-        `, [
-          record.url,
-          record.title || null,   // title이 root_message
-          record.content || null, // content가 thread_summary  
-          embeddingString         // thread_summary(content) 기반 임베딩
-        ]);
-        
-        ids.push(result.rows[0].id);
-      }
-      
+      const ids = await this.insertRecords(client, records);
       this.logger.log(`${records.length}개 레코드 저장 완료`);
       return ids;
     } catch (error) {
@@ -141,13 +311,85 @@ export class DatabaseService {
     }
   }
 
+  private async insertRecords(client: Client, records: CrawlRecord[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const record of records) {
+      const embeddingString = record.embedding 
+        ? `[${record.embedding.join(',')}]` 
+        : null;
+
+      // 만약 thread_url에 유니크 제약조건을 추가했다면 아래 코드를 사용하세요:
+      // ALTER TABLE threads ADD CONSTRAINT threads_thread_url_unique UNIQUE (thread_url);
+      /*
+      const result = await client.query(`
+        INSERT INTO threads (
+          thread_url, root_message, thread_summary, thread_embedding
+        )
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (thread_url)
+        DO UPDATE SET
+          root_message = EXCLUDED.root_message,
+          thread_summary = EXCLUDED.thread_summary,
+          thread_embedding = EXCLUDED.thread_embedding,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING id
+      `, [
+        record.url,
+        record.title || null,  // title이 root_message
+        record.content || null, // content가 thread_summary
+        embeddingString        // thread_summary(content) 기반 임베딩
+      ]);
+      */
+      
+      const result = await client.query(`
+        INSERT INTO threads (
+          thread_url, root_message, thread_summary, thread_embedding,
+          content_hash, chunk_index, page_index, chunk_metadata,
+          simhash, simhash_bands, duplicate_of
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING id
+      `, [
+        record.url,
+        record.title || null,   // title이 root_message
+        record.content || null, // content가 thread_summary  
+        embeddingString,        // thread_summary(content) 기반 임베딩
+        record.content_hash || null,
+        record.chunk_index,
+        record.page_index,
+        record.chunk_metadata ? JSON.stringify(record.chunk_metadata) : null,
+        record.simhash ?? null,
+        record.simhash ? simHashBands(record.simhash) : null,
+        record.duplicate_of ?? null
+      ]);
+      
+      ids.push(result.rows[0].id);
+    }
+    return ids;
+  }
+
   async deleteByUrls(urls: string[]): Promise<number> {
     if (urls.length === 0) return 0;
     
+    await this.ensureCrawlSchema();
     const client = await this.getClient();
     
     try {
-      const result = await client.query('DELETE FROM tmp WHERE url = ANY($1)', [urls]);
+      // 수집한 청크는 saveBatchRecords로 threads에 저장되므로 tmp가 아닌 threads에서 삭제
+      // 삭제되는 청크에 연결된 유사 중복 청크는 연결만 해제
+      await client.query(`
+        UPDATE threads SET duplicate_of = NULL
+        WHERE duplicate_of IN (
+          SELECT id FROM threads WHERE thread_url = ANY($1) AND thread_ts IS NULL AND channel_id IS NULL
+        )
+      `, [urls]);
+      const result = await client.query(`
+        DELETE FROM threads
+        WHERE thread_url = ANY($1)
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+      `, [urls]);
+      await client.query('DELETE FROM crawl_documents WHERE url = ANY($1)', [urls]);
       this.logger.log(`${result.rowCount}개 기존 레코드 삭제`);
       return result.rowCount;
     } catch (error) {
@@ -158,20 +400,399 @@ export class DatabaseService {
     }
   }
 
-  async searchSimilar(embedding: number[], limit: number = 10): Promise<any[]> {
+  async getChunksByUrl(url: string): Promise<StoredChunk[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT id, thread_summary, content_hash, chunk_index
+        FROM threads
+        WHERE thread_url = $1
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+        ORDER BY chunk_index NULLS LAST, id
+      `, [url]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        content: row.thread_summary || '',
+        content_hash: row.content_hash,
+        chunk_index: row.chunk_index
+      }));
+    } catch (error) {
+      this.logger.error('URL별 청크 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // URL 접두사로 저장된 크롤링 문서 URL 조회 (예: 저장소 blob URL 범위)
+  async getDocumentUrlsByPrefix(prefix: string): Promise<string[]> {
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT DISTINCT thread_url
+        FROM threads
+        WHERE thread_url LIKE $1 ESCAPE '\\'
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+      `, [`${prefix.replace(/[\\%_]/g, '\\$&')}%`]);
+
+      return result.rows.map(row => row.thread_url);
+    } catch (error) {
+      this.logger.error('URL 접두사별 문서 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async deleteByIds(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const client = await this.getClient();
+
+    try {
+      return await this.deleteIds(client, ids);
+    } catch (error) {
+      this.logger.error('ID별 삭제 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async deleteIds(client: Client, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    await client.query('UPDATE threads SET duplicate_of = NULL WHERE duplicate_of = ANY($1)', [ids]);
+    const result = await client.query('DELETE FROM threads WHERE id = ANY($1)', [ids]);
+    return result.rowCount;
+  }
+
+  // 변경되지 않은 청크의 해시 보정 및 순서/페이지 위치/메타데이터 갱신
+  private async updatePositions(client: Client, updates: ChunkPosition[]): Promise<void> {
+    for (const update of updates) {
+      await client.query(`
+        UPDATE threads
+        SET content_hash = $2, chunk_index = $3, page_index = $4, chunk_metadata = $5,
+            simhash = COALESCE($6, simhash), simhash_bands = COALESCE($7, simhash_bands)
+        WHERE id = $1
+      `, [
+        update.id,
+        update.content_hash,
+        update.chunk_index,
+        update.page_index,
+        update.chunk_metadata ? JSON.stringify(update.chunk_metadata) : null,
+        update.simhash ?? null,
+        update.simhash ? simHashBands(update.simhash) : null
+      ]);
+    }
+  }
+
+  // SimHash 밴드가 하나라도 일치하는 다른 문서의 원본 청크 (거리 계산은 호출 측에서)
+  async findSimHashCandidates(simhash: string, excludeUrl: string, limit: number = 200): Promise<SimHashCandidate[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT id, thread_url, simhash
+        FROM threads
+        WHERE simhash_bands && $1
+          AND thread_url <> $2
+          AND duplicate_of IS NULL
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+        ORDER BY id
+        LIMIT $3
+      `, [simHashBands(simhash), excludeUrl, limit]);
+
+      return result.rows.map(row => ({ id: row.id, url: row.thread_url, simhash: row.simhash }));
+    } catch (error) {
+      this.logger.error('유사 청크 후보 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getChunkEmbedding(id: number): Promise<number[] | null> {
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query('SELECT thread_embedding::text AS embedding FROM threads WHERE id = $1', [id]);
+      const embedding = result.rows[0] ? result.rows[0].embedding : null;
+      return embedding ? JSON.parse(embedding) : null;
+    } catch (error) {
+      this.logger.error('청크 임베딩 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // SimHash가 없는 기존 크롤링 청크 (기능 추가 전에 저장된 청크 보정용)
+  async getChunksWithoutSimHash(limit: number): Promise<StoredChunk[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT id, thread_summary, content_hash, chunk_index
+        FROM threads
+        WHERE simhash IS NULL
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+        ORDER BY id
+        LIMIT $1
+      `, [limit]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        content: row.thread_summary || '',
+        content_hash: row.content_hash,
+        chunk_index: row.chunk_index
+      }));
+    } catch (error) {
+      this.logger.error('SimHash 미계산 청크 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async updateSimHashes(updates: { id: number; simhash: string }[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    const client = await this.getClient();
+
+    try {
+      for (const update of updates) {
+        await client.query('UPDATE threads SET simhash = $2, simhash_bands = $3 WHERE id = $1', [
+          update.id,
+          update.simhash,
+          update.simhash ? simHashBands(update.simhash) : null
+        ]);
+      }
+    } catch (error) {
+      this.logger.error('SimHash 갱신 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getChunkFingerprints(): Promise<ChunkFingerprint[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT id, thread_url, root_message, simhash, duplicate_of, LEFT(thread_summary, 200) AS preview
+        FROM threads
+        WHERE simhash IS NOT NULL
+          AND simhash <> ''
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+        ORDER BY id
+      `);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        url: row.thread_url,
+        title: row.root_message,
+        simhash: row.simhash,
+        duplicate_of: row.duplicate_of,
+        preview: row.preview || ''
+      }));
+    } catch (error) {
+      this.logger.error('청크 지문 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async upsertDocument(document: DocumentRecord): Promise<void> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      await this.upsertDocumentRow(client, document);
+    } catch (error) {
+      this.logger.error('문서 메타데이터 저장 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 문서 하나의 청크 변경(유지 청크 위치 갱신, 새 청크 저장, 이전 청크 삭제)과 문서 메타데이터를 한 트랜잭션으로 저장
+  async syncDocumentRecords(change: DocumentChunkChange): Promise<number[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await this.updatePositions(client, change.kept);
+      const ids = await this.insertRecords(client, change.added);
+      await this.deleteIds(client, change.staleIds);
+      await this.upsertDocumentRow(client, change.document);
+      await client.query('COMMIT');
+      return ids;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      this.logger.error('문서 청크 동기화 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private async upsertDocumentRow(client: Client, document: DocumentRecord): Promise<void> {
+    await client.query(`
+      INSERT INTO crawl_documents (
+        url, title, source_type, language, author, published_at, modified_at, canonical_url, content_hash, word_count, chunk_count
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (url) DO UPDATE SET
+        title = EXCLUDED.title,
+        source_type = EXCLUDED.source_type,
+        language = EXCLUDED.language,
+        author = EXCLUDED.author,
+        published_at = EXCLUDED.published_at,
+        modified_at = EXCLUDED.modified_at,
+        canonical_url = EXCLUDED.canonical_url,
+        content_hash = EXCLUDED.content_hash,
+        word_count = EXCLUDED.word_count,
+        chunk_count = EXCLUDED.chunk_count,
+        updated_at = CURRENT_TIMESTAMP
+    `, [
+      document.url,
+      document.title,
+      document.source_type,
+      document.language,
+      document.author,
+      document.published_at,
+      document.modified_at,
+      document.canonical_url,
+      document.content_hash,
+      document.word_count,
+      document.chunk_count
+    ]);
+  }
+
+  async getPageState(url: string): Promise<PageState | null> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query('SELECT * FROM crawl_page_state WHERE url = $1', [url]);
+      return result.rows[0] || null;
+    } catch (error) {
+      this.logger.error('페이지 상태 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async savePageState(state: PageState): Promise<void> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      await client.query(`
+        INSERT INTO crawl_page_state (
+          url, document_url, etag, last_modified, content_hash, title, links, chunk_count, crawled_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+        ON CONFLICT (url)
+        DO UPDATE SET
+          document_url = EXCLUDED.document_url,
+          etag = EXCLUDED.etag,
+          last_modified = EXCLUDED.last_modified,
+          content_hash = EXCLUDED.content_hash,
+          title = EXCLUDED.title,
+          links = EXCLUDED.links,
+          chunk_count = EXCLUDED.chunk_count,
+          crawled_at = CURRENT_TIMESTAMP
+      `, [
+        state.url,
+        state.document_url,
+        state.etag,
+        state.last_modified,
+        state.content_hash,
+        state.title,
+        JSON.stringify(state.links || []),
+        state.chunk_count
+      ]);
+    } catch (error) {
+      this.logger.error('페이지 상태 저장 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async deletePageState(url: string): Promise<void> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      await client.query('DELETE FROM crawl_page_state WHERE url = $1', [url]);
+    } catch (error) {
+      this.logger.error('페이지 상태 삭제 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 수집한 문서 청크 검색 (수집 시 다른 문서 청크에 연결된 유사 중복은 조건이 없을 때 제외)
+  // 청크는 saveBatchRecords로 threads에 저장되므로 tmp(saveRecord 전용)가 아닌 threads를 검색
+  async searchSimilar(embedding: number[], limit: number = 10, filter: DocumentFilter = {}): Promise<any[]> {
+    await this.ensureCrawlSchema();
     const client = await this.getClient();
     
     try {
+      const params: any[] = [JSON.stringify(embedding), limit];
+      const conditions = this.documentFilterConditions(filter, params);
+      // 조건으로 원본 청크가 제외될 수 있으므로 조건이 있으면 연결된 중복도 검색
+      if (conditions.length === 0) {
+        conditions.push('t.duplicate_of IS NULL');
+      }
+
       const result = await client.query(`
-        SELECT id, url, title, content, chunk_index, page_index, created_at,
-               embedding <-> $1 as distance
-        FROM tmp
-        ORDER BY embedding <-> $1
+        SELECT t.id, t.thread_url AS url, t.root_message AS title, t.thread_summary AS content,
+               t.chunk_index, t.page_index, t.chunk_metadata, t.created_at,
+               d.source_type, d.language, d.author, d.published_at, d.modified_at,
+               d.canonical_url, d.content_hash AS document_hash, d.word_count, d.updated_at AS document_updated_at,
+               t.thread_embedding <-> $1 as distance
+        FROM threads t
+        LEFT JOIN crawl_documents d ON d.url = t.thread_url
+        WHERE t.thread_ts IS NULL
+          AND t.channel_id IS NULL
+          AND t.thread_embedding IS NOT NULL
+          ${conditions.map(condition => `AND ${condition}`).join('\n          ')}
+        ORDER BY t.thread_embedding <-> $1
         LIMIT $2
-      `, [JSON.stringify(embedding), limit]);
+      `, params);
 
       return result.rows.map(row => ({
-        ...row,
+        id: row.id,
+        url: row.url,
+        title: row.title,
+        content: row.content,
+        chunk_index: row.chunk_index,
+        page_index: row.page_index,
+        chunk_metadata: row.chunk_metadata,
+        created_at: row.created_at,
+        document: this.toDocumentSummary(row),
         distance: parseFloat(row.distance)
       }));
     } catch (error) {
@@ -183,28 +804,33 @@ export class DatabaseService {
   }
 
   async getCrawledThreadGroups(): Promise<ThreadGroup[]> {
+    await this.ensureCrawlSchema();
     const client = await this.getClient();
     
     try {
       const result = await client.query(`
         SELECT 
-          root_message,
-          thread_url,
-          MIN(created_at) as created_at,
-          COUNT(*) as count
-        FROM threads 
-        WHERE thread_ts IS NULL 
-          AND channel_id IS NULL
-          AND root_message IS NOT NULL
-        GROUP BY root_message, thread_url
-        ORDER BY MIN(created_at) DESC
+          t.root_message,
+          t.thread_url,
+          MIN(t.created_at) as created_at,
+          COUNT(*) as count,
+          d.source_type, d.language, d.author, d.published_at, d.modified_at,
+          d.canonical_url, d.content_hash AS document_hash, d.word_count, d.updated_at AS document_updated_at
+        FROM threads t
+        LEFT JOIN crawl_documents d ON d.url = t.thread_url
+        WHERE t.thread_ts IS NULL 
+          AND t.channel_id IS NULL
+          AND t.root_message IS NOT NULL
+        GROUP BY t.root_message, t.thread_url, d.url
+        ORDER BY MIN(t.created_at) DESC
       `);
 
       return result.rows.map(row => ({
         content: row.root_message,
         link: row.thread_url,
         createdAt: row.created_at,
-        count: parseInt(row.count)
+        count: parseInt(row.count),
+        document: this.toDocumentSummary(row)
       }));
     } catch (error) {
       this.logger.error('크롤링된 스레드 그룹 조회 오류:', error);
@@ -214,6 +840,200 @@ export class DatabaseService {
     }
   }
 
+  // 문서(URL) 단위 목록, 최근 수집한 문서부터
+  async listDocuments(filter: DocumentFilter, limit: number, offset: number): Promise<{ documents: DocumentOverview[]; total: number }> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const params: any[] = [];
+      const conditions = this.documentFilterConditions(filter, params);
+      const where = `
+        WHERE t.thread_ts IS NULL
+          AND t.channel_id IS NULL
+          ${conditions.map(condition => `AND ${condition}`).join('\n          ')}
+      `;
+
+      const count = await client.query(`
+        SELECT COUNT(DISTINCT t.thread_url) AS total
+        FROM threads t
+        LEFT JOIN crawl_documents d ON d.url = t.thread_url
+        ${where}
+      `, params);
+      const result = await client.query(`
+        ${this.documentOverviewSelect()}
+        ${where}
+        GROUP BY t.thread_url, d.url
+        ORDER BY GREATEST(d.updated_at, MAX(t.created_at)) DESC, t.thread_url
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `, [...params, limit, offset]);
+
+      return {
+        documents: result.rows.map(row => this.toDocumentOverview(row)),
+        total: parseInt(count.rows[0].total, 10)
+      };
+    } catch (error) {
+      this.logger.error('문서 목록 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getDocumentOverview(url: string): Promise<DocumentOverview | null> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        ${this.documentOverviewSelect()}
+        WHERE t.thread_url = $1
+          AND t.thread_ts IS NULL
+          AND t.channel_id IS NULL
+        GROUP BY t.thread_url, d.url
+      `, [url]);
+
+      return result.rows.length > 0 ? this.toDocumentOverview(result.rows[0]) : null;
+    } catch (error) {
+      this.logger.error('문서 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  async getDocumentChunks(url: string): Promise<DocumentChunk[]> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      const result = await client.query(`
+        SELECT id, chunk_index, page_index, thread_summary, content_hash, chunk_metadata, duplicate_of, created_at,
+               thread_embedding IS NOT NULL AS embedded
+        FROM threads
+        WHERE thread_url = $1
+          AND thread_ts IS NULL
+          AND channel_id IS NULL
+        ORDER BY chunk_index NULLS LAST, id
+      `, [url]);
+
+      return result.rows.map(row => ({
+        id: row.id,
+        chunkIndex: row.chunk_index,
+        pageIndex: row.page_index,
+        content: row.thread_summary || '',
+        contentHash: row.content_hash,
+        metadata: row.chunk_metadata,
+        embedded: row.embedded,
+        duplicateOf: row.duplicate_of,
+        createdAt: row.created_at
+      }));
+    } catch (error) {
+      this.logger.error('문서 청크 조회 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  // 문서를 가리키는 페이지 상태 삭제 (리다이렉트/canonical로 다른 URL에서 가져온 상태 포함)
+  async deletePageStatesForDocument(documentUrl: string): Promise<void> {
+    await this.ensureCrawlSchema();
+    const client = await this.getClient();
+
+    try {
+      await client.query('DELETE FROM crawl_page_state WHERE url = $1 OR document_url = $1', [documentUrl]);
+    } catch (error) {
+      this.logger.error('문서 페이지 상태 삭제 오류:', error);
+      throw error;
+    } finally {
+      await client.end();
+    }
+  }
+
+  private documentOverviewSelect(): string {
+    return `
+      SELECT
+        t.thread_url,
+        COALESCE(d.title, MAX(t.root_message)) AS title,
+        COUNT(*) AS chunk_count,
+        COUNT(t.thread_embedding) AS embedded_count,
+        COUNT(t.duplicate_of) AS linked_count,
+        MIN(t.created_at) AS first_ingested_at,
+        MAX(t.created_at) AS last_ingested_at,
+        d.source_type, d.language, d.author, d.published_at, d.modified_at,
+        d.canonical_url, d.content_hash AS document_hash, d.word_count, d.updated_at AS document_updated_at
+      FROM threads t
+      LEFT JOIN crawl_documents d ON d.url = t.thread_url
+    `;
+  }
+
+  private toDocumentOverview(row: any): DocumentOverview {
+    return {
+      url: row.thread_url,
+      title: row.title || '',
+      chunkCount: parseInt(row.chunk_count, 10),
+      embeddedChunks: parseInt(row.embedded_count, 10),
+      linkedChunks: parseInt(row.linked_count, 10),
+      firstIngestedAt: row.first_ingested_at,
+      lastIngestedAt: row.last_ingested_at,
+      document: this.toDocumentSummary(row)
+    };
+  }
+
+  // crawl_documents(d), threads(t) 별칭 기준 WHERE 조건 (값은 params에 추가)
+  private documentFilterConditions(filter: DocumentFilter, params: any[]): string[] {
+    const conditions: string[] = [];
+    const param = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (filter.sourceTypes && filter.sourceTypes.length > 0) {
+      conditions.push(`d.source_type = ANY(${param(filter.sourceTypes)})`);
+    }
+    if (filter.language) {
+      conditions.push(`d.language = ${param(filter.language)}`);
+    }
+    if (filter.author) {
+      conditions.push(`d.author ILIKE ${param(`%${filter.author.replace(/[\\%_]/g, '\\$&')}%`)}`);
+    }
+    if (filter.publishedAfter) {
+      conditions.push(`d.published_at >= ${param(filter.publishedAfter)}`);
+    }
+    if (filter.publishedBefore) {
+      conditions.push(`d.published_at < ${param(filter.publishedBefore)}`);
+    }
+    if (filter.modifiedAfter) {
+      conditions.push(`COALESCE(d.modified_at, d.published_at) >= ${param(filter.modifiedAfter)}`);
+    }
+    if (filter.modifiedBefore) {
+      conditions.push(`COALESCE(d.modified_at, d.published_at) < ${param(filter.modifiedBefore)}`);
+    }
+    if (filter.urlPrefix) {
+      conditions.push(`t.thread_url LIKE ${param(`${filter.urlPrefix.replace(/[\\%_]/g, '\\$&')}%`)}`);
+    }
+
+    return conditions;
+  }
+
+  private toDocumentSummary(row: any): DocumentSummary | null {
+    if (!row.source_type) {
+      return null;
+    }
+    return {
+      sourceType: row.source_type,
+      language: row.language,
+      author: row.author,
+      publishedAt: row.published_at,
+      modifiedAt: row.modified_at,
+      canonicalUrl: row.canonical_url,
+      contentHash: row.document_hash,
+      wordCount: row.word_count,
+      updatedAt: row.document_updated_at
+    };
+  }
+
   async getCrawledDocsCount(): Promise<number> {
       const client = await this.getClient();
 